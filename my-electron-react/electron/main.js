@@ -1,6 +1,7 @@
 // file: electron/main.js  (վստահելի ուղի packaged app-ի համար)
 import { app, BrowserWindow, ipcMain } from 'electron'
 import path from 'node:path'
+import { readFile, writeFile, rename } from 'node:fs/promises'
 import { fileURLToPath } from 'node:url'
 
 const __filename = fileURLToPath(import.meta.url)
@@ -35,3 +36,15 @@ app.whenReady().then(createWindow)
 app.on('window-all-closed', () => { if (process.platform !== 'darwin') app.quit() })
 app.on('activate', () => { if (BrowserWindow.getAllWindows().length === 0) createWindow() })
 ipcMain.handle('ping', () => 'pong')
+
+// camera library: one JSON file in the user's app data folder
+const cameraLibraryPath = () => path.join(app.getPath('userData'), 'camera-library.json')
+// why: only a missing file means "no library yet"; any other failure goes back to the UI
+ipcMain.handle('cameraLibrary:read', () => readFile(cameraLibraryPath(), 'utf8')
+  .catch(err => { if (err?.code === 'ENOENT') return null; throw err }))
+// why: written aside and renamed over, so a crash mid-write leaves the old file whole
+ipcMain.handle('cameraLibrary:write', async (_e, json) => {
+  const file = cameraLibraryPath()
+  await writeFile(`${file}.tmp`, String(json), 'utf8')
+  await rename(`${file}.tmp`, file)
+})
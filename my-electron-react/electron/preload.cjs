@@ -1,3 +1,11 @@
 // file: electron/preload.cjs
-const { contextBridge, ipcRenderer } = require('electron')
-contextBridge.exposeInMainWorld('api', { ping: () => ipcRenderer.invoke('ping') })
+const { contextBridge, ipcRenderer, webUtils } = require('electron')
+contextBridge.exposeInMainWorld('api', {
+  ping: () => ipcRenderer.invoke('ping'),
+  // File.path is gone since Electron 32; this is its replacement
+  pathForFile: (file) => webUtils.getPathForFile(file),
+  cameraLibrary: {
+    read: () => ipcRenderer.invoke('cameraLibrary:read'),
+    write: (json) => ipcRenderer.invoke('cameraLibrary:write', json)
+  }
+})
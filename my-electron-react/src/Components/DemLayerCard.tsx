@@ -0,0 +1,81 @@
+// ============================================================================
+// FILE: src/Components/DemLayerCard.tsx
+// PURPOSE: Card that renders the loaded DEM as a hillshade / elevation layer
+//          and hands it to a map (MapPane, MapOverlay or SceneOverlay).
+// ============================================================================
+import React, { useState } from "react";
+import { DemMosaic } from "../utils/demMosaic";
+import { DemLayer, DemRenderMode, DEM_RENDER_MODES, renderDemLayer, rampGradient } from "../utils/demRender";
+
+export default function DemLayerCard({
+                                         mosaic,
+                                         rows,
+                                         setDemLayer,
+                                         setDemOpacity,
+                                     }: {
+    mosaic: DemMosaic | null;
+    rows: "mercator" | "degrees";
+    setDemLayer: (layer: DemLayer | null, opacity?: number) => void;
+    setDemOpacity: (opacity: number) => void;
+}) {
+    const [mode, setMode] = useState<DemRenderMode>("hillshade");
+    const [opacity, setOpacity] = useState(0.6);
+    const [layer, setLayer] = useState<DemLayer | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [err, setErr] = useState<string | null>(null);
+
+    async function show() {
+        if (!mosaic) return;
+        setBusy(true);
+        setErr(null);
+        try {
+            const l = await renderDemLayer(mosaic, { mode, rows });
+            setLayer(l);
+            setDemLayer(l, opacity);
+        } catch (e: any) {
+            console.error(e);
+            setErr(`DEM render failed: ${e?.message ?? e}`);
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    function hide() {
+        setLayer(null);
+        setDemLayer(null);
+    }
+
+    return (
+        <div className="card">
+            <h2>⛰ DEM layer</h2>
+            <div className="dem-row">
+                Style
+                <select value={mode} onChange={e => setMode(e.target.value as DemRenderMode)}>
+                    {DEM_RENDER_MODES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                </select>
+            </div>
+            <div className="dem-row">
+                Opacity
+                <input
+                    type="range" min={0} max={1} step={0.05} value={opacity}
+                    onChange={e => { const v = Number(e.target.value); setOpacity(v); setDemOpacity(v); }}
+                />
+                {Math.round(opacity * 100)}%
+            </div>
+            {layer && layer.mode !== "hillshade" && Number.isFinite(layer.min) && (
+                <>
+                    <div className="dem-legend" style={{ background: rampGradient() }} />
+                    <div className="dem-legend-labels">
+                        <span>{layer.min.toFixed(0)} m</span>
+                        <span>{layer.max.toFixed(0)} m</span>
+                    </div>
+                </>
+            )}
+            {err && <pre className="status">{err}</pre>}
+            <button className="primary" disabled={!mosaic || busy} onClick={show}>
+                {busy ? "Rendering…" : layer ? "Re-render DEM layer" : "Show DEM layer"}
+            </button>{" "}
+            <button className="primary" disabled={!layer} onClick={hide}>Hide</button>
+        </div>
+    );
+}
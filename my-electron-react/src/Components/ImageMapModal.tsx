@@ -1,27 +1,33 @@
 // ============================================================================
 // FILE: src/components/ImageMapModal.tsx
-// PURPOSE: Show GPS position and optional image footprint on Leaflet map
+// PURPOSE: Show GPS position and optional image footprint on Leaflet map, with
+//          the ground height there and the DEM coverage when a DEM is loaded
 // ============================================================================
 
 import React, { useEffect, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import { projectPixelToGround } from "../utils/projection";
+import { Dem } from "../utils/demService";
+import { computeFootprint } from "../utils/computeFootprint";
+import { CameraPose, Intrinsics, RotationConvention } from "../utils/projection";
 
 type GPS = { lat: number; lon: number };
-type Meta = { width: number; height: number } & Record<string, unknown>;
 
 type Props = {
     open: boolean;
     onClose: () => void;
     gps: GPS | null;
-    meta: Meta | null;      // pass your DEM/meta object; width/height required if footprint used
+    dem: Dem | null;
+    pose?: CameraPose | null;   // with intr, draws the footprint on the DEM
+    intr?: Intrinsics | null;
+    convention?: RotationConvention;
     image: string | null;   // not required for map, only if you plan overlay
 };
 
-export default function ImageMapModal({ open, onClose, gps, meta, image }: Props) {
+export default function ImageMapModal({ open, onClose, gps, dem, pose, intr, convention }: Props) {
     const mapHostRef = useRef<HTMLDivElement | null>(null);
     const mapRef = useRef<L.Map | null>(null);
+    const markerRef = useRef<L.Marker | null>(null);
 
     // ESM-safe icon URLs (Vite/Electron)
     const iconUrl = new URL("leaflet/dist/images/marker-icon.png", import.meta.url).toString();
@@ -48,7 +54,7 @@ export default function ImageMapModal({ open, onClose, gps, meta, image }: Props
                 maxZoom: 21,
             }).addTo(mapRef.current);
 
-            L.marker([gps.lat, gps.lon]).addTo(mapRef.current);
+            markerRef.current = L.marker([gps.lat, gps.lon]).addTo(mapRef.current);
 
             // why: container becomes visible after mount
             setTimeout(() => mapRef.current && mapRef.current.invalidateSize(), 0);
@@ -57,38 +63,36 @@ export default function ImageMapModal({ open, onClose, gps, meta, image }: Props
             mapRef.current.setView([gps.lat, gps.lon], 17);
         }
 
-        // Optional footprint if meta exists
-        if (meta?.width && meta?.height) {
-            try {
-                const w = Number(meta.width);
-                const h = Number(meta.height);
-
-                const pts = [
-                    projectPixelToGround(0, 0, meta, gps),
-                    projectPixelToGround(w, 0, meta, gps),
-                    projectPixelToGround(w, h, meta, gps),
-                    projectPixelToGround(0, h, meta, gps),
-                ].filter(Boolean) as GPS[];
-
-                if (pts.length === 4 && mapRef.current) {
-                    const poly = L.polygon(
-                        pts.map((p) => [p.lat, p.lon]) as [number, number][],
-                        { weight: 2 } // why: rely on default color to avoid CSS/TS issues
-                    ).addTo(mapRef.current);
+        // DEM coverage and the ground height under the GPS fix
+        if (dem && mapRef.current) {
+            const { west, east, south, north } = dem.bounds;
+            L.rectangle([[south, west], [north, east]], { weight: 1, fill: false }).addTo(mapRef.current);
+            Promise.resolve(dem.sample(gps.lat, gps.lon))
+                .then(z => markerRef.current?.bindPopup(
+                    z === null ? "Outside the DEM (or a void)" : `Ground ${z.toFixed(1)} m AMSL`
+                ))
+                .catch(e => console.warn("DEM sample failed:", e));
+        }
+
+        // Optional footprint if the camera is known
+        if (dem && pose && intr) {
+            computeFootprint(pose, intr, dem, convention)
+                .then(pts => {
+                    if (pts.length !== 4 || !mapRef.current) return;
+                    const poly = L.polygon(pts, { weight: 2 }).addTo(mapRef.current); // why: rely on default color to avoid CSS/TS issues
                     mapRef.current.fitBounds(poly.getBounds());
-                }
-            } catch (e) {
-                console.warn("Footprint projection failed:", e);
-            }
+                })
+                .catch(e => console.warn("Footprint projection failed:", e));
         }
 
         return () => {
             if (mapRef.current) {
                 mapRef.current.remove();
                 mapRef.current = null;
+                markerRef.current = null;
             }
         };
-    }, [open, gps, meta]);
+    }, [open, gps, dem, pose, intr, convention]);
 
     if (!open) return null;
 
@@ -101,123 +105,3 @@ export default function ImageMapModal({ open, onClose, gps, meta, image }: Props
         </div>
     );
 }
-
-// ============================================================================
-// FILE: src/pages/ImageToMapOffline.tsx
-// PURPOSE: Wire the modal, ensure GPS present, pass DEM/meta
-// ============================================================================
-import React, { useRef, useState } from "react";
-import { fromArrayBuffer } from "geotiff";
-import * as exifr from "exifr";
-import ImageMapModal from "../components/ImageMapModal";
-import "./ImageToMapOffline.scss";
-
-type DEMInfo = {
-    width: number;
-    height: number;
-    originX: number;
-    originY: number;
-    resX: number;
-    resY: number;
-    summary: string;
-} | null;
-
-export default function ImageToMapOffline() {
-    const [imageUrl, setImageUrl] = useState<string | null>(null);
-    const [lat, setLat] = useState<number | null>(null);
-    const [lon, setLon] = useState<number | null>(null);
-    const [dem, setDem] = useState<DEMInfo>(null);
-    const [out, setOut] = useState("Load image and DEM...");
-    const [mapOpen, setMapOpen] = useState(false);
-    const demFileRef = useRef<File | null>(null);
-
-    async function onLoadImage(e: React.ChangeEvent<HTMLInputElement>) {
-        const file = e.target.files?.[0];
-        if (!file) return;
-        setImageUrl(URL.createObjectURL(file));
-        try {
-            const meta = await exifr.parse(file);
-            if (typeof meta?.GPSLatitude === "number") setLat(meta.GPSLatitude);
-            if (typeof meta?.GPSLongitude === "number") setLon(meta.GPSLongitude);
-            setOut(`Image loaded.\nGPS: lat=${meta?.GPSLatitude ?? "?"}, lon=${meta?.GPSLongitude ?? "?"}`);
-        } catch {
-            setOut("Image loaded, but EXIF failed.");
-        }
-    }
-
-    async function onLoadDEM(e: React.ChangeEvent<HTMLInputElement>) {
-        const file = e.target.files?.[0];
-        if (!file) return;
-        demFileRef.current = file;
-        try {
-            const buf = await file.arrayBuffer();
-            const tiff = await fromArrayBuffer(buf);
-            const img = await tiff.getImage();
-            const width = img.getWidth();
-            const height = img.getHeight();
-            const tie = img.getTiePoints();
-            const scale = (img.getFileDirectory() as any).ModelPixelScale;
-            if (!tie || !scale) throw new Error("DEM missing tiepoints or scale");
-            const originX = tie[0].x;
-            const originY = tie[0].y;
-            const resX = scale[0];
-            const resY = -Math.abs(scale[1]);
-            const summary =
-                `DEM loaded: ${file.name}\nsize = ${width} x ${height}\norigin(lon,lat) = (${originX}, ${originY})\nres = (${resX}, ${resY})`;
-            setDem({ width, height, originX, originY, resX, resY, summary });
-            setOut(summary);
-        } catch (err: any) {
-            setOut(`DEM load FAILED: ${err.message}`);
-            setDem(null);
-        }
-    }
-
-    const gps = lat != null && lon != null ? { lat, lon } : null;
-
-    return (
-        <div className="itm-root">
-            <h2>Offline Image → DEM Loader</h2>
-
-            <div className="layout">
-                <div className="left">
-                    <h3>📸 Upload Image</h3>
-                    <input type="file" accept="image/*" onChange={onLoadImage} />
-                    <h3 style={{ marginTop: 25 }}>🌍 Upload DEM (.tif)</h3>
-                    <input type="file" accept=".tif,.tiff" onChange={onLoadDEM} />
-                    <div className="image-preview-container">
-                        {imageUrl ? <img className="image-preview" src={imageUrl} /> : <div className="im-placeholder">No image selected</div>}
-                    </div>
-                </div>
-
-                <div className="right">
-                    <h3>Status:</h3>
-                    <pre className="statusBox">{out}</pre>
-
-                    {dem && (
-                        <div className="demBox">
-                            <h3>DEM Data</h3>
-                            <pre>{dem.summary}</pre>
-                        </div>
-                    )}
-
-                    <button
-                        className="locateBtn"
-                        disabled={!gps}
-                        onClick={() => setMapOpen(true)}
-                        title={!gps ? "Load an image with GPS EXIF" : "Open map"}
-                    >
-                        📍 Locate on Map
-                    </button>
-                </div>
-            </div>
-
-            <ImageMapModal
-                open={mapOpen}
-                onClose={() => setMapOpen(false)}
-                gps={gps}
-                meta={dem}        // contains width/height; projection function can read others as needed
-                image={imageUrl}
-            />
-        </div>
-    );
-}
\ No newline at end of file
@@ -2,7 +2,8 @@
     import L from "leaflet";
     import "leaflet/dist/leaflet.css";
     import { computeFootprint } from "../utils/computeFootprint";
-    import { CameraPose, DEM, Intrinsics } from "../utils/projection";
+    import { CameraPose, Intrinsics, RotationConvention } from "../utils/projection";
+    import { Dem } from "../utils/demService";
 
     type Props = {
         open: boolean;
@@ -10,11 +11,12 @@
         img: string;
         cam: CameraPose;
         intr: Intrinsics;
-        dem: DEM;
+        dem: Dem;
+        convention?: RotationConvention;
     };
 
     export default function ImageProjector({
-                                               open, onClose, img, cam, intr, dem
+                                               open, onClose, img, cam, intr, dem, convention
                                            }: Props) {
 
         const mapRef = useRef<HTMLDivElement>(null);
@@ -32,9 +34,18 @@
                     maxZoom: 19
                 }).addTo(map);
 
-                const fp = await computeFootprint(cam, intr, dem);
-
-                L.imageOverlay(img, fp as any, { opacity: 0.7 }).addTo(map);
+                const fp = await computeFootprint(cam, intr, dem, convention);
+
+                // a corner ray that misses the ground leaves no box to stretch the photo over
+                if (fp.length < 4) {
+                    L.popup()
+                        .setLatLng([cam.lat, cam.lon])
+                        .setContent(`Footprint incomplete: ${4 - fp.length} of 4 corner rays miss the ground.`)
+                        .openOn(map);
+                    return;
+                }
+                const bounds: L.LatLngBoundsExpression = L.latLngBounds(fp);
+                L.imageOverlay(img, bounds, { opacity: 0.7 }).addTo(map);
             }
 
             run();
@@ -3,10 +3,12 @@
 // FILE: src/pages/ImageToMap.tsx
 // PURPOSE: Left upload panel + right always-on map (Mission Planner style)
 // ============================================================================
-import React, { useRef, useState } from "react";
-import { fromArrayBuffer } from "geotiff";
-import * as exifr from "exifr";
-import MapPane, { MapPaneHandle, DEMInfo } from "../components/MapPane";
+import React, { useEffect, useRef, useState } from "react";
+import MapPane, { MapPaneHandle } from "../components/MapPane";
+import { DemMosaic } from "../utils/demMosaic";
+import { loadSharedDemFiles, describeLoad, openDem, sharedDem, onSharedDemChange, sharedSampling } from "../utils/demService";
+import DemLayerCard from "./DemLayerCard";
+import { readPhotoMetadata, describeMetadata } from "../utils/metadata";
 import "./ImageToMap.scss";
 
 export default function ImageToMap() {
@@ -14,9 +16,11 @@ export default function ImageToMap() {
 
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [gps, setGps] = useState<{ lat: number; lon: number } | null>(null);
-    const [dem, setDem] = useState<DEMInfo | null>(null);
+    const [mosaic, setMosaic] = useState<DemMosaic | null>(sharedDem);
     const [status, setStatus] = useState("Load image and DEM...");
 
+    useEffect(() => onSharedDemChange(setMosaic), []);
+
     // Image loader (EXIF)
     async function onLoadImage(e: React.ChangeEvent<HTMLInputElement>) {
         const file = e.target.files?.[0];
@@ -25,60 +29,23 @@ export default function ImageToMap() {
         const url = URL.createObjectURL(file);
         setImageUrl(url);
 
-        try {
-            const meta = await exifr.parse(file);
-            const lat = typeof meta?.GPSLatitude === "number" ? meta.GPSLatitude : null;
-            const lon = typeof meta?.GPSLongitude === "number" ? meta.GPSLongitude : null;
-
-            if (lat != null && lon != null) {
-                setGps({ lat, lon });
-                setStatus(`Image loaded.\nGPS: lat=${lat}, lon=${lon}`);
-            } else {
-                setGps(null);
-                setStatus("Image loaded. No GPS in EXIF.");
-            }
-        } catch (err) {
-            console.error(err);
+        const md = await readPhotoMetadata(file);
+        const { lat, lon } = md.pose;
+        if (lat !== undefined && lon !== undefined) {
+            setGps({ lat, lon });
+            setStatus(`Image loaded.\n${describeMetadata(md)}`);
+        } else {
             setGps(null);
-            setStatus("Image loaded, but EXIF read failed.");
+            setStatus(`Image loaded. No GPS in the metadata.\n${describeMetadata(md)}`);
         }
     }
 
-    // DEM loader (GeoTIFF, tiepoint + scale)
+    // DEM loader (GeoTIFF, .hgt, .asc or XYZ); the DEM is shared with the other pages
     async function onLoadDEM(e: React.ChangeEvent<HTMLInputElement>) {
-        const file = e.target.files?.[0];
-        if (!file) return;
-
-        try {
-            const buf = await file.arrayBuffer();
-            const tiff = await fromArrayBuffer(buf);
-            const img = await tiff.getImage();
-
-            const width = img.getWidth();
-            const height = img.getHeight();
-            const tie = img.getTiePoints();
-            const scale = (img.getFileDirectory() as any).ModelPixelScale;
-
-            if (!tie || !scale) throw new Error("DEM missing tiepoints or pixel scale");
-
-            const originX = tie[0].x;
-            const originY = tie[0].y;
-            const resX = Number(scale[0]);
-            const resY = -Math.abs(Number(scale[1])); // top-left origin
-
-            setDem({ width, height, originX, originY, resX, resY });
-
-            setStatus(
-                `DEM loaded: ${file.name}\n` +
-                `size = ${width} x ${height}\n` +
-                `origin(lon,lat) = (${originX}, ${originY})\n` +
-                `res = (${resX}, ${resY})`
-            );
-        } catch (err: any) {
-            console.error(err);
-            setDem(null);
-            setStatus(`DEM load FAILED: ${err.message ?? err}`);
-        }
+        const files = Array.from(e.target.files ?? []);
+        if (!files.length) return;
+        const res = await loadSharedDemFiles(files);
+        setStatus(describeLoad(res));
     }
 
     // Action: center + overlay
@@ -87,8 +54,9 @@ export default function ImageToMap() {
         mapRef.current.clearOverlays();
         mapRef.current.setMarker(gps);
         mapRef.current.flyTo(gps, 18);
-        if (imageUrl && dem) {
-            mapRef.current.setImageOverlay(imageUrl, dem);
+        if (imageUrl && mosaic) {
+            const { sampling, secondary } = sharedSampling();
+            mapRef.current.setImageOverlay(imageUrl, openDem(mosaic, undefined, sampling, secondary).bounds);
         }
     }
 
@@ -111,12 +79,12 @@ export default function ImageToMap() {
                 </div>
 
                 <div className="card">
-                    <h2>🌍 Upload DEM (.tif)</h2>
+                    <h2>🌍 Upload DEM</h2>
                     <label className="upload">
-                        <input type="file" accept=".tif,.tiff" onChange={onLoadDEM} />
+                        <input type="file" multiple accept=".tif,.tiff,.hgt,.asc,.xyz,.txt,.csv,.prj" onChange={onLoadDEM} />
                         <div className="upload-ui">
-                            <div className="title">Choose GeoTIFF</div>
-                            <div className="hint">ModelTiepoint + ModelPixelScale</div>
+                            <div className="title">Choose DEM tiles</div>
+                            <div className="hint">GeoTIFF, SRTM .hgt, ESRI .asc (+ .prj) or XYZ</div>
                         </div>
                     </label>
                 </div>
@@ -133,6 +101,13 @@ export default function ImageToMap() {
                         📍 Locate on Map
                     </button>
                 </div>
+
+                <DemLayerCard
+                    mosaic={mosaic}
+                    rows="mercator"
+                    setDemLayer={(layer, opacity) => mapRef.current?.setDemLayer(layer, opacity)}
+                    setDemOpacity={o => mapRef.current?.setDemOpacity(o)}
+                />
             </div>
 
             {/* RIGHT: live map */}
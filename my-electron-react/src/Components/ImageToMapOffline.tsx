@@ -9,6 +9,7 @@
 
 import React, { useEffect, useLayoutEffect, useRef, useState } from "react";
 import * as exifr from "exifr";
+import { PhotoMetadata, readPhotoMetadata, describeMetadata } from "../utils/metadata";
 
 import Map from "@arcgis/core/Map";
 import MapView from "@arcgis/core/views/MapView";
@@ -33,75 +34,9 @@ const gmUrl  = (lat:number,lon:number)=>`https://www.google.com/maps?q=${lat.toF
 const kmlCoord = (lon:number,lat:number,alt=0)=>`${lon.toFixed(7)},${lat.toFixed(7)},${alt.toFixed(0)}`;
 
 function metersPerDegree(lat:number){ const mLat=111_320; const mLon=111_320*Math.cos((lat*Math.PI)/180); return {mPerDegLat:mLat,mPerDegLon:mLon}; }
-function dmsToDec(v:any){ if(typeof v==="number")return v; if(!v)return null; const m=String(v).match(/(\d+(?:\.\d+)?)\D+(\d+(?:\.\d+)?)\D+(\d+(?:\.\d+)?)\D*([NSEW])?/i); if(!m)return null; const D=+m[1],M=+m[2],S=+m[3]; let out=D+M/60+S/3600; const h=(m[4]||"").toUpperCase(); if(h==="S"||h==="W") out*=-1; return out; }
 function throttle<T extends any[]>(fn:(...a:T)=>void, ms:number){ let t=0,last=0; let latest:T|null=null; const fire=(args:T)=>{ last=Date.now(); t=0; fn(...args); }; return (...args:T)=>{ latest=args; const now=Date.now(); const rem=ms-(now-last); if(rem<=0){ fire(latest!);} else if(!t){ t=window.setTimeout(()=>fire(latest!),rem) as any;} }; }
 function loadHtmlImage(src:string){ return new Promise<HTMLImageElement>((resolve,reject)=>{ const img=new Image(); img.crossOrigin="anonymous"; img.referrerPolicy="no-referrer"; img.decoding="async"; img.onload=()=>resolve(img); img.onerror=(e)=>reject(e); img.src=src; }); }
 
-// ---------- EXIF ----------
-function plausibleMM(v:any){ return Number.isFinite(v)&&v>0.1&&v<100; }
-function aspectWH(wPx:number,hPx:number){ return wPx>0&&hPx>0 ? wPx/hPx : 1; }
-function pxPerMMFromResolution(res:number, unit:number){ if(!Number.isFinite(res)||res<=0) return null; if(unit===2)return res/25.4; if(unit===3)return res/10; if(unit===4)return res/1; if(unit===5)return res/0.001; return null; }
-async function parseExifKinematics(file:File, imgW:number, imgH:number){
-    const gps = await exifr.gps(file).catch(()=>null as any);
-    const meta:any = await exifr.parse(file,{xmp:true,userComment:true}).catch(()=>({}));
-    let lat = gps?.latitude ?? meta?.GPSLatitude ?? null;
-    let lon = gps?.longitude ?? meta?.GPSLongitude ?? null;
-    if (typeof lat==="string") lat=dmsToDec(lat);
-    if (typeof lon==="string") lon=dmsToDec(lon);
-
-    const altitudeMSL =
-        (Number.isFinite(+meta?.AbsoluteAltitude)?+meta.AbsoluteAltitude:null) ??
-        (Number.isFinite(+gps?.altitude)?+gps.altitude:null) ?? null;
-
-    const yawDeg   = Number.isFinite(+meta?.GimbalYawDegree)?+meta.GimbalYawDegree
-        : Number.isFinite(+meta?.DroneYawDegree)?+meta.DroneYawDegree
-            : Number.isFinite(+meta?.FlightYawDegree)?+meta.FlightYawDegree
-                : Number.isFinite(+meta?.GPSImgDirection)?+meta.GPSImgDirection : 0;
-    const pitchDeg = Number.isFinite(+meta?.GimbalPitchDegree)?+meta.GimbalPitchDegree
-        : Number.isFinite(+meta?.CameraPitch)?+meta.CameraPitch
-            : Number.isFinite(+meta?.AircraftPitch)?+meta.AircraftPitch
-                : Number.isFinite(+meta?.Pitch)?+meta.Pitch : 0;
-    const rollDeg  = Number.isFinite(+meta?.GimbalRollDegree)?+meta.GimbalRollDegree
-        : Number.isFinite(+meta?.CameraRoll)?+meta.CameraRoll
-            : Number.isFinite(+meta?.AircraftRoll)?+meta.AircraftRoll
-                : Number.isFinite(+meta?.Roll)?+meta.Roll : 0;
-
-    let focalMM:any = null;
-    if (typeof meta?.FocalLength === "number" && meta.FocalLength>0) focalMM = meta.FocalLength;
-    else if ((meta?.FocalLength)?.valueOf) {
-        const f = Number((meta.FocalLength).valueOf());
-        if (Number.isFinite(f) && f>0) focalMM = f;
-    }
-
-    let sensorWmm:any = Number(meta?.SensorWidth);
-    let sensorHmm:any = Number(meta?.SensorHeight);
-    if (!(plausibleMM(sensorWmm) && plausibleMM(sensorHmm))) { sensorWmm=NaN; sensorHmm=NaN; }
-
-    if (!(plausibleMM(sensorWmm) && plausibleMM(sensorHmm))) {
-        const fpX = Number(meta?.FocalPlaneXResolution ?? meta?.FocalPlaneXResoluton);
-        const fpY = Number(meta?.FocalPlaneYResolution ?? meta?.FocalPlaneYResoluton);
-        const ru  = Number(meta?.ResolutionUnit ?? meta?.FocalPlaneResolutionUnit ?? meta?.FocalPlaneResolutionUnits ?? 2);
-        const ppx = pxPerMMFromResolution(fpX, ru);
-        const ppy = pxPerMMFromResolution(fpY || fpX, ru);
-        if (ppx && ppy) {
-            const w = imgW/ppx!, h = imgH/ppy!;
-            if (plausibleMM(w) && plausibleMM(h)) { sensorWmm=w; sensorHmm=h; }
-        }
-    }
-    const focal35 = Number(meta?.FocalLengthIn35mmFilm ?? meta?.FocalLengthIn35mmFormat);
-    if (!(plausibleMM(sensorWmm) && plausibleMM(sensorHmm)) && Number.isFinite(focal35) && focal35>0 && focalMM && focalMM>0) {
-        const w = 36 * (focalMM / focal35);
-        const h = w / aspectWH(imgW,imgH);
-        if (plausibleMM(w) && plausibleMM(h)) { sensorWmm=w; sensorHmm=h; }
-    }
-    if ((!focalMM || !(focalMM>0)) && plausibleMM(sensorWmm) && Number.isFinite(focal35) && focal35>0) {
-        focalMM = focal35 * (sensorWmm / 36);
-    }
-
-    const sensorMM = (plausibleMM(sensorWmm) && plausibleMM(sensorHmm)) ? { w: sensorWmm, h: sensorHmm } : null;
-    return { lat: lat??null, lon: lon??null, altitudeMSL: altitudeMSL??null, yawDeg, pitchDeg, rollDeg, focalMM:focalMM??null, sensorMM, _raw:meta };
-}
-
 // ---------- WebMercator helpers ----------
 const R = 6378137;
 const lonLatToMerc = (lon:number,lat:number)=>({ x:R*(lon*Math.PI/180), y:R*Math.log(Math.tan(Math.PI/4+(lat*Math.PI/180)/2)) });
@@ -144,7 +79,7 @@ export default function ImageToMapOffline(){
     const [photoEl,setPhotoEl]   = useState<HTMLImageElement|null>(null);
     const [imgW,setImgW] = useState(0);
     const [imgH,setImgH] = useState(0);
-    const [exif,setExif] = useState<any>(null);
+    const [exif,setExif] = useState<PhotoMetadata|null>(null);
     const [respectExifOrientation,setRespectExifOrientation] = useState(false);
 
     const [status,setStatus] = useState("Ready.");
@@ -430,11 +365,10 @@ export default function ImageToMapOffline(){
             }catch{}
         }
         setPhotoURL(finalUrl); setPhotoEl(finalImg); setImgW(W); setImgH(H);
-        try{
-            const k=await parseExifKinematics(file,W,H); setExif(k);
-            if (k.lat!=null && k.lon!=null) pendingCenterRef.current={ lon:+k.lon, lat:+k.lat };
-            log(`Image ready. Add 4+ control-point pairs, then press "Apply 4+ pairs".`);
-        }catch{ log("EXIF parse failed."); }
+        const md=await readPhotoMetadata(file,{ width:W, height:H }); setExif(md);
+        if (md.pose.lat!==undefined && md.pose.lon!==undefined) pendingCenterRef.current={ lon:md.pose.lon, lat:md.pose.lat };
+        log(describeMetadata(md));
+        log(`Image ready. Add 4+ control-point pairs, then press "Apply 4+ pairs".`);
     }
 
     // CP preview click — enlarge first; then accept points
@@ -594,8 +528,8 @@ export default function ImageToMapOffline(){
                                     type="button"
                                     disabled={!canPlace}
                                     onClick={async ()=>{
-                                        if (exif?.lat!=null && exif?.lon!=null){
-                                            pendingCenterRef.current = { lat:Number(exif.lat), lon:Number(exif.lon) };
+                                        if (exif?.pose.lat!==undefined && exif?.pose.lon!==undefined){
+                                            pendingCenterRef.current = { lat:exif.pose.lat, lon:exif.pose.lon };
                                             await safeGoTo({ center:[pendingCenterRef.current.lon, pendingCenterRef.current.lat], zoom:17 });
                                             log("Center set from EXIF GPS. Add 4+ CPs and press Apply to place image.");
                                         } else {
@@ -4,20 +4,28 @@
 import React, { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-
-export type DEMInfo = {
-    width: number; height: number;
-    originX: number; originY: number;
-    resX: number;   resY: number;
-};
+import { DemLayer, GeoImage } from "../utils/demRender";
+import { DemBounds } from "../utils/demService";
 
 export type MapOverlayHandle = {
     flyTo: (lat: number, lon: number, zoom?: number) => void;
     setMarker: (lat: number, lon: number) => void;
-    setImageOverlay: (imageUrl: string, dem: DEMInfo) => void;
+    setImageOverlay: (imageUrl: string, bounds: DemBounds) => void;
     clearOverlays: () => void;
+    // DEM picture under the photo overlay; kept by clearOverlays
+    setDemLayer: (layer: DemLayer | null, opacity?: number) => void;
+    setDemOpacity: (opacity: number) => void;
+    // analysis picture (viewshed) above the DEM layer
+    setViewshedLayer: (layer: GeoImage | null, opacity?: number) => void;
+    setViewshedOpacity: (opacity: number) => void;
+    // sight line A → B, red beyond the first blocking point
+    setSightLine: (a: LatLon | null, b?: LatLon, blockedAt?: LatLon) => void;
+    // frame self-check: camera, rays to the projected centre/corners, corner footprint
+    setFrameCheck: (camera: LatLon | null, points?: (LatLon & { label: string })[]) => void;
 };
 
+type LatLon = { lat: number; lon: number };
+
 type Props = { className?: string };
 
 const MapOverlay = forwardRef<MapOverlayHandle, Props>(function MapOverlay({ className }, ref) {
@@ -25,6 +33,10 @@ const MapOverlay = forwardRef<MapOverlayHandle, Props>(function MapOverlay({ cla
     const mapRef = useRef<L.Map | null>(null);
     const markerRef = useRef<L.Marker | null>(null);
     const overlayRef = useRef<L.ImageOverlay | null>(null);
+    const demLayerRef = useRef<L.ImageOverlay | null>(null);
+    const viewshedRef = useRef<L.ImageOverlay | null>(null);
+    const sightRef = useRef<L.LayerGroup | null>(null);
+    const frameRef = useRef<L.LayerGroup | null>(null);
 
     useEffect(() => {
         // fix marker icons (Vite/Electron)
@@ -77,16 +89,10 @@ const MapOverlay = forwardRef<MapOverlayHandle, Props>(function MapOverlay({ cla
             if (markerRef.current) markerRef.current.setLatLng([lat, lon]);
             else markerRef.current = L.marker([lat, lon]).addTo(mapRef.current);
         },
-        setImageOverlay: (imageUrl, dem) => {
+        setImageOverlay: (imageUrl, box) => {
             if (!mapRef.current) return;
 
-            const lonL = dem.originX, latT = dem.originY;
-            const lonR = dem.originX + dem.width * dem.resX;
-            const latB = dem.originY + dem.height * dem.resY;
-
-            const sw: [number, number] = [Math.min(latT, latB), Math.min(lonL, lonR)];
-            const ne: [number, number] = [Math.max(latT, latB), Math.max(lonL, lonR)];
-            const bounds = L.latLngBounds(sw, ne);
+            const bounds = L.latLngBounds([box.south, box.west], [box.north, box.east]);
 
             overlayRef.current?.remove();
             overlayRef.current = L.imageOverlay(imageUrl, bounds, { opacity: 0.85 }).addTo(mapRef.current);
@@ -96,6 +102,61 @@ const MapOverlay = forwardRef<MapOverlayHandle, Props>(function MapOverlay({ cla
             overlayRef.current?.remove();
             overlayRef.current = null;
         },
+        setDemLayer: (layer, opacity = 0.6) => {
+            demLayerRef.current?.remove();
+            demLayerRef.current = null;
+            if (!mapRef.current || !layer) return;
+            const bounds = L.latLngBounds([layer.south, layer.west], [layer.north, layer.east]);
+            demLayerRef.current = L.imageOverlay(layer.url, bounds, { opacity, interactive: false })
+                .addTo(mapRef.current)
+                .bringToBack();
+        },
+        setDemOpacity: (opacity) => demLayerRef.current?.setOpacity(opacity),
+        setViewshedLayer: (layer, opacity = 0.7) => {
+            viewshedRef.current?.remove();
+            viewshedRef.current = null;
+            if (!mapRef.current || !layer) return;
+            const bounds = L.latLngBounds([layer.south, layer.west], [layer.north, layer.east]);
+            viewshedRef.current = L.imageOverlay(layer.url, bounds, { opacity, interactive: false }).addTo(mapRef.current);
+            demLayerRef.current?.bringToBack();
+            mapRef.current.fitBounds(bounds);
+        },
+        setViewshedOpacity: (opacity) => viewshedRef.current?.setOpacity(opacity),
+        setSightLine: (a, b, blockedAt) => {
+            sightRef.current?.remove();
+            sightRef.current = null;
+            if (!mapRef.current || !a || !b) return;
+            const g = L.layerGroup();
+            if (blockedAt) {
+                L.polyline([[a.lat, a.lon], [blockedAt.lat, blockedAt.lon]], { color: "#22c55e", weight: 3 }).addTo(g);
+                L.polyline([[blockedAt.lat, blockedAt.lon], [b.lat, b.lon]], { color: "#ef4444", weight: 3, dashArray: "6 4" }).addTo(g);
+                L.circleMarker([blockedAt.lat, blockedAt.lon], { radius: 6, color: "#ef4444" }).addTo(g);
+            } else {
+                L.polyline([[a.lat, a.lon], [b.lat, b.lon]], { color: "#22c55e", weight: 3 }).addTo(g);
+            }
+            L.circleMarker([b.lat, b.lon], { radius: 5, color: "#0a7cff" }).addTo(g);
+            sightRef.current = g.addTo(mapRef.current);
+        },
+        setFrameCheck: (camera, points = []) => {
+            frameRef.current?.remove();
+            frameRef.current = null;
+            if (!mapRef.current || !camera) return;
+            const g = L.layerGroup();
+            const corners = points.filter(p => p.label !== "C");
+            if (corners.length === 4) {
+                L.polygon(corners.map(p => [p.lat, p.lon] as L.LatLngTuple), { color: "#38bdf8", weight: 1.5, fillOpacity: 0.15 }).addTo(g);
+            }
+            for (const p of points) {
+                L.polyline([[camera.lat, camera.lon], [p.lat, p.lon]], { color: "#888", weight: 1, dashArray: "3 3" }).addTo(g);
+                L.circleMarker([p.lat, p.lon], { radius: 4, color: p.label === "C" ? "#facc15" : "#38bdf8" })
+                    .bindTooltip(p.label, { permanent: true, direction: "right" })
+                    .addTo(g);
+            }
+            L.circleMarker([camera.lat, camera.lon], { radius: 5, color: "#f43f5e" }).bindTooltip("camera").addTo(g);
+            frameRef.current = g.addTo(mapRef.current);
+            const bounds = L.latLngBounds([[camera.lat, camera.lon], ...points.map(p => [p.lat, p.lon] as L.LatLngTuple)]);
+            mapRef.current.fitBounds(bounds, { padding: [20, 20], maxZoom: 18 });
+        },
     }));
 
     return <div ref={hostRef} className={className ?? "mp-map"} />;
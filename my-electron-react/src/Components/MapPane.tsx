@@ -5,22 +5,19 @@
 import React, { useEffect, useImperativeHandle, useRef, forwardRef } from "react";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
+import { DemLayer } from "../utils/demRender";
+import { DemBounds } from "../utils/demService";
 
 export type LatLon = { lat: number; lon: number };
-export type DEMInfo = {
-    width: number;
-    height: number;
-    originX: number; // lon of top-left (tiepoint)
-    originY: number; // lat of top-left (tiepoint)
-    resX: number;    // degrees lon per pixel
-    resY: number;    // degrees lat per pixel (usually negative)
-};
 
 export type MapPaneHandle = {
     flyTo: (p: LatLon, zoom?: number) => void;
     setMarker: (p: LatLon) => void;
-    setImageOverlay: (imgUrl: string, dem: DEMInfo) => void;
+    setImageOverlay: (imgUrl: string, bounds: DemBounds) => void;
     clearOverlays: () => void;
+    // DEM picture under the photo overlay; kept by clearOverlays
+    setDemLayer: (layer: DemLayer | null, opacity?: number) => void;
+    setDemOpacity: (opacity: number) => void;
 };
 
 const MapPane = forwardRef<MapPaneHandle, { className?: string }>(function MapPane(
@@ -31,6 +28,7 @@ const MapPane = forwardRef<MapPaneHandle, { className?: string }>(function MapPa
     const mapRef = useRef<L.Map | null>(null);
     const markerRef = useRef<L.Marker | null>(null);
     const overlayRef = useRef<L.ImageOverlay | null>(null);
+    const demLayerRef = useRef<L.ImageOverlay | null>(null);
 
     // Fix Leaflet icon asset URLs under Vite/Electron
     useEffect(() => {
@@ -65,24 +63,10 @@ const MapPane = forwardRef<MapPaneHandle, { className?: string }>(function MapPa
                 markerRef.current = L.marker([p.lat, p.lon]).addTo(mapRef.current);
             }
         },
-        setImageOverlay: (imgUrl, dem) => {
+        setImageOverlay: (imgUrl, box) => {
             if (!mapRef.current) return;
 
-            // Compute axis-aligned geographic bounds from DEM
-            const lonLeft = dem.originX;
-            const latTop = dem.originY;
-            const lonRight = dem.originX + dem.width * dem.resX;
-            const latBottom = dem.originY + dem.height * dem.resY;
-
-            const sw: [number, number] = [
-                Math.min(latTop, latBottom),
-                Math.min(lonLeft, lonRight),
-            ];
-            const ne: [number, number] = [
-                Math.max(latTop, latBottom),
-                Math.max(lonLeft, lonRight),
-            ];
-            const bounds = L.latLngBounds(sw, ne);
+            const bounds = L.latLngBounds([box.south, box.west], [box.north, box.east]);
 
             if (overlayRef.current) {
                 overlayRef.current.remove();
@@ -97,6 +81,20 @@ const MapPane = forwardRef<MapPaneHandle, { className?: string }>(function MapPa
                 overlayRef.current = null;
             }
         },
+        setDemLayer: (layer, opacity = 0.6) => {
+            if (demLayerRef.current) {
+                demLayerRef.current.remove();
+                demLayerRef.current = null;
+            }
+            if (!mapRef.current || !layer) return;
+            const bounds = L.latLngBounds([layer.south, layer.west], [layer.north, layer.east]);
+            demLayerRef.current = L.imageOverlay(layer.url, bounds, { opacity, interactive: false })
+                .addTo(mapRef.current)
+                .bringToBack();
+        },
+        setDemOpacity: (opacity) => {
+            demLayerRef.current?.setOpacity(opacity);
+        },
     }));
 
     return <div ref={hostRef} className={className ?? "leaflet-pane-full"} />;
@@ -0,0 +1,164 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/CalibrationBlock.tsx
+// ============================================================================
+import React, { useState } from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { loadOpenCV } from "../../utils/opencv";
+import {
+    BoardSpec, CalibrationPreset, FrameResult,
+    calibrateFromImages, loadCalibrationPresets, saveCalibrationPreset, deleteCalibrationPreset,
+} from "../../utils/calibration";
+
+const DICTIONARIES = ["DICT_4X4_50", "DICT_5X5_100", "DICT_6X6_250", "DICT_ARUCO_ORIGINAL"];
+
+export default function CalibrationBlock({
+                                             enableOpenCV, opencvUrl, imgW, imgH, applyPreset, setOut,
+                                         }: {
+    enableOpenCV: boolean;
+    opencvUrl: string;
+    imgW: number;
+    imgH: number;
+    applyPreset: (p: CalibrationPreset, w: number, h: number) => void;
+    setOut: (fn: (prev: string) => string) => void;
+}) {
+    const [files, setFiles] = useState<File[]>([]);
+    const [kind, setKind] = useState<BoardSpec["kind"]>("checkerboard");
+    const [cols, setCols] = useState(9);
+    const [rows, setRows] = useState(6);
+    const [square, setSquare] = useState(25);
+    const [marker, setMarker] = useState(18);
+    const [dictionary, setDictionary] = useState("DICT_5X5_100");
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState("");
+    const [frames, setFrames] = useState<FrameResult[]>([]);
+    const [result, setResult] = useState<Omit<CalibrationPreset, "name"> | null>(null);
+    const [name, setName] = useState("");
+    const [presets, setPresets] = useState<CalibrationPreset[]>(() => loadCalibrationPresets());
+    const [selected, setSelected] = useState("");
+
+    if (!enableOpenCV) return null;
+
+    async function run() {
+        setRunning(true); setFrames([]); setResult(null);
+        try {
+            setProgress("Loading OpenCV.js…");
+            const cv = await loadOpenCV(opencvUrl);
+            const board: BoardSpec = kind === "checkerboard"
+                ? { kind, cols, rows, square }
+                : { kind, cols, rows, square, marker, dictionary };
+            const res = await calibrateFromImages(cv, files, board, (done, total, fr) => {
+                setProgress(`Detecting corners ${done}/${total}…`);
+                setFrames(prev => [...prev, fr]);
+            });
+            setFrames(res.frames);
+            setResult(res.preset);
+            setProgress(`Done: RMS ${res.preset.rms?.toFixed(3)} px from ${res.preset.frames} photo(s).`);
+            setOut(prev => prev + `\nCalibration: ${res.preset.W}x${res.preset.H} fx=${res.preset.fx.toFixed(1)} fy=${res.preset.fy.toFixed(1)} cx=${res.preset.cx.toFixed(1)} cy=${res.preset.cy.toFixed(1)} RMS=${res.preset.rms?.toFixed(3)} px`);
+        } catch (err: any) {
+            setProgress(`Calibration failed: ${err?.message || String(err)}`);
+        } finally { setRunning(false); }
+    }
+
+    function save() {
+        if (!result || !name.trim()) return;
+        setPresets(saveCalibrationPreset({ ...result, name: name.trim() }));
+        setSelected(name.trim());
+        setOut(prev => prev + `\nSaved calibration preset "${name.trim()}".`);
+    }
+
+    const current = presets.find(p => p.name === selected);
+    const num = (label: string, value: number, set: (v: number) => void, step = 1) => (
+        <label className={s.lbl}>
+            {label}
+            <input type="number" step={step} value={value} className={s.input}
+                   onChange={e => set(parseFloat(e.target.value) || 0)} />
+        </label>
+    );
+
+    return (
+        <>
+            <h3 className={s.h3}>Lens calibration (OpenCV)</h3>
+            <div className={s.grid2}>
+                <label className={s.lbl}>
+                    Board
+                    <select className={s.input} value={kind} onChange={e => setKind(e.target.value as BoardSpec["kind"])}>
+                        <option value="checkerboard">Checkerboard</option>
+                        <option value="charuco">ChArUco</option>
+                    </select>
+                </label>
+                <label className={s.lbl}>
+                    Photos ({files.length})
+                    <input type="file" accept="image/*" multiple className={s.input}
+                           onChange={e => setFiles(Array.from(e.target.files ?? []))} />
+                </label>
+                {num(kind === "checkerboard" ? "Inner corners X" : "Squares X", cols, setCols)}
+                {num(kind === "checkerboard" ? "Inner corners Y" : "Squares Y", rows, setRows)}
+                {num("Square size (mm)", square, setSquare, 0.1)}
+                {kind === "charuco" && num("Marker size (mm)", marker, setMarker, 0.1)}
+                {kind === "charuco" && (
+                    <label className={s.lbl}>
+                        Dictionary
+                        <select className={s.input} value={dictionary} onChange={e => setDictionary(e.target.value)}>
+                            {DICTIONARIES.map(d => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                    </label>
+                )}
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={running || files.length < 3} onClick={run}>
+                    {running ? "Calibrating…" : "Run calibration"}
+                </button>
+            </div>
+            {progress && <div className={s.monoDim}>{progress}</div>}
+
+            {frames.length > 0 && (
+                <div className={s.pointsTableWrap}>
+                    <table className={s.tbl}>
+                        <thead><tr><th>Photo</th><th>Corners</th><th>Err px</th></tr></thead>
+                        <tbody>
+                        {frames.map((f, i) => (
+                            <tr key={i}>
+                                <td>{f.name}</td>
+                                <td>{f.found ? f.corners : `✕ ${f.reason ?? ""}`}</td>
+                                <td>{f.error === undefined ? "—" : f.error.toFixed(3)}</td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+
+            {result && (
+                <>
+                    <div className={s.monoSmall}>
+                        {result.W}x{result.H} fx={result.fx.toFixed(2)} fy={result.fy.toFixed(2)} cx={result.cx.toFixed(2)} cy={result.cy.toFixed(2)}<br />
+                        k1={result.k1.toFixed(6)} k2={result.k2.toFixed(6)} p1={result.p1.toFixed(6)} p2={result.p2.toFixed(6)} k3={result.k3.toFixed(6)}<br />
+                        RMS={result.rms?.toFixed(3)} px
+                    </div>
+                    <div className={s.rowBtns}>
+                        <input className={s.input} value={name} placeholder="Preset name, e.g. ILCE-6400 16mm"
+                               onChange={e => setName(e.target.value)} />
+                        <button className={s.btn} disabled={!name.trim()} onClick={save}>Save preset</button>
+                    </div>
+                </>
+            )}
+
+            <div className={s.rowBtns}>
+                <select className={s.input} value={selected} onChange={e => setSelected(e.target.value)}>
+                    <option value="">— saved presets ({presets.length}) —</option>
+                    {presets.map(p => (
+                        <option key={p.name} value={p.name}>
+                            {p.name} · {p.W}x{p.H}{p.rms !== undefined ? ` · ${p.rms.toFixed(2)} px` : ""}
+                        </option>
+                    ))}
+                </select>
+                <button className={s.btn} disabled={!current || !imgW}
+                        onClick={() => current && applyPreset(current, imgW, imgH)}>Apply</button>
+                <button className={s.btnDanger} disabled={!current}
+                        onClick={() => { if (current) { setPresets(deleteCalibrationPreset(current.name)); setSelected(""); } }}>
+                    Delete
+                </button>
+            </div>
+        </>
+    );
+}
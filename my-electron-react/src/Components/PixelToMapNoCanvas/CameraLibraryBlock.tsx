@@ -0,0 +1,182 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/CameraLibraryBlock.tsx
+// ============================================================================
+import React, { useState } from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { CalibrationPreset } from "../../utils/calibration";
+import {
+    CameraEntry, CameraMatch, cameraEntryKey, describeCameraEntry, normalizeCameraEntry,
+    upsertCameraEntry, removeCameraEntry, importCameraLibrary, exportCameraLibrary,
+} from "../../utils/cameraLibrary";
+
+type Draft = {
+    make: string; model: string; lens: string; W: string; H: string;
+    sensorW: string; sensorH: string; focalMM: string; notes: string;
+    calibration: CalibrationPreset | null;
+};
+
+const numText = (v: number | undefined) => v ? String(v) : "";
+
+function draftOf(e: CameraEntry): Draft {
+    return {
+        make: e.make, model: e.model, lens: e.lens ?? "", W: numText(e.W), H: numText(e.H),
+        sensorW: numText(e.sensorW), sensorH: numText(e.sensorH), focalMM: numText(e.focalMM),
+        notes: e.notes ?? "", calibration: e.calibration ?? null,
+    };
+}
+
+export default function CameraLibraryBlock({
+                                               library, setLibrary, loadError, reload, match, photoEntry, currentCalibration, applyEntry, download, setOut,
+                                           }: {
+    library: CameraEntry[];
+    setLibrary: (list: CameraEntry[]) => void;
+    loadError: string | null;                             // the file did not read cleanly; edits are off
+    reload: () => void;
+    match: CameraMatch | null;
+    photoEntry: () => CameraEntry | null;                // draft from the photo on screen
+    currentCalibration: () => CalibrationPreset | null;  // intrinsics in use now
+    applyEntry: (e: CameraEntry) => void;
+    download: (filename: string, text: string, mime?: string) => void;
+    setOut: (fn: (prev: string) => string) => void;
+}) {
+    const [draft, setDraft] = useState<Draft | null>(null);
+    const [editing, setEditing] = useState<string | undefined>(undefined);   // key before the edit
+    const [error, setError] = useState("");
+
+    const matchedKey = match ? cameraEntryKey(match.entry) : null;
+
+    function edit(e: CameraEntry | null, key?: string) {
+        setError("");
+        setEditing(key);
+        setDraft(e ? draftOf(e) : draftOf({ make: "", model: "", sensorW: 0, sensorH: 0 }));
+    }
+
+    function save() {
+        if (!draft) return;
+        const e = normalizeCameraEntry({
+            ...draft,
+            W: parseFloat(draft.W), H: parseFloat(draft.H),
+            sensorW: parseFloat(draft.sensorW), sensorH: parseFloat(draft.sensorH),
+            focalMM: parseFloat(draft.focalMM),
+            calibration: draft.calibration ?? undefined,
+        });
+        if (!e) { setError("Needs make, model and a sensor size or a calibration."); return; }
+        setLibrary(upsertCameraEntry(library, e, editing));
+        setOut(prev => prev + `\nCamera library: saved ${describeCameraEntry(e)}`);
+        setDraft(null);
+    }
+
+    async function importFile(f: File) {
+        try {
+            const res = importCameraLibrary(await f.text(), library);
+            setLibrary(res.list);
+            setOut(prev => prev + `\nCamera library: imported ${f.name} — ${res.added} added, ${res.replaced} replaced`);
+        } catch (err: any) {
+            setOut(prev => prev + `\nCamera library import failed: ${err?.message || String(err)}`);
+        }
+    }
+
+    const field = (label: string, k: Exclude<keyof Draft, "calibration">, placeholder = "") => (
+        <label className={s.lbl}>
+            {label}
+            <input className={s.input} value={draft ? draft[k] : ""} placeholder={placeholder}
+                   onChange={e => setDraft(d => d && { ...d, [k]: e.target.value })} />
+        </label>
+    );
+    const calib = draft?.calibration;
+
+    return (
+        <>
+            <h3 className={s.h3}>Camera library</h3>
+            <div className={s.monoDim}>
+                {match
+                    ? `This photo: ${describeCameraEntry(match.entry)} (matched by ${match.why.join(", ")})`
+                    : "No library entry matches this photo."}
+            </div>
+            {loadError && (
+                <div className={s.warn}>
+                    Camera library file did not read cleanly: {loadError}. Edits are off so it is not overwritten —
+                    fix the file and reload.
+                    <button className={s.btn} onClick={reload}>Reload</button>
+                </div>
+            )}
+
+            <div className={s.pointsTableWrap}>
+                <table className={s.tbl}>
+                    <thead><tr><th>Camera</th><th>Sensor mm</th><th>Calibration</th><th /></tr></thead>
+                    <tbody>
+                    {library.map(e => {
+                        const key = cameraEntryKey(e);
+                        return (
+                            <tr key={key}>
+                                <td>{key === matchedKey ? "▶ " : ""}{describeCameraEntry(e)}</td>
+                                <td>{e.sensorW > 0 ? `${e.sensorW}×${e.sensorH}` : "—"}</td>
+                                <td>{e.calibration
+                                    ? `${e.calibration.W}x${e.calibration.H}${e.calibration.focalMM ? ` @ ${e.calibration.focalMM} mm` : ""}${e.calibration.rms !== undefined ? ` · ${e.calibration.rms.toFixed(2)} px` : ""}`
+                                    : "—"}</td>
+                                <td>
+                                    <button className={s.btn} onClick={() => applyEntry(e)}>Apply</button>
+                                    <button className={s.btn} disabled={!!loadError} onClick={() => edit(e, key)}>Edit</button>
+                                    <button className={s.btnDanger} disabled={!!loadError} onClick={() => setLibrary(removeCameraEntry(library, e))}>✕</button>
+                                </td>
+                            </tr>
+                        );
+                    })}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={!!loadError} onClick={() => {
+                    const e = photoEntry();
+                    if (!e) { setOut(prev => prev + "\nLoad an image first."); return; }
+                    edit(e);
+                }}>Add from current photo</button>
+                <button className={s.btn} disabled={!!loadError} onClick={() => edit(null)}>New entry</button>
+                <button className={s.btn} disabled={!library.length}
+                        onClick={() => download("camera-library.json", exportCameraLibrary(library), "application/json")}>
+                    Export JSON
+                </button>
+                <label className={s.lbl}>
+                    Import JSON
+                    <input type="file" accept=".json,application/json" className={s.input} disabled={!!loadError}
+                           onChange={e => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ""; }} />
+                </label>
+            </div>
+
+            {draft && (
+                <>
+                    <div className={s.grid2}>
+                        {field("Make", "make", "SONY")}
+                        {field("Model", "model", "ILCE-6400")}
+                        {field("Lens (blank = any)", "lens", "E 16mm F2.8")}
+                        {field("Focal length (mm)", "focalMM", "from EXIF")}
+                        {field("Width px (blank = any)", "W")}
+                        {field("Height px", "H")}
+                        {field("Sensor width (mm)", "sensorW", "23.5")}
+                        {field("Sensor height (mm)", "sensorH", "15.6")}
+                    </div>
+                    {field("Notes", "notes")}
+                    <div className={s.monoSmall}>
+                        {calib
+                            ? <>Calibration {calib.W}x{calib.H}{calib.focalMM ? ` at ${calib.focalMM} mm` : " (any focal length)"} fx={calib.fx.toFixed(2)} fy={calib.fy.toFixed(2)} cx={calib.cx.toFixed(2)} cy={calib.cy.toFixed(2)}<br />
+                                {calib.lensModel ?? "brown"}: k1={calib.k1.toFixed(6)} k2={calib.k2.toFixed(6)} p1={calib.p1.toFixed(6)} p2={calib.p2.toFixed(6)} k3={calib.k3.toFixed(6)}{calib.k4 ? ` k4=${calib.k4.toFixed(6)}` : ""}</>
+                            : "No calibration — focal length over sensor size is used."}
+                    </div>
+                    <div className={s.rowBtns}>
+                        <button className={s.btn} onClick={() => {
+                            const c = currentCalibration();
+                            if (!c) { setOut(prev => prev + "\nLoad an image first."); return; }
+                            setDraft(d => d && { ...d, calibration: { ...c, name: d.model || c.name } });
+                        }}>Use current intrinsics</button>
+                        <button className={s.btnDanger} disabled={!calib}
+                                onClick={() => setDraft(d => d && { ...d, calibration: null })}>Drop calibration</button>
+                        <button className={s.btn} onClick={save}>Save entry</button>
+                        <button className={s.btn} onClick={() => setDraft(null)}>Cancel</button>
+                    </div>
+                    {error && <div className={s.warn}>{error}</div>}
+                </>
+            )}
+        </>
+    );
+}
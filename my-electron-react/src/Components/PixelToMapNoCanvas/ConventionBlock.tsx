@@ -0,0 +1,139 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/ConventionBlock.tsx
+// ============================================================================
+import React, { useEffect, useRef, useState } from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import MapOverlay, { MapOverlayHandle } from "../MapOverlay";
+import { RotationConvention } from "../../utils/projection";
+import {
+    CONVENTION_PROFILES, ConventionChoice, ConventionProfileId, FrameCheck, conventionFor,
+} from "../../utils/conventions";
+
+const SOURCE_LABELS = {
+    image: "saved for this image",
+    camera: "last used with this camera",
+    metadata: "guessed from metadata",
+};
+
+export default function ConventionBlock({
+                                            choice, setChoice, source, runSelfCheck,
+                                        }: {
+    choice: ConventionChoice;
+    setChoice: (c: ConventionChoice) => void;
+    source?: keyof typeof SOURCE_LABELS;
+    runSelfCheck: () => Promise<FrameCheck | null>;
+}) {
+    const [check, setCheck] = useState<FrameCheck | null>(null);
+    const [checking, setChecking] = useState(false);
+    const profile = CONVENTION_PROFILES[choice.profile];
+    const conv = conventionFor(choice);
+    // editing a toggle turns whatever is active into a Custom copy
+    const set = <K extends keyof RotationConvention>(k: K, v: RotationConvention[K]) =>
+        setChoice({ profile: "custom", custom: { ...conv, [k]: v } });
+
+    async function selfCheck() {
+        setChecking(true);
+        try { setCheck(await runSelfCheck()); } finally { setChecking(false); }
+    }
+
+    return (
+        <>
+            <h3 className={s.h3}>Orientation convention</h3>
+            <label className={s.lbl}>
+                Pose source
+                <select className={s.input} value={choice.profile}
+                        onChange={e => {
+                            const id = e.target.value as ConventionProfileId;
+                            setChoice(id === "custom" ? { profile: id, custom: conv } : { profile: id });
+                        }}>
+                    {Object.values(CONVENTION_PROFILES).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+            </label>
+            <div className={s.monoDim}>
+                {profile.note}{source ? ` · ${SOURCE_LABELS[source]}` : ""}
+            </div>
+
+            {choice.profile === "custom" && (
+                <div className={s.grid2}>
+                    <label className={s.chk}>
+                        <input type="checkbox" checked={conv.flipPitch} onChange={e=>set("flipPitch", e.target.checked)} />
+                        Flip pitch sign
+                    </label>
+                    <label className={s.chk}>
+                        <input type="checkbox" checked={conv.flipRoll} onChange={e=>set("flipRoll", e.target.checked)} />
+                        Flip roll sign
+                    </label>
+                    <label className={s.chk}>
+                        <input
+                            type="checkbox"
+                            checked={conv.order === "yaw-roll-pitch"}
+                            onChange={e=>set("order", e.target.checked ? "yaw-roll-pitch" : "yaw-pitch-roll")}
+                        />
+                        {conv.pitchAxis === "y" ? "Use Rz*Rx*Ry (else Rz*Ry*Rx)" : "Use Rz*Ry*Rx (else Rz*Rx*Ry)"}
+                    </label>
+                    <label className={s.chk}>
+                        <input type="checkbox" checked={conv.pitchAxis === "y"} onChange={e=>set("pitchAxis", e.target.checked ? "y" : "x")} />
+                        Pitch about camera y, roll about x
+                    </label>
+                    <label className={s.chk}>
+                        <input type="checkbox" checked={!!conv.yawClockwise} onChange={e=>set("yawClockwise", e.target.checked)} />
+                        Yaw is a compass heading (CW)
+                    </label>
+                    <label className={s.chk}>
+                        <input type="checkbox" checked={conv.invertV} onChange={e=>set("invertV", e.target.checked)} />
+                        Invert image v axis
+                    </label>
+                    <label className={s.lbl}>
+                        Yaw offset (°)
+                        <input className={s.input} type="number" step="0.1" value={conv.yawOffset ?? 0}
+                               onChange={e=>set("yawOffset", parseFloat(e.target.value) || 0)} />
+                    </label>
+                    <label className={s.lbl}>
+                        Base frame
+                        <select className={s.input} value={conv.base}
+                                onChange={e=>set("base", e.target.value as RotationConvention["base"])}>
+                            <option value="nadir">Nadir (x→E, y→S, z→down)</option>
+                            <option value="horizon">Horizon (x→E, y→down, z→N)</option>
+                            <option value="identity">Identity (x→E, y→N, z→up)</option>
+                        </select>
+                    </label>
+                </div>
+            )}
+
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={checking} onClick={selfCheck}>
+                    {checking ? "Projecting…" : "Self-check: centre + corners"}
+                </button>
+            </div>
+            {check && <FrameCheckMap check={check} />}
+        </>
+    );
+}
+
+// Projected centre and corners on the map, with the list of hits below
+function FrameCheckMap({ check }: { check: FrameCheck }) {
+    const mapRef = useRef<MapOverlayHandle | null>(null);
+    const missing = check.points.filter(p => !p.hit).map(p => p.label);
+
+    useEffect(() => {
+        const hits = check.points.flatMap(p => p.hit ? [{ label: p.label, lat: p.hit.lat, lon: p.hit.lon }] : []);
+        mapRef.current?.setFrameCheck(check.camera, hits);
+    }, [check]);
+
+    return (
+        <>
+            <MapOverlay ref={mapRef} className={s.checkMap} />
+            <div className={s.monoSmall}>
+                {check.points.map(p => (
+                    <div key={p.label}>
+                        {p.label}: {p.hit
+                            ? `${p.hit.lat.toFixed(6)}, ${p.hit.lon.toFixed(6)} · ${p.hit.range.toFixed(1)} m`
+                            : "no ground (above horizon)"}
+                    </div>
+                ))}
+                {check.centreBearing !== null && <div>Centre bearing from camera: {check.centreBearing.toFixed(1)}°</div>}
+                {missing.length > 0 && <div>⚠ {missing.join(", ")} miss the ground — check pitch sign and base frame.</div>}
+            </div>
+        </>
+    );
+}
@@ -1,41 +1,107 @@
 // ============================================================================
 // FILE: src/components/PixelToMapNoCanvas/DEMBlock.tsx
 // ============================================================================
-import React from "react";
+import React, { useState } from "react";
 import s from "./PixelToMapNoCanvas.module.scss";
+import { GeoidGrid, VerticalDatum } from "../../utils/geoid";
+import { DemMosaic, DemInterpolation, VoidFill, tileCovers } from "../../utils/demMosaic";
+import { DemSampling, INTERPOLATIONS, VOID_FILLS, describeSampling } from "../../utils/demService";
+import { DemUnits, DemVertical, describeVertical } from "../../utils/demVertical";
+import { DEM_FILE_EXT } from "../../utils/demFormats";
+import { demCacheStats, setDemCacheLimit } from "../../utils/demCache";
 
-type DemState = {
-    summary?: string;
-    isGeographic4326?: boolean;
-} | null;
+const DEM_ACCEPT = ".tif,.tiff,.hgt,.asc,.prj,.xyz,.txt,.csv,image/tiff,application/octet-stream";
+const keep = (f: File) => DEM_FILE_EXT.test(f.name) || /\.prj$/i.test(f.name);
 
 export default function DEMBlock({
                                      dem,
                                      autoSampleDEM,
                                      setAutoSampleDEM,
-                                     loadDEM,
+                                     loadDEMTiles,
+                                     removeTile,
+                                     clearDEM,
+                                     geoid,
+                                     loadGeoid,
+                                     setVertical,
                                      relinkAGLWithDEM,
+                                     sampling,
+                                     setSampling,
+                                     secondary,
+                                     loadSecondary,
+                                     clearSecondary,
                                      lat,
                                      lon
                                  }: {
-    dem: DemState;
+    dem: DemMosaic | null;
     autoSampleDEM: boolean;
     setAutoSampleDEM: (v: boolean) => void;
-    loadDEM: (f: File) => Promise<void>;
+    loadDEMTiles: (files: File[], defaultEpsg?: number) => Promise<void>;
+    removeTile: (name: string) => void;
+    clearDEM: () => void;
+    geoid: GeoidGrid | null;
+    loadGeoid: (f: File) => Promise<void>;
+    setVertical: (name: string, v: DemVertical) => void;
     relinkAGLWithDEM: () => Promise<void>;
+    sampling: DemSampling;
+    setSampling: (s: DemSampling) => void;
+    secondary: DemMosaic | null;
+    loadSecondary: (files: File[]) => Promise<void>;
+    clearSecondary: () => void;
     lat: number;
     lon: number;
 }) {
+    const [gridEpsg, setGridEpsg] = useState("");
+    const [cacheMB, setCacheMB] = useState(() => demCacheStats().limitMB);
+    const [editName, setEditName] = useState("");
+    const stats = demCacheStats();
+    const editing = dem?.tiles.find(t => t.name === editName) ?? dem?.tiles[0];
+    const edit = (patch: Partial<DemVertical>) => {
+        if (editing) setVertical(editing.name, { ...editing.vertical, ...patch });
+    };
+    const num = (v: string, fallback: number) => { const x = parseFloat(v); return Number.isFinite(x) ? x : fallback; };
+    const load = (list: FileList | null) => {
+        const files = Array.from(list ?? []).filter(keep);
+        const epsg = parseInt(gridEpsg, 10);
+        if (files.length) loadDEMTiles(files, Number.isFinite(epsg) ? epsg : undefined);
+    };
+
     return (
         <>
             <h3 className={s.h3}>Offline Ground Elevation (DEM)</h3>
-            <div className={s.monoDim}>DEM GeoTIFF ( SRTM/ASTER, EPSG:4326),։</div>
+            <div className={s.monoDim}>
+                DEM tiles — GeoTIFF (SRTM/ASTER in EPSG:4326, lidar DTMs in UTM or national grids), SRTM .hgt,
+                ESRI .asc or XYZ (with .prj sidecars) — several files or a whole folder, sampled as one mosaic.
+            </div>
             <div className={s.rowBtns}>
                 <input
                     type="file"
-                    accept=".tif,.tiff,image/tiff,application/octet-stream"
-                    onChange={e => { const f = e.target.files?.[0]; if (f) loadDEM(f); }}
+                    multiple
+                    accept={DEM_ACCEPT}
+                    onChange={e => { load(e.target.files); e.target.value = ""; }}
                 />
+                <label className={s.lbl}>
+                    Folder
+                    <input
+                        type="file"
+                        {...{ webkitdirectory: "" }}
+                        onChange={e => { load(e.target.files); e.target.value = ""; }}
+                    />
+                </label>
+                <label className={s.lbl}>
+                    DEM memory cap (MB; larger GeoTIFFs load lazily)
+                    <input
+                        type="number" min={64} step={64} className={s.input}
+                        value={cacheMB}
+                        onChange={e => { const v = parseFloat(e.target.value); setCacheMB(v); if (v > 0) setDemCacheLimit(v); }}
+                    />
+                </label>
+                <label className={s.lbl}>
+                    EPSG for .asc/XYZ without .prj
+                    <input
+                        className={s.input} placeholder="auto (4326 if lat/lon)"
+                        value={gridEpsg} onChange={e => setGridEpsg(e.target.value.replace(/\D/g, ""))}
+                    />
+                </label>
                 <label className={s.chk}>
                     <input
                         type="checkbox"
@@ -53,11 +119,147 @@ export default function DEMBlock({
                 </button>
             </div>
             <pre className={s.preSmall}>{dem?.summary || "— DEM not loaded —"}</pre>
-            {!dem?.isGeographic4326 && dem && (
+            {dem && (
+                <div className={s.pointsTableWrap}>
+                    <table className={s.tbl}>
+                        <thead><tr><th>Tile</th><th>Format</th><th>Size</th><th>Lon</th><th>Lat</th><th>Cell m</th><th>Memory</th><th>CRS</th><th>Vertical</th><th></th></tr></thead>
+                        <tbody>
+                        {dem.tiles.map(t => (
+                            <tr key={t.name}>
+                                <td>{t.name}{tileCovers(t, lat, lon) ? " ●" : ""}{t.crs ? "" : " ⚠"}</td>
+                                <td>{t.format}</td>
+                                <td>{t.width}×{t.height}</td>
+                                <td>{t.west.toFixed(3)} … {t.east.toFixed(3)}</td>
+                                <td>{t.south.toFixed(3)} … {t.north.toFixed(3)}</td>
+                                <td>{t.cellSize.toFixed(2)}</td>
+                                <td>{t.lazy ? "lazy" : `${(t.width * t.height * 4 / 1048576).toFixed(0)} MB`}</td>
+                                <td>{t.crs?.code ? `EPSG:${t.crs.code}` : t.crs ? "user" : "?"}</td>
+                                <td>{describeVertical(t.vertical)}</td>
+                                <td><button className={s.btnDanger} onClick={() => removeTile(t.name)}>✕</button></td>
+                            </tr>
+                        ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {dem && (
+                <div className={s.rowBtns}>
+                    <span className={s.monoDim}>
+                        ● covers camera GPS · cache {stats.usedMB.toFixed(0)} MB ({stats.pinnedMB.toFixed(0)} MB decoded)
+                    </span>
+                    <button className={s.btnDanger} onClick={clearDEM}>Unload all tiles</button>
+                </div>
+            )}
+            {editing && (
+                <div className={s.rowBtns}>
+                    <label className={s.lbl}>
+                        Vertical reference of
+                        <select className={s.input} value={editing.name} onChange={e => setEditName(e.target.value)}>
+                            {dem!.tiles.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                        </select>
+                    </label>
+                    <label className={s.lbl}>
+                        Heights are
+                        <select className={s.input} value={editing.vertical.datum} onChange={e => edit({ datum: e.target.value as VerticalDatum })}>
+                            <option value="geoid">AMSL (orthometric, e.g. SRTM)</option>
+                            <option value="ellipsoid">WGS84 ellipsoidal</option>
+                        </select>
+                    </label>
+                    <label className={s.lbl}>
+                        Units
+                        <select className={s.input} value={editing.vertical.units} onChange={e => edit({ units: e.target.value as DemUnits })}>
+                            <option value="metre">metre</option>
+                            <option value="foot">foot</option>
+                            <option value="us-foot">US survey foot</option>
+                        </select>
+                    </label>
+                    <label className={s.lbl}>
+                        Scale
+                        <input
+                            type="number" step="any" className={s.input}
+                            value={editing.vertical.scale}
+                            onChange={e => edit({ scale: num(e.target.value, editing.vertical.scale) })}
+                        />
+                    </label>
+                    <label className={s.lbl}>
+                        Offset (m)
+                        <input
+                            type="number" step="any" className={s.input}
+                            value={editing.vertical.offset}
+                            onChange={e => edit({ offset: num(e.target.value, editing.vertical.offset) })}
+                        />
+                    </label>
+                </div>
+            )}
+            {dem && !geoid && dem.tiles.some(t => t.vertical.datum === "ellipsoid") && (
+                <div className={s.warn}>
+                    ⚠ Ellipsoidal tiles are sampled as if AMSL until a geoid grid is loaded.
+                </div>
+            )}
+            {dem && !dem.supported && (
                 <div className={s.warn}>
-                    ⚠ DEM CRS is unknown (or not EPSG:4326). Results may be incorrect; a 4326 GeoTIFF is recommended.
+                    ⚠ A tile's CRS is not one of the bundled definitions (EPSG:4326 and other geographic, UTM, national grids,
+                    user-defined TM/LCC/Mercator); it is listed but not sampled.
                 </div>
             )}
+
+            <h3 className={s.h3}>Sampling / voids</h3>
+            <div className={s.rowBtns}>
+                <label className={s.lbl}>
+                    Interpolation
+                    <select className={s.input} value={sampling.method}
+                            onChange={e => setSampling({ ...sampling, method: e.target.value as DemInterpolation })}>
+                        {INTERPOLATIONS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                </label>
+                <label className={s.lbl}>
+                    Nodata voids
+                    <select className={s.input} value={sampling.voidFill}
+                            onChange={e => setSampling({ ...sampling, voidFill: e.target.value as VoidFill })}>
+                        {VOID_FILLS.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                    </select>
+                </label>
+                {(sampling.voidFill === "idw" || sampling.voidFill === "nearest") && (
+                    <label className={s.lbl}>
+                        Search radius (m)
+                        <input
+                            type="number" min={1} step={50} className={s.input}
+                            value={sampling.fillRadius}
+                            onChange={e => setSampling({ ...sampling, fillRadius: Math.max(1, num(e.target.value, sampling.fillRadius)) })}
+                        />
+                    </label>
+                )}
+                {sampling.voidFill === "secondary" && (
+                    <label className={s.lbl}>
+                        Secondary (coarser) DEM
+                        <input
+                            type="file" multiple accept={DEM_ACCEPT}
+                            onChange={e => {
+                                const files = Array.from(e.target.files ?? []).filter(keep);
+                                if (files.length) loadSecondary(files);
+                                e.target.value = "";
+                            }}
+                        />
+                    </label>
+                )}
+                {secondary && <button className={s.btnDanger} onClick={clearSecondary}>Unload secondary</button>}
+            </div>
+            <div className={s.monoDim}>
+                {describeSampling(sampling, secondary)}
+                {secondary ? ` · secondary: ${secondary.tiles.map(t => t.name).join(", ")} (≈${secondary.cellSize.toFixed(0)} m)` : ""}
+                <br />A void among the four posts is left out of the bilinear weights; a point with no valid post is filled as set here.
+            </div>
+
+            <h3 className={s.h3}>Geoid / vertical datum</h3>
+            <div className={s.monoDim}>EGM96 / EGM2008 grid (.gtx or GeoTIFF), offline.</div>
+            <div className={s.rowBtns}>
+                <input
+                    type="file"
+                    accept=".gtx,.tif,.tiff,image/tiff,application/octet-stream"
+                    onChange={e => { const f = e.target.files?.[0]; if (f) loadGeoid(f); }}
+                />
+            </div>
+            <pre className={s.preSmall}>{geoid?.summary || "— Geoid not loaded (ellipsoidal heights taken as AMSL) —"}</pre>
         </>
     );
 }
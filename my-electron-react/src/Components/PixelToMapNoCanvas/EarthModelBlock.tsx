@@ -0,0 +1,41 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/EarthModelBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { EarthModel } from "../../utils/projection";
+
+export default function EarthModelBlock({
+                                            earth, setEarth,
+                                        }: {
+    earth: EarthModel;
+    setEarth: (e: EarthModel) => void;
+}) {
+    const isEllipsoid = earth.kind === "ellipsoid";
+    return (
+        <>
+            <h3 className={s.h3}>Earth model</h3>
+            <div className={s.grid2}>
+                <label className={s.chk}>
+                    <input
+                        type="checkbox"
+                        checked={isEllipsoid}
+                        onChange={e => setEarth(e.target.checked ? { kind: "ellipsoid", refraction: 0.13 } : { kind: "flat" })}
+                    />
+                    WGS84 ellipsoid ray (long-range oblique)
+                </label>
+                <label className={s.lbl}>
+                    Refraction k
+                    <input
+                        type="number" step={0.01} min={0} max={1}
+                        disabled={!isEllipsoid}
+                        value={isEllipsoid ? earth.refraction : 0}
+                        onChange={e => setEarth({ kind: "ellipsoid", refraction: parseFloat(e.target.value) || 0 })}
+                        className={s.input}
+                    />
+                </label>
+            </div>
+            <div className={s.monoDim}>Flat = local tangent plane; ellipsoid adds Earth curvature (k≈0.13 standard atmosphere).</div>
+        </>
+    );
+}
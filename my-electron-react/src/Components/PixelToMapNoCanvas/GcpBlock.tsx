@@ -0,0 +1,105 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/GcpBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { NamedCoordinate } from "../../utils/resection";
+
+export type Gcp = {
+    id: number; name: string;
+    u: number; v: number;       // display pixels
+    coord: string;              // "lat, lon[, alt]" or DMS, as typed / pasted / picked
+    residual?: number | null;   // px after the last solve
+};
+
+export default function GcpBlock({
+                                     gcps, setGcps, gcpMode, setGcpMode,
+                                     controlPoints, loadControlFile,
+                                     refineFocal, setRefineFocal, refinePrincipal, setRefinePrincipal,
+                                     minPoints, solvePose,
+                                 }: {
+    gcps: Gcp[];
+    setGcps: (fn: (prev: Gcp[]) => Gcp[]) => void;
+    gcpMode: boolean;
+    setGcpMode: (v: boolean) => void;
+    controlPoints: NamedCoordinate[];
+    loadControlFile: (f: File) => void;
+    refineFocal: boolean;
+    setRefineFocal: (v: boolean) => void;
+    refinePrincipal: boolean;
+    setRefinePrincipal: (v: boolean) => void;
+    minPoints: number;
+    solvePose: () => void;
+}) {
+    const update = (id: number, patch: Partial<Gcp>) =>
+        setGcps(prev => prev.map(g => g.id === id ? { ...g, ...patch } : g));
+    const ready = gcps.filter(g => g.coord.trim()).length;
+
+    return (
+        <>
+            <h3 className={s.h3}>Pose from control points (resection)</h3>
+            <div className={s.grid2}>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={gcpMode} onChange={e => setGcpMode(e.target.checked)} />
+                    Pick GCPs in viewer (clicks add points)
+                </label>
+                <label className={s.lbl}>
+                    Control file (CSV: name, lat, lon[, alt])
+                    <input type="file" accept=".csv,.txt" className={s.input}
+                           onChange={e => { const f = e.target.files?.[0]; if (f) loadControlFile(f); }} />
+                </label>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={refineFocal} onChange={e => setRefineFocal(e.target.checked)} />
+                    Refine fx / fy
+                </label>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={refinePrincipal} onChange={e => setRefinePrincipal(e.target.checked)} />
+                    Refine cx / cy
+                </label>
+            </div>
+
+            <div className={s.pointsTableWrap}>
+                <table className={s.tbl}>
+                    <thead>
+                    <tr><th>Name</th><th>Pixel(u,v)</th><th>Coordinate (lat, lon[, alt])</th><th>Resid. px</th><th /></tr>
+                    </thead>
+                    <tbody>
+                    {gcps.map(g => (
+                        <tr key={g.id}>
+                            <td>{g.name}</td>
+                            <td>({Math.round(g.u)}, {Math.round(g.v)})</td>
+                            <td>
+                                <input className={s.input} value={g.coord} placeholder="40.18, 44.51, 1050"
+                                       onChange={e => update(g.id, { coord: e.target.value })} />
+                                {controlPoints.length > 0 && (
+                                    <select className={s.input} value=""
+                                            onChange={e => {
+                                                const c = controlPoints[Number(e.target.value)];
+                                                if (c) update(g.id, { name: c.name, coord: `${c.lat}, ${c.lon}${c.alt !== undefined ? `, ${c.alt}` : ""}` });
+                                            }}>
+                                        <option value="">— from file —</option>
+                                        {controlPoints.map((c, i) => <option key={i} value={i}>{c.name}</option>)}
+                                    </select>
+                                )}
+                            </td>
+                            <td>{g.residual == null ? "—" : Number.isFinite(g.residual) ? g.residual.toFixed(2) : "behind"}</td>
+                            <td>
+                                <button className={s.btn} onClick={() => setGcps(prev => prev.filter(x => x.id !== g.id))}>✕</button>
+                            </td>
+                        </tr>
+                    ))}
+                    {!gcps.length && (<tr><td colSpan={5} className={s.monoDim}>— enable picking and click known points —</td></tr>)}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={ready < minPoints} onClick={solvePose}>
+                    Solve pose ({ready}/{minPoints}+ pts)
+                </button>
+                <button className={s.btnDanger} onClick={() => setGcps(() => [])} disabled={!gcps.length}>Clear GCPs</button>
+            </div>
+            <div className={s.monoDim}>Missing altitude is taken from the DEM, else Ground Alt. Altitudes are AMSL.</div>
+        </>
+    );
+}
@@ -7,11 +7,15 @@ import s from "./PixelToMapNoCanvas.module.scss";
 type HitPoint = {
     id: number; name: string; pixelU: number; pixelV: number;
     lat: number; lon: number; altAMSL: number; groundAltAMSL: number; agl: number;
+    unc?: { ce90: number; semiMajor: number; semiMinor: number; azimuth: number; unbounded: boolean } | null;
+    source?: "dem" | "flat" | "triangulated";
+    demMethod?: string | null;
 };
 
+const SOURCE_LABELS = { dem: "DEM", flat: "flat", triangulated: "△ rays" };
+
 export default function GoogleEarthTools({
-                                             imgW, imgH, points, setPoints, setOut,
-                                             applyCalibrationPreset, CALIB_ILCE5100_6000x4000,
+                                             points, setPoints, setOut,
                                              toGoogleEarthCoord, toDMS, copy, download, buildKML
                                          }: any) {
     return (
@@ -20,16 +24,6 @@ export default function GoogleEarthTools({
             <div className={s.monoDim}>(lon,lat,alt=ground AMSL)։</div>
 
             <div className={s.rowBtns}>
-                <button
-                    className={s.btn}
-                    onClick={() => {
-                        if (!imgW || !imgH) { setOut("Load an image first."); return; }
-                        applyCalibrationPreset(CALIB_ILCE5100_6000x4000, imgW, imgH);
-                    }}
-                >
-                    Apply ILCE-5100 calibration
-                </button>
-
                 <button className={s.btn} onClick={()=>{
                     if (!points.length) { setOut("No points to export."); return; }
                     const kml = buildKML(points as HitPoint[]);
@@ -65,7 +59,7 @@ export default function GoogleEarthTools({
                     <thead>
                     <tr>
                         <th>#</th><th>Name</th><th>Pixel(u,v)</th><th>Lat</th><th>Lon</th>
-                        <th>Alt(AMSL)</th><th>Ground(AMSL)</th><th>AGL</th><th>GE coord</th>
+                        <th>Alt(AMSL)</th><th>Ground(AMSL)</th><th>AGL</th><th>Method</th><th>CE90</th><th>a/b/az (1σ)</th><th>GE coord</th>
                     </tr>
                     </thead>
                     <tbody>
@@ -79,10 +73,15 @@ export default function GoogleEarthTools({
                             <td>{p.altAMSL.toFixed(2)}</td>
                             <td>{p.groundAltAMSL.toFixed(2)}</td>
                             <td>{p.agl.toFixed(2)}</td>
+                            <td>{p.source ? SOURCE_LABELS[p.source] : "—"}{p.demMethod ? <span className={s.monoSmall}> · {p.demMethod}</span> : null}</td>
+                            <td>{!p.unc ? "—" : p.unc.unbounded ? "∞" : p.unc.ce90.toFixed(1)}</td>
+                            <td className={s.monoSmall}>
+                                {!p.unc || p.unc.unbounded ? "—" : `${p.unc.semiMajor.toFixed(1)}/${p.unc.semiMinor.toFixed(1)}/${p.unc.azimuth.toFixed(0)}°`}
+                            </td>
                             <td className={s.monoSmall}>{toGoogleEarthCoord(p.lon, p.lat, p.groundAltAMSL)}</td>
                         </tr>
                     ))}
-                    {!points.length && (<tr><td colSpan={9} className={s.monoDim}>— no points yet —</td></tr>)}
+                    {!points.length && (<tr><td colSpan={12} className={s.monoDim}>— no points yet —</td></tr>)}
                     </tbody>
                 </table>
             </div>
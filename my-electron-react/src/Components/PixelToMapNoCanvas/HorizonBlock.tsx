@@ -0,0 +1,58 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/HorizonBlock.tsx
+// ============================================================================
+import React, { useState } from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { Skyline } from "../../utils/horizon";
+
+export default function HorizonBlock({
+                                         showHorizon, setShowHorizon, maxRayRange, setMaxRayRange,
+                                         dip, hasDem, skyline, traceSkyline,
+                                     }: {
+    showHorizon: boolean;
+    setShowHorizon: (v: boolean) => void;
+    maxRayRange: number;
+    setMaxRayRange: (v: number) => void;
+    dip: number;
+    hasDem: boolean;
+    skyline: Skyline | null;
+    traceSkyline: () => Promise<void>;
+}) {
+    const [tracing, setTracing] = useState(false);
+
+    async function trace() {
+        setTracing(true);
+        try { await traceSkyline(); } finally { setTracing(false); }
+    }
+
+    return (
+        <>
+            <h3 className={s.h3}>Horizon</h3>
+            <div className={s.grid2}>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={showHorizon} onChange={e => setShowHorizon(e.target.checked)} />
+                    Draw horizon / skyline on photo
+                </label>
+                <label className={s.lbl}>
+                    Max ray range (m, 0 = off)
+                    <input
+                        type="number" min={0} step={100}
+                        value={maxRayRange}
+                        onChange={e => setMaxRayRange(Math.max(0, parseFloat(e.target.value) || 0))}
+                        className={s.input}
+                    />
+                </label>
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={!hasDem || tracing} onClick={trace}>
+                    {tracing ? "Tracing skyline…" : "Trace DEM skyline"}
+                </button>
+            </div>
+            <div className={s.monoDim}>
+                Horizon dip {dip.toFixed(3)}° below level
+                {skyline ? ` · DEM skyline over ${skyline.samples.length} azimuths` : hasDem ? " · skyline not traced" : ""}
+                <br />Clicks above the line are refused; hits beyond the max range are flagged, not stored.
+            </div>
+        </>
+    );
+}
@@ -1,7 +1,7 @@
 // ============================================================================
 // FILE: src/components/PixelToMapNoCanvas/ModalViewer.tsx
 // ============================================================================
-import React from "react";
+import React, { useState } from "react";
 import PinIcon from "./PinIcon";
 import ZoomedImage from "./ZoomedImage";
 import s from "./PixelToMapNoCanvas.module.scss";
@@ -9,19 +9,32 @@ import s from "./PixelToMapNoCanvas.module.scss";
 type HitPoint = {
     id: number; name: string; pixelU: number; pixelV: number;
     lat: number; lon: number; altAMSL: number; groundAltAMSL: number; agl: number;
+    ellipseUV?: { u: number; v: number }[];
+};
+type UV = { u: number; v: number };
+type Gcp = { id: number; name: string; u: number; v: number; residual?: number | null };
+type Landmark = {
+    id: number; name: string; u: number; v: number; inFrame: boolean; behind: boolean; occluded: boolean | null;
 };
 
 export default function ModalViewer({
                                         viewerOpen, setViewerOpen,
                                         open, setOpen,
-                                        viewerRef, panning, setPanning, onMove, onMouseDown, onMouseUp, onMouseLeave, onWheel,
+                                        viewerRef, panning, onMove, onMouseDown, onMouseUp, onMouseLeave, onWheel,
                                         onClickCompute, onDoubleClick,
                                         blobUrl, imgW, imgH, scale, setScale, tx, setTx, ty, setTy,
-                                        points, imgUVtoScreen, cursorPos, pixelStr,
+                                        points, imgUVtoScreen, showEllipses, horizon, viewshedMask, cursorPos, pixelStr,
+                                        landmarks, onLocateCoord, clearLandmarks, gcps = [], triMark,
                                         MAX_SCALE, MIN_SCALE,
                                         downloadAnnotatedImage,
                                         PoseIntrinsicsPanel, GoogleEarthToolsPanel, ResultPanel,
                                     }: any) {
+    const [coordStr, setCoordStr] = useState("");
+    const screenPoints = (l: UV[]) => l
+        .map(q => imgUVtoScreen(q.u, q.v, "viewer"))
+        .filter(Boolean)
+        .map((q: { x: number; y: number }) => `${q.x},${q.y}`)
+        .join(" ");
     return !viewerOpen ? null : (
         <div role="dialog" aria-modal="true" className={s.modal}
              onKeyDown={(e)=>{ if (e.key === "Escape") setViewerOpen(false); }}>
@@ -58,6 +71,37 @@ export default function ModalViewer({
                             onDoubleClick={onDoubleClick}
                         >
                             {blobUrl && <ZoomedImage src={blobUrl} imgW={imgW} imgH={imgH} scale={scale} tx={tx} ty={ty} />}
+                            {viewshedMask && (() => {
+                                const a = imgUVtoScreen(0, 0, "viewer");
+                                const b = imgUVtoScreen(viewshedMask.width, viewshedMask.height, "viewer");
+                                return a && b && (
+                                    <img className={s.viewshedMask} src={viewshedMask.url} alt=""
+                                         style={{ left: a.x, top: a.y, width: b.x - a.x, height: b.y - a.y }} />
+                                );
+                            })()}
+                            {horizon && (
+                                <svg className={s.ellipseLayer}>
+                                    {horizon.horizon.map((l: UV[], i: number) => (
+                                        <polyline key={`h${i}`} className={s.horizonLine} points={screenPoints(l)} />
+                                    ))}
+                                    {horizon.skyline.map((l: UV[], i: number) => (
+                                        <polyline key={`s${i}`} className={s.skylineLine} points={screenPoints(l)} />
+                                    ))}
+                                </svg>
+                            )}
+                            {showEllipses && (
+                                <svg className={s.ellipseLayer}>
+                                    {points.map((p: HitPoint) => {
+                                        if (!p.ellipseUV || p.ellipseUV.length < 3) return null;
+                                        const pts = p.ellipseUV
+                                            .map(q => imgUVtoScreen(q.u, q.v, "viewer"))
+                                            .filter(Boolean)
+                                            .map((q: { x: number; y: number }) => `${q.x},${q.y}`)
+                                            .join(" ");
+                                        return <polygon key={p.id} points={pts} className={s.errorEllipse} />;
+                                    })}
+                                </svg>
+                            )}
                             {points.map((p: HitPoint, idx: number) => {
                                 const pos = imgUVtoScreen(p.pixelU, p.pixelV, "viewer");
                                 if (!pos) return null;
@@ -67,9 +111,58 @@ export default function ModalViewer({
                                     </div>
                                 );
                             })}
+                            {landmarks.map((m: Landmark) => {
+                                if (!m.inFrame || m.behind) return null;
+                                const pos = imgUVtoScreen(m.u, m.v, "viewer");
+                                if (!pos) return null;
+                                return (
+                                    <div key={m.id} className={`${s.landmark} ${m.occluded ? s.landmarkOccluded : ""}`}
+                                         style={{ left: pos.x, top: pos.y }}
+                                         title={m.occluded ? `${m.name} (occluded by terrain)` : m.name}>
+                                        <span className={s.landmarkTag}>{m.name}</span>
+                                    </div>
+                                );
+                            })}
+                            {gcps.map((g: Gcp) => {
+                                const pos = imgUVtoScreen(g.u, g.v, "viewer");
+                                if (!pos) return null;
+                                const tag = g.residual == null ? g.name : `${g.name} · ${Number.isFinite(g.residual) ? g.residual.toFixed(1) : "∞"} px`;
+                                return (
+                                    <div key={g.id} className={s.gcp} style={{ left: pos.x, top: pos.y }} title={tag}>
+                                        <span className={s.gcpTag}>{tag}</span>
+                                    </div>
+                                );
+                            })}
+                            {triMark && (() => {
+                                const pos = imgUVtoScreen(triMark.u, triMark.v, "viewer");
+                                return pos && (
+                                    <div className={s.triMark} style={{ left: pos.x, top: pos.y }} title="Triangulation target in this photo">
+                                        <span className={s.gcpTag}>target</span>
+                                    </div>
+                                );
+                            })()}
                             {cursorPos && <div className={s.aim} style={{ left: cursorPos.x, top: cursorPos.y }} />}
                         </div>
                         <div className={s.monoBright}>{pixelStr} · zoom: {scale.toFixed(2)}</div>
+                        <form
+                            className={s.rowBtns}
+                            onSubmit={(e) => { e.preventDefault(); if (coordStr.trim()) onLocateCoord(coordStr); }}
+                        >
+                            <input
+                                className={s.input}
+                                value={coordStr}
+                                placeholder="lat, lon[, alt]  or  40°10'12&quot;N 44°30'5&quot;E → mark on image"
+                                onChange={(e) => setCoordStr(e.target.value)}
+                                onPaste={(e) => {
+                                    const txt = e.clipboardData.getData("text");
+                                    if (txt.trim()) { e.preventDefault(); setCoordStr(txt); onLocateCoord(txt); }
+                                }}
+                            />
+                            <button type="submit" className={s.btn}>📍 Locate coordinate</button>
+                            <button type="button" className={s.btn} onClick={clearLandmarks} disabled={!landmarks.length}>
+                                Clear landmarks
+                            </button>
+                        </form>
                     </div>
 
                     <div className={s.infoPane} aria-hidden={!open}>{PoseIntrinsicsPanel}</div>
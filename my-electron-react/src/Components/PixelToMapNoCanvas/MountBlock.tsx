@@ -0,0 +1,53 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/MountBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { MountConfig, NO_MOUNT } from "../../utils/projection";
+
+export default function MountBlock({
+                                       mount, setMount, cameraKey, setCameraKey, saveMount,
+                                   }: {
+    mount: MountConfig;
+    setMount: (m: MountConfig) => void;
+    cameraKey: string;
+    setCameraKey: (k: string) => void;
+    saveMount: () => void;
+}) {
+    const bore = (k: keyof MountConfig["boresight"], v: number) =>
+        setMount({ ...mount, boresight: { ...mount.boresight, [k]: v } });
+    const arm = (k: keyof MountConfig["leverArm"], v: number) =>
+        setMount({ ...mount, leverArm: { ...mount.leverArm, [k]: v } });
+    const num = (label: string, value: number, set: (v: number) => void, step: number) => (
+        <label className={s.lbl}>
+            {label}
+            <input type="number" step={step} value={value} className={s.input}
+                   onChange={e => set(parseFloat(e.target.value) || 0)} />
+        </label>
+    );
+
+    return (
+        <>
+            <h3 className={s.h3}>Camera mount</h3>
+            <label className={s.lbl}>
+                Camera (Make Model #serial)
+                <input className={s.input} value={cameraKey} placeholder="from EXIF, or type a name"
+                       onChange={e => setCameraKey(e.target.value)} />
+            </label>
+            <div className={s.grid2}>
+                {num("Boresight yaw (°)", mount.boresight.yaw, v => bore("yaw", v), 0.01)}
+                {num("Boresight pitch (°, +down)", mount.boresight.pitch, v => bore("pitch", v), 0.01)}
+                {num("Boresight roll (°, +right)", mount.boresight.roll, v => bore("roll", v), 0.01)}
+                <div />
+                {num("Lever arm right (m)", mount.leverArm.right, v => arm("right", v), 0.01)}
+                {num("Lever arm forward (m)", mount.leverArm.forward, v => arm("forward", v), 0.01)}
+                {num("Lever arm up (m)", mount.leverArm.up, v => arm("up", v), 0.01)}
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={!cameraKey.trim()} onClick={saveMount}>Save for this camera</button>
+                <button className={s.btn} onClick={() => setMount(NO_MOUNT)}>Reset mount</button>
+            </div>
+            <div className={s.monoDim}>Lever arm: GNSS antenna → camera centre, in the heading frame (rotates with yaw).</div>
+        </>
+    );
+}
@@ -5,7 +5,6 @@
 // ============================================================================
 import React, { useRef, useState, useEffect } from "react";
 import * as exifr from "exifr";
-import { fromArrayBuffer, GeoTIFF, GeoTIFFImage } from "geotiff";
 import s from "./PixelToMapNoCanvas.module.scss";
 import { createPortal } from "react-dom";
 
@@ -16,30 +15,63 @@ import PoseIntrinsicsBlock from "./PoseIntrinsicsBlock";
 import GoogleEarthTools from "./GoogleEarthTools";
 import ResultBlock from "./ResultBlock";
 import ModalViewer from "./ModalViewer";
-
-// --- sensor widths for FOV estimation ---
-const SENSOR_WIDTH_MM_BY_MODEL: Record<string, number> = {
-    "ILCE-5100": 23.5, "ILCE-6000": 23.5, "ILCE-6100": 23.5, "ILCE-6300": 23.5, "ILCE-6400": 23.5,
-};
-
-// ---- calibration preset (Sony ILCE-5100 @ 6000x4000) ----
-const CALIB_ILCE5100_6000x4000 = {
-    W: 6000, H: 4000,
-    fx: 6398.08616, fy: 6432.14696, cx: 2959.871024, cy: 1963.453368,
-    k1: -0.0232568293, k2: -0.403632348, p1:  0.00123362391, p2: -0.00155940272, k3:  2.41647816,
-} as const;
-
-const DEM_OFFSET_M = 20;
+import ConventionBlock from "./ConventionBlock";
+import EarthModelBlock from "./EarthModelBlock";
+import UncertaintyBlock from "./UncertaintyBlock";
+import GcpBlock, { Gcp } from "./GcpBlock";
+import CalibrationBlock from "./CalibrationBlock";
+import CameraLibraryBlock from "./CameraLibraryBlock";
+import MountBlock from "./MountBlock";
+import HorizonBlock from "./HorizonBlock";
+import ViewshedBlock, { SightCheck } from "./ViewshedBlock";
+import ProfileBlock from "./ProfileBlock";
+import TriangulationBlock, { TriView } from "./TriangulationBlock";
+import {
+    CameraPose, Intrinsics, LensModel, Distortion, MountConfig, NO_MOUNT, EarthModel, FLAT_EARTH, GroundHit, GroundModel,
+    cameraToENU, vecMul, fxFromFovX, resolveIntrinsics, projectPixel, projectPixelFlat,
+    groundToPixel, lineOfSight, cameraCentre,
+} from "../../utils/projection";
+import { GeoidGrid, VerticalDatum, loadGeoid, geoidUndulation, toOrthometric } from "../../utils/geoid";
+import { DemMosaic, DemSampleMethod, removeTile, clearMosaic, setTileVertical, tilesAt } from "../../utils/demMosaic";
+import {
+    DemSampling, loadDemFiles, loadSharedDemFiles, describeLoad, openDem, demGround, sharedDem, setSharedDem, onSharedDemChange,
+    sharedSampling, setSharedSampling, onSharedSamplingChange, describeSampling,
+} from "../../utils/demService";
+import { DemVertical, describeVertical } from "../../utils/demVertical";
+import {
+    ControlPoint, NamedCoordinate, ResectionResult, solveResection, minControlPoints, parseControlFile,
+} from "../../utils/resection";
+import { CalibrationPreset } from "../../utils/calibration";
+import { cameraKeyFromMeta, mountForCamera, saveMount, describeMount } from "../../utils/mounts";
+import { PhotoMetadata, readPhotoMetadata, extractMetadata, describeMetadata } from "../../utils/metadata";
+import {
+    CameraEntry, CameraMatch, LoadedLibrary, loadCameraLibrary, saveCameraLibrary, matchCamera, intrinsicsFor, entryFromPhoto, describeCameraEntry,
+} from "../../utils/cameraLibrary";
+import {
+    CONVENTION_PROFILES, DEFAULT_PROFILE, ConventionChoice,
+    conventionFor, choiceForImage, saveConventionChoice, imageKeyFromFile, frameSelfCheck,
+} from "../../utils/conventions";
+import { TriangulationResult, triangulate } from "../../utils/triangulation";
+import { Viewshed, ViewshedOptions, computeViewshed, describeViewshed, viewshedMask, sightLineProfile } from "../../utils/viewshed";
+import { RayProfile, rayProfile } from "../../utils/rayProfile";
+import { PixelPolyline, Skyline, horizonDip, horizonLine, demSkyline, skylineLine, testAboveHorizon } from "../../utils/horizon";
+import { UncertaintySigmas, DEFAULT_SIGMAS, ErrorEllipse, propagateUncertainty, ellipseOutline } from "../../utils/uncertainty";
 
 type HitPoint = {
     id: number; name: string; pixelU: number; pixelV: number; lat: number; lon: number;
     altAMSL: number; groundAltAMSL: number; agl: number;
+    geoidN?: number | null;   // undulation at the hit (m), when a geoid grid is loaded
+    unc?: ErrorEllipse | null;                  // 1σ error ellipse + CE90 on the ground
+    ellipseUV?: { u: number; v: number }[];     // 90% ellipse outline in display pixels
+    source?: "dem" | "flat" | "triangulated";   // how the position was found
+    demMethod?: DemSampleMethod | null;         // how the DEM height at the hit was sampled
+    triangulation?: { views: number; rmsMiss: number; maxAngle: number };
+};
+// known ground coordinate reverse-projected onto the photo (display u,v)
+type Landmark = {
+    id: number; name: string; lat: number; lon: number; alt: number;
+    u: number; v: number; inFrame: boolean; behind: boolean; occluded: boolean | null;
 };
-type DemState = {
-    tiff?: GeoTIFF; img?: GeoTIFFImage; width?: number; height?: number;
-    originX?: number; originY?: number; resX?: number; resY?: number;
-    noData?: number | null; isGeographic4326?: boolean; unit?: string; summary?: string;
-} | null;
 
 export default function PixelToMapNoCanvas({
                                                enableOpenCV = false, opencvUrl = "/opencv/opencv.js",
@@ -70,6 +102,10 @@ export default function PixelToMapNoCanvas({
     const [p1, setP1] = useState(0);
     const [p2, setP2] = useState(0);
     const [k3, setK3] = useState(0);
+    const [k4, setK4] = useState(0);
+    const [lensModel, setLensModel] = useState<LensModel>("brown");
+    // coefficients set aside per lens model, so switching away and back restores them
+    const stashedDist = useRef<Partial<Record<LensModel, Distortion>>>({});
 
     // ------------ pose ------------
     const [lat, setLat] = useState<number>(0);
@@ -82,20 +118,22 @@ export default function PixelToMapNoCanvas({
     const [agl, setAgl] = useState<number>(0);
     const [cursorPos, setCursorPos] = useState<{x:number; y:number} | null>(null);
 
-    // --- Debug flags (quick orientation/intrinsics trials)
-    const [dbgFlipPitch, setDbgFlipPitch] = useState(false);
-    const [dbgFlipRoll, setDbgFlipRoll]   = useState(false);
-    const [dbgAltOrder, setDbgAltOrder]   = useState(false); // false: Rz*Rx*Ry, true: Rz*Ry*Rx
-    const [dbgAltBase, setDbgAltBase]     = useState(false); // false: [[1,0,0],[0,-1,0],[0,0,-1]] ; true: identity
-    const [dbgInvertV, setDbgInvertV]     = useState(false); // invert image v when normalizing
-    const [dbgYawOffset, setDbgYawOffset] = useState(0);     // degrees, adds to yaw
+    // --- Rotation convention: named profile per pose source, remembered per image
+    const [convChoice, setConvChoice] = useState<ConventionChoice>({ profile: DEFAULT_PROFILE });
+    const [convSource, setConvSource] = useState<"image" | "camera" | "metadata">();
+    const [imageKey, setImageKey] = useState("");
+    const convention = conventionFor(convChoice);
+    const [earth, setEarth] = useState<EarthModel>(FLAT_EARTH);
+    const [mount, setMount] = useState<MountConfig>(NO_MOUNT);
+    const [cameraKey, setCameraKey] = useState("");
+    const [sigmas, setSigmas] = useState<UncertaintySigmas>(DEFAULT_SIGMAS);
+    const [showEllipses, setShowEllipses] = useState(true);
 
 
     // ------------ UI / misc ------------
     const [pixelStr, setPixelStr] = useState("");
     const [out, setOut] = useState("Load the image, then click on it…");
-    const [metaDump, setMetaDump] = useState<Record<string, any> | null>(null);
-    const [orientation, setOrientation] = useState<string>("Horizontal (normal)");
+    const [orientation] = useState<string>("Horizontal (normal)");
     const [viewerOpen, setViewerOpen] = useState(false);
     const [open, setOpen] = useState(true);
     const [downloading, setDownloading] = useState(false);
@@ -103,15 +141,49 @@ export default function PixelToMapNoCanvas({
     // points for KML
     const [points, setPoints] = useState<HitPoint[]>([]);
     const [nameCounter, setNameCounter] = useState(1);
+    const [landmarks, setLandmarks] = useState<Landmark[]>([]);
+
+    // ---- ground control points (pose resection) ----
+    const [gcps, setGcps] = useState<Gcp[]>([]);
+    const [gcpMode, setGcpMode] = useState(false);
+    const [controlPoints, setControlPoints] = useState<NamedCoordinate[]>([]);
+    const [refineFocal, setRefineFocal] = useState(false);
+    const [refinePrincipal, setRefinePrincipal] = useState(false);
+
+    // ---- multi-view triangulation (one target clicked in several photos) ----
+    const [triMode, setTriMode] = useState(false);
+    const [triViews, setTriViews] = useState<TriView[]>([]);
+    const [triResult, setTriResult] = useState<TriangulationResult | null>(null);
 
     // ---- DEM handling ----
-    const [dem, setDem] = useState<DemState>(null);
+    const [dem, setDem] = useState<DemMosaic | null>(sharedDem);
+    const [{ sampling: demSampling, secondary: demSecondary }, setDemReading] = useState(sharedSampling);
     const [autoSampleDEM, setAutoSampleDEM] = useState<boolean>(true);
 
+    // ---- horizon / skyline ----
+    const [showHorizon, setShowHorizon] = useState(true);
+    const [maxRayRange, setMaxRayRange] = useState(0);  // m, 0 = unlimited
+    const [skyline, setSkyline] = useState<Skyline | null>(null);
+
+    // ---- viewshed ----
+    const [viewshed, setViewshed] = useState<Viewshed | null>(null);
+    const [showViewshedMask, setShowViewshedMask] = useState(true);
+    const [viewshedMaskImg, setViewshedMaskImg] = useState<{ url: string; width: number; height: number } | null>(null);
+
+    // ---- terrain profile under the last clicked ray ----
+    const [rayProf, setRayProf] = useState<{ profile: RayProfile; pixel: { u: number; v: number } } | null>(null);
+
+    // ---- vertical datums / geoid ----
+    const [geoid, setGeoid] = useState<GeoidGrid | null>(null);
+    const [camAltDatum, setCamAltDatum] = useState<VerticalDatum>("geoid");
+
+    // ---- camera library (sensor sizes + calibrations, matched on load) ----
+    const [{ list: cameraLib, error: cameraLibError }, setCameraLibLoad] = useState<LoadedLibrary>({ list: [], error: null });
+    const [photoMeta, setPhotoMeta] = useState<PhotoMetadata | null>(null);
+
     // Was orientation normalized?
-    const [metaOrig, setMetaOrig] = useState<Record<string, any> | null>(null);
-    const [oriWas, setOriWas] = useState<number | null>(null);
-    const [oriNormalized, setOriNormalized] = useState<boolean>(false);
+    const [oriWas] = useState<number | null>(null);
+    const [oriNormalized] = useState<boolean>(false);
     const [loadingImage, setLoadingImage] = useState(false);
 
     // ===================== (ALL YOUR ORIGINAL HELPERS BELOW — UNCHANGED) =====================
@@ -130,7 +202,7 @@ export default function PixelToMapNoCanvas({
         ctx.textAlign = "left"; ctx.textBaseline = "top";
         const padX = 8 * s, padY = 6 * s, gapFromMarker = 12 * s;
         const { w, h, lineH } = measureTextBlock(ctx, lines);
-        let boxW = w + padX * 2, boxH = h + padY * 2;
+        const boxW = w + padX * 2, boxH = h + padY * 2;
         let x = u + gapFromMarker, y = v - (boxH + gapFromMarker);
         if (imageW !== undefined && x + boxW > imageW - 4 * s) x = u - gapFromMarker - boxW;
         if (imageH !== undefined && y < 4 * s) y = v + gapFromMarker;
@@ -171,13 +243,23 @@ export default function PixelToMapNoCanvas({
             default: return { W: w, H: h };
         }
     }
-    function applyCalibrationPreset(preset: typeof CALIB_ILCE5100_6000x4000, imgW_now: number, imgH_now: number) {
+    function applyCalibrationPreset(preset: CalibrationPreset, imgW_now: number, imgH_now: number) {
         const sx = imgW_now / preset.W;
         const sy = imgH_now / preset.H;
         setFx(preset.fx * sx); setFy(preset.fy * sy);
         setCx(preset.cx * sx); setCy(preset.cy * sy);
         setK1(preset.k1); setK2(preset.k2); setP1(preset.p1); setP2(preset.p2); setK3(preset.k3);
-        setOut(prev => prev + `\nApplied ILCE-5100 calibration (${preset.W}x${preset.H}) → scaled to ${imgW_now}x${imgH_now}`);
+        setK4(preset.k4 ?? 0); setLensModel(preset.lensModel ?? "brown");
+        setOut(prev => prev + `\nApplied ${preset.name} calibration (${preset.W}x${preset.H}) → scaled to ${imgW_now}x${imgH_now}`);
+    }
+    // coefficients mean different things per model: the current ones are kept for
+    // their model and the next model gets its own back (zeros the first time)
+    function switchLensModel(next: LensModel) {
+        if (next === lensModel) return;
+        stashedDist.current[lensModel] = { k1, k2, p1, p2, k3, k4 };
+        const d = stashedDist.current[next] ?? { k1: 0, k2: 0, p1: 0, p2: 0, k3: 0, k4: 0 };
+        setK1(d.k1); setK2(d.k2); setP1(d.p1); setP2(d.p2); setK3(d.k3); setK4(d.k4 ?? 0);
+        setLensModel(next);
     }
     function rotateToLandscapeIfNeeded(canvas: HTMLCanvasElement) {
         if (canvas.height > canvas.width) {
@@ -214,110 +296,78 @@ export default function PixelToMapNoCanvas({
         } finally { URL.revokeObjectURL(url); }
     }
 
-    function distortNormXY(x: number, y: number) {
-        const r2 = x*x + y*y; const r4 = r2*r2, r6 = r4*r2;
-        const radial = 1 + k1*r2 + k2*r4 + k3*r6;
-        const x_tan = 2*p1*x*y + p2*(r2 + 2*x*x);
-        const y_tan = p1*(r2 + 2*y*y) + 2*p2*x*y;
-        return { xd: x*radial + x_tan, yd: y*radial + y_tan };
-    }
-    function undistortPixel(u: number, v: number, fx:number, fy:number, cx:number, cy:number) {
-        const xn = (u - cx)/fx; const yn = (v - cy)/fy;
-        let xu = xn, yu = yn;
-        for (let i=0; i<5; i++) {
-            const r2 = xu*xu + yu*yu; const r4 = r2*r2, r6 = r4*r2;
-            const radial = 1 + k1*r2 + k2*r4 + k3*r6;
-            const x_tan = 2*p1*xu*yu + p2*(r2 + 2*xu*xu);
-            const y_tan = p1*(r2 + 2*yu*yu) + 2*p2*xu*yu;
-            const x_est = xu*radial + x_tan; const y_est = yu*radial + y_tan;
-            const ex = x_est - xn; const ey = y_est - yn; xu -= ex; yu -= ey;
-        }
-        return { uu: xu*fx + cx, vv: yu*fy + cy };
+    function currentIntrinsics(): Intrinsics {
+        return resolveIntrinsics({
+            W: imgW, H: imgH, fx, fy, cx, cy,
+            dist: { k1, k2, p1, p2, k3, k4 }, lens: lensModel,
+        }, fovx);
+    }
+    function geoidN(latDeg: number, lonDeg: number): number | null {
+        return geoid ? geoidUndulation(geoid, latDeg, lonDeg) : null;
+    }
+    // the loaded DEM as every sampler reads it, geoid applied
+    const demView = dem ? openDem(dem, geoidN, demSampling, demSecondary) : null;
+    // camera altitude as entered (declared datum) → AMSL
+    function camAltAMSL() {
+        const N = geoidN(lat, lon);
+        return N === null ? Number(alt_m) : toOrthometric(Number(alt_m), camAltDatum, N);
+    }
+    function currentEarth(): EarthModel {
+        if (earth.kind === "flat" || !geoid) return earth;
+        return { ...earth, undulation: (la, lo) => geoidN(la, lo) ?? 0 };
+    }
+    function currentPose(override?: Partial<CameraPose>): CameraPose {
+        return {
+            lat: Number.isFinite(lat) ? lat : 0,
+            lon: Number.isFinite(lon) ? lon : 0,
+            alt: camAltAMSL() || 0,
+            yaw: yaw || 0, pitch: pitch || 0, roll: roll || 0,
+            mount,
+            ...override,
+        };
     }
 
+    function currentGround(useDem: boolean): GroundModel {
+        return useDem && demView
+            ? demGround(demView, groundAlt ?? 0)
+            : { kind: "flat", alt: Number(groundAlt) || 0 };
+    }
     async function projectOnDEM(uDisp: number, vDisp: number) {
-        const basic = (() => {
-            const { u, v } = uvDisplayToSensor(uDisp, vDisp);
-            const _fx = Number.isFinite(fx) && fx !== 0 ? fx : fxFromFovX(imgW, fovx);
-            const _fy = Number.isFinite(fy) && fy !== 0 ? fy : _fx;
-            const _cx = Number.isFinite(cx) ? cx : imgW/2;
-            const _cy = Number.isFinite(cy) ? cy : imgH/2;
-            let uu = u, vv = v;
-            if (k1 || k2 || k3 || p1 || p2) {
-                const uv = undistortPixel(u, v, _fx, _fy, _cx, _cy);
-                uu = uv.uu; vv = uv.vv;
-            }
-            const x = (uu - _cx)/_fx, y = (vv - _cy)/_fy;
-            const R_base = [[1,0,0],[0,-1,0],[0,0,-1]] as number[][];
-            const R_yaw   = Rz(deg2rad(yaw || 0));
-            const R_pitch = Rx(deg2rad(-(pitch || 0)));
-            const R_roll  = Ry(deg2rad(roll || 0));
-            const R_enu_cam = matMul(R_yaw, matMul(R_pitch, matMul(R_roll, R_base)));
-            const d_enu = normalize( matVec(R_enu_cam, [x, y, 1]) );
-            return { d_enu, _fx, _fy };
-        })();
-        if (!basic) return null;
-        const { d_enu } = basic;
-        const dz = d_enu[2];
-        if (Math.abs(dz) < 1e-6) return null;
-        let t = ( (groundAlt ?? 0) - (alt_m ?? 0) ) / dz;
-        if (!Number.isFinite(t) || t < 0) t = 1;
-        let latCur = lat, lonCur = lon;
-        for (let i=0; i<8; i++) {
-            const { mlat, mlon } = metersPerDeg(latCur);
-            const xE = t * d_enu[0]; const yN = t * d_enu[1];
-            const latGuess = lat + yN / mlat; const lonGuess = lon + xE / mlon;
-            const zGround = (dem ? await sampleDEM_AMSL(latGuess, lonGuess) : groundAlt) ?? groundAlt;
-            if (!Number.isFinite(zGround)) break;
-            const tNew = (zGround - (alt_m ?? 0)) / dz;
-            if (!Number.isFinite(tNew) || tNew < 0) break;
-            if (Math.abs(tNew - t) < 0.05) { return { lat: latGuess, lon: lonGuess, range: Math.hypot(xE, yN) }; }
-            t = tNew; latCur = latGuess; lonCur = lonGuess;
-        }
-        const { mlat, mlon } = metersPerDeg(latCur);
-        const xE = t * d_enu[0], yN = t * d_enu[1];
-        return { lat: lat + yN/mlat, lon: lon + xE/mlon, range: Math.hypot(xE, yN) };
-    }
-
-    const deg2rad = (d: number) => (d * Math.PI) / 180;
-    function Rx(a: number) { const c = Math.cos(a), s = Math.sin(a); return [[1,0,0],[0,c,-s],[0,s,c]] as number[][]; }
-    function Ry(a: number) { const c = Math.cos(a), s = Math.sin(a); return [[c,0,s],[0,1,0],[-s,0,c]] as number[][]; }
-    function Rz(a: number) { const c = Math.cos(a), s = Math.sin(a); return [[c,-s,0],[s,c,0],[0,0,1]] as number[][]; }
-    function matMul(A: number[][], B: number[][]) {
-        const R = [[0,0,0],[0,0,0],[0,0,0]] as number[][];
-        for (let i=0;i<3;i++) for (let j=0;j<3;j++)
-            R[i][j] = A[i][0]*B[0][j] + A[i][1]*B[1][j] + A[i][2]*B[2][j];
-        return R;
-    }
-    function matVec(A: number[][], v: number[]) {
+        const { u, v } = uvDisplayToSensor(uDisp, vDisp);
+        return projectPixel(u, v, currentPose(), currentIntrinsics(), currentGround(true), convention, currentEarth());
+    }
+    async function projectOnFlatGround(uDisp: number, vDisp: number) {
+        if (earth.kind === "flat") return project(uDisp, vDisp);
+        const { u, v } = uvDisplayToSensor(uDisp, vDisp);
+        return projectPixel(u, v, currentPose(), currentIntrinsics(), currentGround(false), convention, currentEarth());
+    }
+
+    // 1σ ellipse of a hit plus its 90% outline traced back onto the photo
+    async function hitUncertainty(uDisp: number, vDisp: number, hit: GroundHit, onDem: boolean) {
+        const { u, v } = uvDisplayToSensor(uDisp, vDisp);
+        const pose = currentPose(), K = currentIntrinsics(), earthNow = currentEarth();
+        const unc = await propagateUncertainty(u, v, pose, K, currentGround(onDem), sigmas, convention, earthNow, hit);
+        if (!unc || unc.unbounded) return { unc, ellipseUV: undefined };
+        const ellipseUV = ellipseOutline(hit.lat, hit.lon, unc)
+            .map(q => groundToPixel(q.lat, q.lon, hit.groundAlt, pose, K, convention, earthNow))
+            .filter(p => !p.behind)
+            .map(p => uvSensorToDisplay(p.u, p.v));
+        return { unc, ellipseUV };
+    }
+    function describeUncertainty(unc: ErrorEllipse | null) {
+        if (!unc) return [`Uncertainty: n/a`];
+        if (unc.unbounded) return [`Uncertainty: unbounded — a 1σ perturbation lifts the ray off the ground (near horizon)`];
+        const top = (Object.entries(unc.contributions) as [keyof UncertaintySigmas, number][])
+            .filter(([, m]) => m > 0)
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, 3)
+            .map(([k, m]) => `${k} ${m.toFixed(1)} m`)
+            .join(", ");
         return [
-            A[0][0]*v[0] + A[0][1]*v[1] + A[0][2]*v[2],
-            A[1][0]*v[0] + A[1][1]*v[1] + A[1][2]*v[2],
-            A[2][0]*v[0] + A[2][1]*v[1] + A[2][2]*v[2],
+            `Uncertainty: CE90=${unc.ce90.toFixed(1)} m · 1σ ellipse a=${unc.semiMajor.toFixed(1)} m, b=${unc.semiMinor.toFixed(1)} m, az=${unc.azimuth.toFixed(0)}°`,
+            `  largest sources: ${top || "none"}`,
         ];
     }
-    function normalize(v: number[]) { const n = Math.hypot(v[0], v[1], v[2]) || 1; return [v[0]/n, v[1]/n, v[2]/n]; }
-    function metersPerDeg(latDeg: number) {
-        const L = deg2rad(latDeg || 0);
-        const mlat = 111132.92 - 559.82*Math.cos(2*L) + 1.175*Math.cos(4*L) - 0.0023*Math.cos(6*L);
-        const mlon = 111412.84*Math.cos(L) - 93.5*Math.cos(3*L) + 0.118*Math.cos(5*L);
-        return { mlat, mlon };
-    }
-    function fxFromFovX(W: number, fovx_deg: number) {
-        const half = Math.tan(deg2rad((fovx_deg || 1e-6)/2));
-        return W/2 / Math.max(half, 1e-9);
-    }
-    function normalizeYawFromMeta(meta: Record<string, any>, fallback?: number): number | undefined {
-        const maker = String(meta.Make || meta.make || "").toUpperCase();
-        const model = String(meta.Model || meta.model || "").toUpperCase();
-        const raw =
-            numberFromMixedString(pickFirst(meta, ["GimbalYawDegree","FlightYawDegree","CameraYaw","Yaw"])) ?? fallback;
-        if (!Number.isFinite(raw)) return undefined;
-        const y = Number(raw);
-        const isCompassCW = maker.includes("DJI") || maker.includes("SONY");
-        const yawMath = isCompassCW ? (360 - (y % 360) + 360) % 360 : (y % 360);
-        return yawMath;
-    }
 
     function markerScale() {
         if (!imgW) return 1;
@@ -378,7 +428,7 @@ export default function PixelToMapNoCanvas({
         ctx.save();
         ctx.fillStyle = "#ffffff"; ctx.fillRect(x0, y0, W, H);
         const pad = Math.round(Math.max(16, H * 0.012));
-        let fs = Math.round(Math.max(12, Math.min(28, H * 0.022)));
+        const fs = Math.round(Math.max(12, Math.min(28, H * 0.022)));
         const lineH = Math.round(fs * 1.55);
         const headH = Math.round(fs * 1.9);
         const gapX = Math.round(pad * 0.9);
@@ -388,8 +438,6 @@ export default function PixelToMapNoCanvas({
         const sample = "#88 PXX  Lat 00.0000000  Lon 00.0000000";
         const colW = Math.ceil(mctx.measureText(sample).width) + pad;
         const rowsPerCol = Math.max(1, Math.floor((H - pad*2 - headH) / lineH));
-        const cols = Math.max(1, Math.ceil(pts.length / rowsPerCol));
-        const effectiveCols = Math.min(cols, Math.max(1, Math.floor((W - pad*2 + gapX) / (colW + gapX)))) || 1;
         ctx.font = `700 ${fs}px ui-monospace, Menlo, Consolas, monospace`;
         ctx.fillStyle = "#111"; ctx.textBaseline = "top";
         ctx.fillText("Legend (Lat/Lon)", x0 + pad, y0 + pad);
@@ -470,6 +518,27 @@ export default function PixelToMapNoCanvas({
         const body = points.map((p, idx) => {
             const name = `#${idx+1} ${p.name}`;
             const coord = toGoogleEarthCoord(p.lon, p.lat, p.groundAltAMSL);
+            const u = p.unc;
+            const uncHtml = !u ? "" : u.unbounded
+                ? "CE90: unbounded"
+                : `CE90: ${u.ce90.toFixed(1)} m<br/>
+        Ellipse 1σ: a=${u.semiMajor.toFixed(1)} m, b=${u.semiMinor.toFixed(1)} m, az=${u.azimuth.toFixed(1)}°`;
+            const t = p.triangulation;
+            const methodHtml = t
+                ? `Method: triangulated from ${t.views} photos (RMS miss ${t.rmsMiss.toFixed(2)} m, angle ${t.maxAngle.toFixed(1)}°)<br/>`
+                : p.source ? `Method: ${p.source === "dem" ? "DEM" : "flat ground"} projection${p.demMethod ? ` (${p.demMethod} sample)` : ""}<br/>` : "";
+            const data: [string, string][] = [];
+            if (p.source) data.push(["source", p.source]);
+            if (p.demMethod) data.push(["dem_sample", p.demMethod]);
+            if (t) data.push(["views", String(t.views)], ["rms_miss_m", t.rmsMiss.toFixed(2)]);
+            if (u && !u.unbounded) data.push(
+                ["ce90_m", u.ce90.toFixed(2)], ["semi_major_m", u.semiMajor.toFixed(2)],
+                ["semi_minor_m", u.semiMinor.toFixed(2)], ["azimuth_deg", u.azimuth.toFixed(2)],
+            );
+            const extData = !data.length ? "" : `
+      <ExtendedData>
+${data.map(([k, v]) => `        <Data name="${k}"><value>${v}</value></Data>`).join("\n")}
+      </ExtendedData>`;
             return `
     <Placemark>
       <name>${escapeXml(name)}</name>
@@ -481,8 +550,10 @@ export default function PixelToMapNoCanvas({
         Lon: ${p.lon.toFixed(7)}<br/>
         Alt AMSL: ${p.altAMSL.toFixed(2)}<br/>
         Ground AMSL: ${p.groundAltAMSL.toFixed(2)}<br/>
-        AGL: ${p.agl.toFixed(2)}
-      ]]></description>
+        AGL: ${p.agl.toFixed(2)}<br/>
+        ${methodHtml}
+        ${uncHtml}
+      ]]></description>${extData}
     </Placemark>`;
         }).join("\n");
         const footer = `  </Document>\n</kml>`;
@@ -503,16 +574,8 @@ export default function PixelToMapNoCanvas({
         URL.revokeObjectURL(url);
     }
 
-    function numberFromMixedString(v: any): number | undefined {
-        if (typeof v === "number" && Number.isFinite(v)) return v;
-        if (typeof v === "string") {
-            const m = v.match(/-?\d+(?:\.\d+)?/);
-            if (m) return parseFloat(m[0]);
-        }
-        return undefined;
-    }
     function parseDMSString(str: string): {value: number, ref?: string} | undefined {
-        const rx = /(-?\d+(?:\.\d+)?)\s*(?:deg|°)?\s*(\d+(?:\.\d+)?)?\s*(?:'|m)?\s*(\d+(?:\.\d+)?)?\s*(?:\"|s)?\s*([NSEW])?/i;
+        const rx = /(-?\d+(?:\.\d+)?)\s*(?:deg|°)?\s*(\d+(?:\.\d+)?)?\s*(?:'|m)?\s*(\d+(?:\.\d+)?)?\s*(?:"|s)?\s*([NSEW])?/i;
         const m = str.match(rx);
         if (!m) return undefined;
         const D = parseFloat(m[1]);
@@ -524,47 +587,42 @@ export default function PixelToMapNoCanvas({
         if (!ref && D < 0) dec = -dec;
         return { value: dec, ref };
     }
-    function toDecimalDegrees(value: any, ref?: string | null): number | undefined {
-        if (Array.isArray(value) && value.length >= 3) {
-            const [D,M,S] = value.map(Number);
-            if ([D,M,S].every(Number.isFinite)) {
-                let dec = Math.abs(D) + M/60 + S/3600;
-                if (ref && /[SW]/i.test(ref)) dec = -dec;
-                if (!ref && D < 0) dec = -dec;
-                return dec;
-            }
-        }
-        if (typeof value === "string") {
-            const dms = parseDMSString(value);
-            if (dms) return dms.value;
-            if (value.includes(",")) {
-                const parts = value.split(",").map((p) => parseFloat(p.trim()));
-                if (parts.length >= 3 && parts.every(Number.isFinite)) {
-                    let dec = Math.abs(parts[0]) + parts[1]/60 + parts[2]/3600;
-                    if (ref && /[SW]/i.test(ref)) dec = -dec;
-                    if (!ref && parts[0] < 0) dec = -dec;
-                    return dec;
-                }
+
+    // "lat, lon[, alt]" in decimal degrees, or a DMS pair with N/S/E/W
+    function parseCoordInput(str: string): { lat: number; lon: number; alt?: number } | null {
+        const t = str.trim();
+        if (!t) return null;
+        if (/[NSEW]/i.test(t)) {
+            const parts = t.match(/[^NSEW]*[NSEW]/gi) || [];
+            let la: number | undefined, lo: number | undefined;
+            for (const part of parts) {
+                const dms = parseDMSString(part.replace(/^[\s,;]+/, ""));
+                if (!dms) continue;
+                if (dms.ref === "N" || dms.ref === "S") la = dms.value; else lo = dms.value;
             }
+            const altM = t.match(/([NSEW])[\s,;]+(-?\d+(?:\.\d+)?)\s*m?\s*$/i);
+            return Number.isFinite(la) && Number.isFinite(lo)
+                ? { lat: la as number, lon: lo as number, alt: altM ? parseFloat(altM[2]) : undefined }
+                : null;
         }
-        const n = Number(value);
-        return Number.isFinite(n) ? n : undefined;
-    }
-    function pickFirst<T = number>(obj: any, keys: string[], convert?: (v: any) => T | undefined): T | undefined {
-        for (const k of keys) if (obj && k in obj) {
-            const v = obj[k];
-            const out = convert ? convert(v) : (v as T);
-            if (out !== undefined && out !== null && !(Number.isNaN(out as any))) return out;
-        }
-        return undefined;
+        const nums = t.split(/[,;\s]+/).map(parseFloat).filter(Number.isFinite);
+        if (nums.length < 2 || Math.abs(nums[0]) > 90 || Math.abs(nums[1]) > 180) return null;
+        return { lat: nums[0], lon: nums[1], alt: nums[2] };
     }
-    function parseUserComment(uc: any) {
-        if (typeof uc !== "string") return {} as any;
-        const kv: any = {};
-        const rx = /(Lat|Lon|Pitch|Roll|Yaw)\s*=\s*(-?\d+(?:\.\d+)?)/gi;
-        let m: RegExpExecArray | null;
-        while ((m = rx.exec(uc)) !== null) kv[m[1].toLowerCase()] = parseFloat(m[2]);
-        return kv;
+
+    function uvSensorToDisplay(u: number, v: number) {
+        if (oriNormalized) return { u, v };
+        const ori = (orientation || "").toLowerCase();
+        switch (ori) {
+            case "rotate 90 cw": case "right-top": case "6":
+                return { u: imgH - v, v: u };
+            case "rotate 270 cw": case "left-bottom": case "8":
+                return { u: v, v: imgW - u };
+            case "rotate 180": case "bottom-right": case "3":
+                return { u: imgW - u, v: imgH - v };
+            default:
+                return { u, v };
+        }
     }
 
     function uvDisplayToSensor(uDisp: number, vDisp: number) {
@@ -583,63 +641,41 @@ export default function PixelToMapNoCanvas({
     }
 
     // ------------ Projection to ground (static nadir) ------------
-    function project(uDisp: number, vDisp: number) {
+    function project(uDisp: number, vDisp: number, poseOverride?: Partial<CameraPose>) {
         const { u, v } = uvDisplayToSensor(uDisp, vDisp);
+        return projectPixelFlat(u, v, currentPose(poseOverride), currentIntrinsics(), Number(groundAlt) || 0, convention);
+    }
 
-        const _fx = Number.isFinite(fx) && fx !== 0 ? fx : fxFromFovX(imgW, fovx);
-        const _fy = Number.isFinite(fy) && fy !== 0 ? fy : _fx;
-        const _cx = Number.isFinite(cx) ? cx : imgW / 2;
-        const _cy = Number.isFinite(cy) ? cy : imgH / 2;
-
-        // undistort
-        let uU = u, vU = v;
-        if (k1 || k2 || k3 || p1 || p2) {
-            const uv = undistortPixel(u, v, _fx, _fy, _cx, _cy);
-            uU = uv.uu; vU = uv.vv;
-        }
-
-        // optional invert v (օգնում է, երբ y_cam ուղղվածությունն այլ է)
-        const x = (uU - _cx) / _fx;
-        const y = ((dbgInvertV ? (imgH - vU) : vU) - _cy) / _fy;
-
-        const baseLat = Number.isFinite(lat) ? lat : 0;
-        const baseLon = Number.isFinite(lon) ? lon : 0;
-
-        // base
-        const R_base = dbgAltBase
-            ? ([ [1,0,0],[0,1,0],[0,0,1] ] as number[][])
-            : ([ [1,0,0],[0,-1,0],[0,0,-1] ] as number[][]);
-
-        // angles (apply debug flips + yaw offset)
-        const yawDeg   = (yaw || 0) + (dbgYawOffset || 0);
-        const pitchDeg = dbgFlipPitch ? -(pitch || 0) : (pitch || 0);
-        const rollDeg  = dbgFlipRoll  ? -(roll  || 0) : (roll  || 0);
-
-        // երկու տարբեր ռոտացիոն հերթականություն՝ արագ փորձարկելու համար
-        const Rz_yaw = Rz(deg2rad(yawDeg));
-        const Rx_roll = Rx(deg2rad(rollDeg));
-        const Ry_pitch = Ry(deg2rad(pitchDeg));
-
-        // false => Rz * Rx * Ry (քո հինը), true => Rz * Ry * Rx (այլընտրանք)
-        const R_enu_cam = dbgAltOrder
-            ? matMul(Rz_yaw, matMul(Ry_pitch, matMul(Rx_roll, R_base)))
-            : matMul(Rz_yaw, matMul(Rx_roll,  matMul(Ry_pitch, R_base)));
-
-        const d_cam = normalize([x, y, 1]);
-        const d_enu = matVec(R_enu_cam, d_cam);
-
-        const dz = d_enu[2];
-        if (Math.abs(dz) < 1e-6) return null;
-
-        const camAlt = Number(alt_m) || 0;
-        const gAlt   = Number(groundAlt) || 0;
-        const t = (gAlt - camAlt) / dz;
-        if (t < 0) return null;
-
-        const xE = t * d_enu[0];
-        const yN = t * d_enu[1];
-        const { mlat, mlon } = metersPerDeg(baseLat);
-        return { lat: baseLat + yN / mlat, lon: baseLon + xE / mlon, range: Math.hypot(xE, yN) };
+    // ------------ Reverse projection: coordinate → photo pixel ------------
+    async function locateCoordinate(str: string) {
+        if (!imgW || !imgH) { setOut("Load an image first."); return; }
+        const c = parseCoordInput(str);
+        if (!c) { setOut(`Cannot parse coordinate: "${str}". Use "lat, lon[, alt]" or DMS.`); return; }
+        const pose = currentPose();
+        const alt = c.alt ?? (dem ? await sampleDEM_AMSL(c.lat, c.lon) : null) ?? (Number(groundAlt) || 0);
+        const hit = groundToPixel(c.lat, c.lon, alt, pose, currentIntrinsics(), convention, currentEarth());
+        const los = dem && !hit.behind
+            ? await lineOfSight(pose, c.lat, c.lon, alt, sampleDEM_AMSL, currentEarth(), 1, convention)
+            : null;
+        const disp = hit.behind ? { u: NaN, v: NaN } : uvSensorToDisplay(hit.u, hit.v);
+        const lm: Landmark = {
+            id: Date.now(), name: `L${landmarks.length + 1}`, lat: c.lat, lon: c.lon, alt,
+            u: disp.u, v: disp.v, inFrame: hit.inFrame, behind: hit.behind,
+            occluded: los ? los.blocked : null,
+        };
+        setLandmarks(prev => [...prev, lm]);
+        setOut([
+            `Landmark ${lm.name}: ${c.lat.toFixed(7)}, ${c.lon.toFixed(7)}, alt ${alt.toFixed(2)} m AMSL${c.alt === undefined ? " (from DEM/ground)" : ""}`,
+            hit.behind
+                ? `→ behind the camera (not visible)`
+                : `→ pixel (${disp.u.toFixed(1)}, ${disp.v.toFixed(1)})${hit.inFrame ? "" : " — outside the frame"}`,
+            `range=${hit.range.toFixed(1)} m`,
+            los === null
+                ? `occlusion: not checked (no DEM)`
+                : los.blocked
+                    ? `⚠ occluded by terrain ${los.at!.dist.toFixed(0)} m from camera (ground ${los.at!.ground.toFixed(1)} m > sight line ${los.at!.line.toFixed(1)} m)`
+                    : `line of sight clear`,
+        ].join("\n"));
     }
 
     function imgUVtoScreen(u: number, v: number, which: "preview" | "viewer") {
@@ -648,8 +684,12 @@ export default function PixelToMapNoCanvas({
         return { x: m.offX + u * m.S, y: m.offY + v * m.S };
     }
 
-    function autoFixPose() {
+    async function autoFixPose() {
         if (!imgW || !imgH) return;
+        if (gcps.filter(g => g.coord.trim()).length >= minControlPoints({ refineFocal, refinePrincipal })) {
+            await solvePose();
+            return;
+        }
         const u0 = imgW / 2, v0 = imgH / 2;
         type Conf = { pitch:number; roll:number; yaw:number; score:number; };
         const cand: Conf[] = [];
@@ -659,195 +699,377 @@ export default function PixelToMapNoCanvas({
         for (const yv of yawVars)
             for (const pv of pitchVars)
                 for (const rv of rollVars) {
-                    const bak = { yaw, pitch, roll };
-                    setYaw(yv); setPitch(pv); setRoll(rv);
-                    const hit = project(u0, v0) as any;
+                    const hit = project(u0, v0, { yaw: yv, pitch: pv, roll: rv });
                     let score = Number.POSITIVE_INFINITY;
                     if (hit) {
-                        const R_base = [[1,0,0],[0,-1,0],[0,0,-1]] as number[][];
-                        const R = matMul(Rz(deg2rad(yv)), matMul(Rx(deg2rad(-pv)), matMul(Ry(deg2rad(rv)), R_base)));
-                        const d_enu = matVec(R, normalize([0,0,1]));
+                        const d_enu = vecMul(cameraToENU({ yaw: yv, pitch: pv, roll: rv, mount }, convention), [0,0,1]);
                         const dz = Math.abs(d_enu[2]);
                         const dist = Math.max(1, hit.range || 1);
                         score = dist + (1/(dz+1e-6))*50;
                     }
                     cand.push({ pitch: pv, roll: rv, yaw: yv, score });
-                    setYaw(bak.yaw); setPitch(bak.pitch); setRoll(bak.roll);
                 }
         cand.sort((a,b)=>a.score-b.score);
         const best = cand[0];
         if (!isFinite(best.score)) { setOut("Auto-fix: no valid ground intersection. Check AMSL/AGL."); return; }
         setYaw(best.yaw); setPitch(best.pitch); setRoll(best.roll);
-        setOut(`Auto-fix → yaw=${best.yaw.toFixed(3)}  pitch=${best.pitch.toFixed(3)}  roll=${best.roll.toFixed(3)}`);
+        setOut(`Auto-fix → yaw=${best.yaw.toFixed(3)}  pitch=${best.pitch.toFixed(3)}  roll=${best.roll.toFixed(3)}` +
+            `\n(sign heuristic only — add ${minControlPoints({ refineFocal, refinePrincipal })}+ GCPs for a real pose solve)`);
+    }
+
+    // ------------ Space resection from ground control points ------------
+    async function loadControlFile(file: File) {
+        try {
+            const pts = parseControlFile(await file.text());
+            if (!pts.length) throw new Error("no \"name, lat, lon[, alt]\" lines found");
+            setControlPoints(pts);
+            setOut(prev => prev + `\nControl file: ${file.name} → ${pts.length} point(s)`);
+        } catch (err: any) {
+            setOut(`Control file load failed: ${err?.message || String(err)}`);
+        }
     }
+    async function solvePose() {
+        if (!imgW || !imgH) { setOut("Load an image first."); return; }
+        const ctrl: ControlPoint[] = [];
+        for (const g of gcps) {
+            if (!g.coord.trim()) continue;
+            const c = parseCoordInput(g.coord);
+            if (!c) { setOut(`GCP ${g.name}: cannot parse "${g.coord}".`); return; }
+            const alt = c.alt ?? (dem ? await sampleDEM_AMSL(c.lat, c.lon) : null) ?? (Number(groundAlt) || 0);
+            const { u, v } = uvDisplayToSensor(g.u, g.v);
+            ctrl.push({ id: g.id, u, v, lat: c.lat, lon: c.lon, alt });
+        }
+        const opts = { refineFocal, refinePrincipal };
+        const need = minControlPoints(opts);
+        if (ctrl.length < need) { setOut(`Resection needs at least ${need} GCPs with coordinates (have ${ctrl.length}).`); return; }
 
-    async function loadDEM(file: File) {
+        const pose0 = currentPose(), K0 = currentIntrinsics(), earthNow = currentEarth();
+        let res: ResectionResult;
         try {
-            const buf = await file.arrayBuffer();
-            const t = await fromArrayBuffer(buf);
-            const img = await t.getImage();
-            const width = img.getWidth();
-            const height = img.getHeight();
-            const tie = img.getTiePoints();
-            const scale = img.getFileDirectory().ModelPixelScale;
-            const geoKeys = (img as any).getGeoKeys?.() as any;
-            const noData = (img as any).fileDirectory?.GDAL_NODATA
-                ? parseFloat((img as any).fileDirectory.GDAL_NODATA)
-                : undefined;
-
-            let originX: number | undefined;
-            let originY: number | undefined;
-            let resX: number | undefined;
-            let resY: number | undefined;
-
-            if (tie && tie.length > 0 && scale && scale.length >= 2) {
-                const tp0 = tie[0];
-                originX = tp0.x; originY = tp0.y;
-                resX = scale[0]; resY = -Math.abs(scale[1]);
-            } else if ((img as any).getOrigin && (img as any).getResolution) {
-                const [ox, oy] = (img as any).getOrigin();
-                const [rx, ry] = (img as any).getResolution();
-                originX = ox; originY = oy; resX = rx; resY = ry;
-            } else {
-                throw new Error("DEM GeoTIFF missing tiepoints/pixel scale; cannot geolocate.");
+            res = solveResection(ctrl, pose0, K0, convention, earthNow, opts);
+            // why: EXIF angles may be far off (or absent); retry from a coarse orientation grid
+            if (res.rms > 5) {
+                const coarse = solveResection(ctrl, pose0, K0, convention, earthNow, { ...opts, coarseSearch: true });
+                if (coarse.rms < res.rms) res = coarse;
             }
-            const gtype = geoKeys?.GeographicTypeGeoKey;
-            const is4326 = (gtype === 4326) || (geoKeys?.ProjectedCSTypeGeoKey === 4326);
-            const unit = geoKeys?.VerticalUnits ? "metre" : "metre";
-            const summary = `DEM loaded: ${file.name}
-size=${width}x${height}
-origin(lon,lat)=(${originX?.toFixed(6)}, ${originY?.toFixed(6)})
-res(deg)=(${resX}, ${resY})
-CRS≈${is4326 ? "EPSG:4326" : "unknown"}
-noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
-            setDem({
-                tiff: t, img, width, height, originX, originY, resX, resY,
-                noData: Number.isFinite(noData as any) ? (noData as number) : null,
-                isGeographic4326: !!is4326, unit, summary
-            });
-            setOut(prev => prev + `\n${summary}`);
         } catch (err: any) {
-            setDem(null);
-            setOut(`DEM load failed: ${err?.message || String(err)}`);
+            setOut(`Resection failed: ${err?.message || String(err)}`);
+            return;
         }
+
+        const { pose, K } = res;
+        const N = geoidN(pose.lat, pose.lon);
+        // solved altitude is AMSL; store it back in the camera's declared datum
+        const altDeclared = N !== null && camAltDatum === "ellipsoid" ? pose.alt + N : pose.alt;
+        setLat(pose.lat); setLon(pose.lon); setAlt(altDeclared);
+        setYaw(pose.yaw); setPitch(pose.pitch); setRoll(pose.roll);
+        if (refineFocal) { setFx(K.fx); setFy(K.fy); }
+        if (refinePrincipal) { setCx(K.cx); setCy(K.cy); }
+        if (Number.isFinite(groundAlt)) setAgl(pose.alt - groundAlt);
+        setGcps(prev => prev.map(g => {
+            const r = res.residuals.find(x => x.id === g.id);
+            return r ? { ...g, residual: r.behind ? Infinity : r.err } : { ...g, residual: null };
+        }));
+
+        const sg = res.sigma;
+        setOut([
+            `Resection (${ctrl.length} GCPs, ${res.iterations} it, ${res.converged ? "converged" : "NOT converged"}): RMS=${res.rms.toFixed(2)} px`,
+            `lat=${pose.lat.toFixed(7)} lon=${pose.lon.toFixed(7)} alt=${pose.alt.toFixed(2)} m AMSL  (±${sg.east.toFixed(2)}/${sg.north.toFixed(2)}/${sg.up.toFixed(2)} m E/N/U)`,
+            `yaw=${pose.yaw.toFixed(3)}° pitch=${pose.pitch.toFixed(3)}° roll=${pose.roll.toFixed(3)}°  (±${sg.yaw.toFixed(3)}/${sg.pitch.toFixed(3)}/${sg.roll.toFixed(3)}°)`,
+            refineFocal ? `fx=${K.fx.toFixed(1)} fy=${K.fy.toFixed(1)} (±${sg.fx?.toFixed(1)}/${sg.fy?.toFixed(1)} px)` : `fx/fy kept`,
+            refinePrincipal ? `cx=${K.cx.toFixed(1)} cy=${K.cy.toFixed(1)} (±${sg.cx?.toFixed(1)}/${sg.cy?.toFixed(1)} px)` : `cx/cy kept`,
+            `Residuals (px, sensor du/dv):`,
+            ...res.residuals.map(r => {
+                const g = gcps.find(x => x.id === r.id);
+                return r.behind
+                    ? `  ${g?.name}: behind camera`
+                    : `  ${g?.name}: ${r.err.toFixed(2)}  (${r.du.toFixed(2)}, ${r.dv.toFixed(2)})`;
+            }),
+        ].join("\n"));
+    }
+
+    async function loadDEMTiles(files: File[], defaultEpsg?: number) {
+        // why: through the shared DEM, which the listener below copies into `dem`
+        const res = await loadSharedDemFiles(files, { defaultEpsg });
+        setOut(prev => [prev, describeLoad(res)].join("\n"));
+    }
+    async function loadSecondaryDEM(files: File[]) {
+        const res = await loadDemFiles(files, null);
+        if (res.mosaic) setSharedSampling({ secondary: res.mosaic });
+        setOut(prev => [prev, describeLoad(res)].join("\n"));
+    }
+    function setDemSampling(v: DemSampling) {
+        setSharedSampling({ sampling: v });
+    }
+    function removeDEMTile(name: string) {
+        setDem(removeTile(dem, name));
+    }
+    // synchronous while the blocks are resident; lazy tiles read theirs first.
+    // Each tile's vertical reference is applied inside the mosaic.
+    function sampleDEM_AMSL(latDeg: number, lonDeg: number): number | null | Promise<number | null> {
+        return demView ? demView.sample(latDeg, lonDeg) : null;
+    }
+    function setDEMVertical(name: string, v: DemVertical) {
+        setDem(setTileVertical(dem, name, v));
     }
-    function demLatLonToRC(d: NonNullable<DemState>, latDeg: number, lonDeg: number) {
-        if (!d.originX || !d.originY || !d.resX || !d.resY) return null;
-        const col = (lonDeg - d.originX) / d.resX;
-        const row = (latDeg - d.originY) / d.resY;
-        return { row, col };
-    }
-    async function sampleDEM_AMSL(latDeg: number, lonDeg: number): Promise<number | null> {
-        if (!dem?.img || dem.width === undefined || dem.height === undefined) return null;
-        if (dem.isGeographic4326 === false) return null;
-        const rc = demLatLonToRC(dem, latDeg, lonDeg);
-        if (!rc) return null;
-        const { row, col } = rc;
-        const r0 = Math.floor(row), c0 = Math.floor(col);
-        if (r0 < 0 || r0 >= (dem.height - 1) || c0 < 0 || c0 >= (dem.width - 1)) return null;
-        const winW = 2, winH = 2;
-        const window = [c0, r0, c0 + winW, r0 + winH] as [number, number, number, number];
-        const ras = await dem.img.readRasters({ window, width: winW, height: winH, interleave: true }) as Float32Array | number[];
-        const z00 = ras[0], z10 = ras[1], z01 = ras[2], z11 = ras[3];
-        const nd = dem.noData;
-        const ok = (v: number) => Number.isFinite(v) && (nd === null || v !== nd);
-        if (!ok(z00) || !ok(z10) || !ok(z01) || !ok(z11)) {
-            const candidates = [z00, z10, z01, z11].filter(ok) as number[];
-            return candidates.length ? candidates[0] : null;
+    async function loadGeoidFile(file: File) {
+        try {
+            const g = await loadGeoid(file);
+            setGeoid(g);
+            setOut(prev => prev + `\n${g.summary}`);
+        } catch (err: any) {
+            setGeoid(null);
+            setOut(`Geoid load failed: ${err?.message || String(err)}`);
         }
-        const dx = col - c0, dy = row - r0;
-        const z0 = z00 * (1 - dx) + z10 * dx;
-        const z1 = z01 * (1 - dx) + z11 * dx;
-        const z = z0 * (1 - dy) + z1 * dy;
-        return z + DEM_OFFSET_M;
     }
     async function relinkAGLWithDEM() {
         if (!dem || !Number.isFinite(lat) || !Number.isFinite(lon)) return;
         const z = await sampleDEM_AMSL(lat, lon);
         if (z === null) { setOut(prev=>prev + `\nDEM sample failed at camera GPS.`); return; }
+        const camAlt = camAltAMSL();
         setGroundAlt(z);
-        if (Number.isFinite(alt_m)) setAgl(alt_m - z);
-        setOut(prev=>prev + `\nDEM@Cam: groundAlt=${z.toFixed(2)} m AMSL → AGL=${(alt_m - z).toFixed(2)} m`);
+        if (Number.isFinite(camAlt)) setAgl(camAlt - z);
+        setOut(prev=>prev + `\nDEM@Cam: groundAlt=${z.toFixed(2)} m AMSL → AGL=${(camAlt - z).toFixed(2)} m`);
     }
     useEffect(() => {
         (async () => {
-            if (autoSampleDEM && dem && dem.isGeographic4326 !== false &&
+            if (autoSampleDEM && dem &&
                 Number.isFinite(lat) && Number.isFinite(lon) && Number.isFinite(alt_m)) {
                 await relinkAGLWithDEM();
             }
         })();
         // eslint-disable-next-line react-hooks/exhaustive-deps
-    }, [autoSampleDEM, dem, lat, lon, alt_m]);
+    }, [autoSampleDEM, dem, demSampling, demSecondary, lat, lon, alt_m, geoid, camAltDatum]);
 
-    // ======================= ՆՈՐ ՖՈՒՆԿՑԻԱՆԵՐ =======================
+    // skyline elevations belong to one camera position and DEM
+    useEffect(() => { setSkyline(null); }, [dem, demSampling, demSecondary, lat, lon, alt_m, geoid, camAltDatum, earth, mount]);
 
-    function calcRealFocalFromExif(meta: any, imgW: number, imgH: number) {
-        let focalMm = numberFromMixedString(pickFirst(meta, ["FocalLength"]));
+    useEffect(() => { loadCameraLibrary().then(setCameraLibLoad); }, []);
 
-        // Եթե չկա իրական focal length, փորձում ենք 35mm equivalent-ից հետ հաշվել
-        if (!Number.isFinite(focalMm) || focalMm <= 0) {
-            const f35 = numberFromMixedString(pickFirst(meta, ["FocalLengthIn35mmFormat", "FocalLengthIn35mmFilm"]));
-            if (Number.isFinite(f35) && f35 > 0) {
-                const model = String(meta.Model || "").toUpperCase();
-                const crop = model.includes("ILCE-") || model.includes("DMC-") || model.includes("E-M") ? 1.53 : 1.0;
-                focalMm = f35 / crop;
-            }
-        }
+    // one DEM for the whole app: whichever page loads it, the others see it
+    useEffect(() => { setSharedDem(dem); }, [dem]);
+    useEffect(() => onSharedDemChange(setDem), []);
+    useEffect(() => onSharedSamplingChange(setDemReading), []);
 
-        if (!Number.isFinite(focalMm) || focalMm <= 0) return null;
+    // a viewshed and its photo mask belong to one pose and image
+    useEffect(() => {
+        setViewshed(null);
+        setViewshedMaskImg(null);
+    }, [dem, demSampling, demSecondary, lat, lon, alt_m, geoid, camAltDatum, earth, mount, yaw, pitch, roll, fx, fy, cx, cy, imgW, imgH]);
+    useEffect(() => { setRayProf(null); }, [dem, demSampling, demSecondary, geoid]);
+    // the photo mask is drawn with the same pose the viewshed was computed from
+    async function runViewshed(opts: ViewshedOptions) {
+        if (!dem || !imgW || !imgH) { setOut("Load an image and a DEM first."); return; }
+        const pose = currentPose(), K = currentIntrinsics(), earthModel = currentEarth();
+        const vs = await computeViewshed(pose, K, sampleDEM_AMSL, convention, earthModel, { ...opts, cellSize: dem.cellSize });
+        const corner = uvSensorToDisplay(imgW, imgH), origin = uvSensorToDisplay(0, 0);
+        setViewshed(vs);
+        setViewshedMaskImg(viewshedMask(
+            vs, pose, K, convention, earthModel, uvSensorToDisplay,
+            Math.max(corner.u, origin.u), Math.max(corner.v, origin.v)
+        ));
+        setOut(prev => prev + `\n${describeViewshed(vs)}`);
+    }
 
-        const sensorWidthMm = String(meta.Model || "").toUpperCase().includes("ILCE-") ? 23.5 : 36.0;
-        const fx = focalMm * (imgW / sensorWidthMm);
-        const fy = focalMm * (imgH / sensorWidthMm);
+    // A defaults to the camera centre; heights are above the DEM unless B gives its own altitude
+    async function checkSightLine(fromStr: string, toStr: string, heightA: number | null, heightB: number): Promise<SightCheck | string> {
+        if (!dem) return "Load a DEM first.";
+        const b = parseCoordInput(toStr);
+        if (!b) return `Cannot parse B: "${toStr}". Use "lat, lon[, alt]" or DMS.`;
+        const a = fromStr.trim() ? parseCoordInput(fromStr) : null;
+        if (fromStr.trim() && !a) return `Cannot parse A: "${fromStr}".`;
+
+        const cam = cameraCentre(currentPose(), convention);
+        const A = a ?? { lat: cam.lat, lon: cam.lon };
+        const groundA = await sampleDEM_AMSL(A.lat, A.lon);
+        const groundB = await sampleDEM_AMSL(b.lat, b.lon);
+        const altA = heightA === null && !a
+            ? cam.alt ?? 0
+            : a?.alt ?? (groundA === null ? null : groundA + (heightA ?? 0));
+        const altB = b.alt ?? (groundB === null ? null : groundB + heightB);
+        if (altA === null || altB === null) return "No DEM height at A or B; give the altitude as \"lat, lon, alt\".";
+
+        const pa = { lat: A.lat, lon: A.lon, alt: altA }, pb = { lat: b.lat, lon: b.lon, alt: altB };
+        const profile = await sightLineProfile(pa, pb, sampleDEM_AMSL, currentEarth(), { cellSize: dem.cellSize });
+        return { a: pa, b: pb, profile };
+    }
 
-        return { fx, fy, focalMm };
+    // horizon + skyline in display pixels for the viewer overlay
+    function horizonOverlay() {
+        if (!imgW || !imgH) return null;
+        const pose = currentPose(), K = currentIntrinsics();
+        const toDisplay = (lines: PixelPolyline[]) => lines.map(l => l.map(p => uvSensorToDisplay(p.u, p.v)));
+        return {
+            horizon: toDisplay(horizonLine(pose, K, Number(groundAlt) || 0, convention, currentEarth())),
+            skyline: skyline ? toDisplay(skylineLine(skyline, pose, K, convention)) : [],
+        };
     }
 
-    function applySonyStaticCamHeuristics(meta: any) {
-        const model = String(meta.Model || "").toUpperCase();
-        const isSony = model.includes("ILCE-") || model.includes("DSC-") || model.includes("ZV-") || model.includes("RX");
+    async function traceSkyline() {
+        if (!dem || !imgW || !imgH) { setOut("Load an image and a DEM first."); return; }
+        const sky = await demSkyline(currentPose(), currentIntrinsics(), sampleDEM_AMSL, Number(groundAlt) || 0, convention, currentEarth());
+        setSkyline(sky);
+        const ridge = sky.samples.reduce((a, c) => c.el > a.el ? c : a, { az: 0, el: -90, dist: 0 });
+        setOut(prev => prev + `\nDEM skyline: ${sky.samples.length} azimuths` +
+            (Number.isFinite(ridge.dist) && ridge.dist > 0 ? ` · highest ${ridge.el.toFixed(2)}° at az ${ridge.az.toFixed(1)}°, ${(ridge.dist / 1000).toFixed(2)} km` : ""));
+    }
 
-        if (isSony && Math.abs(pitch) < 0.5) {
-            setPitch(-1.8);
-            setOut(prev => prev + `\nAuto-applied Sony static cam pitch offset: -1.8° (typical for A5xxx/A6xxx/RX/ZV)`);
+    // ======================= ՆՈՐ ՖՈՒՆԿՑԻԱՆԵՐ =======================
+
+    // Intrinsics for a photo: its camera-library calibration, else focal length over sensor size
+    function applyLibraryIntrinsics(md: PhotoMetadata, match: CameraMatch | null, W: number, H: number) {
+        const k = intrinsicsFor(md, match, W, H);
+        if (!k) {
+            const who = [md.make, md.model].filter(Boolean).join(" ") || "this camera";
+            setOut(prev => prev + `\nNo focal length in the metadata and no camera-library entry for ${who} — intrinsics left as they were; add the camera under Camera library.`);
+            return;
         }
+        if (k.kind === "calibration") {
+            applyCalibrationPreset(k.preset, W, H);
+            setOut(prev => prev + `\nIntrinsics from ${k.source}`);
+            return;
+        }
+        setFx(k.fx);
+        setFy(k.fy);
+        // why: distortion left from another camera's calibration would warp this photo
+        setK1(0); setK2(0); setP1(0); setP2(0); setK3(0); setK4(0); setLensModel("brown");
+        stashedDist.current = {};
+        setOut(prev => prev + `\nIntrinsics from ${k.source}: ${k.focalMM === null ? "" : `${k.focalMM.toFixed(2)}mm → `}fx=${k.fx.toFixed(1)}, fy=${k.fy.toFixed(1)}; distortion reset to none (Brown-Conrady)`);
     }
 
-// ======================= ՈՒՂՂՎԱԾ loadFile =======================
+    function updateCameraLibrary(list: CameraEntry[]) {
+        // why: saving now would overwrite the entries that did not read
+        if (cameraLibError) {
+            setOut(prev => prev + `\nCamera library not saved: the file did not read cleanly (${cameraLibError}). Fix it and press Reload.`);
+            return;
+        }
+        setCameraLibLoad({ list, error: null });
+        saveCameraLibrary(list).catch(err => setOut(prev => prev + `\nCamera library not saved: ${err?.message || String(err)}`));
+    }
 
-    async function loadFile(f: File) {
-        setLoadingImage(true);
-        try {
-            let meta: any = {};
-            try {
-                meta = await exifr.parse(f, { xmp: true, tiff: true, userComment: true, makerNote: true }) || {};
-            } catch (e) {
-                console.warn("EXIF parse failed", e);
-            }
-            setMetaOrig(meta);
+    function applyCameraEntry(e: CameraEntry) {
+        if (!imgW || !imgH || !photoMeta) { setOut("Load an image first."); return; }
+        applyLibraryIntrinsics(photoMeta, { entry: e, score: 0, why: ["chosen by hand"] }, imgW, imgH);
+    }
+
+    // the intrinsics in use, as a calibration at the photo's resolution
+    function currentCalibration(): CalibrationPreset | null {
+        if (!imgW || !imgH) return null;
+        const focalMM = photoMeta?.intrinsics.focalMM;
+        return {
+            name: photoMeta?.model || "current", W: imgW, H: imgH, fx, fy, cx, cy, k1, k2, p1, p2, k3, k4, lensModel,
+            ...(focalMM ? { focalMM } : {}), createdAt: new Date().toISOString(),
+        };
+    }
+
+    // ------------ Multi-view triangulation ------------
+    // the current photo's click, frozen with the pose it was made with
+    function addTriangulationView(uDisp: number, vDisp: number) {
+        if (!imageKey) { setOut("Load an image first."); return; }
+        const { u, v } = uvDisplayToSensor(uDisp, vDisp);
+        const view: TriView = {
+            key: imageKey, id: imageKey, name: imageKey.split("|")[0], u, v,
+            pose: currentPose(), K: currentIntrinsics(), conv: convention,
+        };
+        const next = [...triViews.filter(x => x.key !== imageKey), view];
+        setTriViews(next);
+        setTriResult(null);
+        setOut(`Triangulation: target in ${view.name} at (${u.toFixed(1)}, ${v.toFixed(1)}) — ${next.length} view(s).` +
+            (next.length < 2 ? `\nLoad another photo of the same target and click it there.` : `\nAdd more photos or press Triangulate.`));
+    }
 
-            // GPS & Altitude
-            const latRef = meta.GPSLatitudeRef ?? "N";
-            const lonRef = meta.GPSLongitudeRef ?? "E";
+    function triMarkDisplay() {
+        const own = triViews.find(x => x.key === imageKey);
+        return own ? uvSensorToDisplay(own.u, own.v) : null;
+    }
 
-            const mLat = pickFirst(meta, ["GPSLatitude", "latitude"], v => toDecimalDegrees(v, latRef));
-            const mLon = pickFirst(meta, ["GPSLongitude", "longitude"], v => toDecimalDegrees(v, lonRef));
-            if (Number.isFinite(mLat)) setLat(mLat as number);
-            if (Number.isFinite(mLon)) setLon(mLon as number);
+    async function triangulateTarget() {
+        let res: TriangulationResult;
+        try { res = triangulate(triViews, currentEarth()); }
+        catch (err: any) { setOut(`Triangulation failed: ${err?.message || String(err)}`); return; }
+        setTriResult(res);
+
+        // marker on the photo shown now: its own click, else the solved point reprojected
+        const own = triViews.find(x => x.key === imageKey);
+        const px = own ?? groundToPixel(res.lat, res.lon, res.alt, currentPose(), currentIntrinsics(), convention, currentEarth());
+        const disp = uvSensorToDisplay(px.u, px.v);
+        const sample = demView ? await demView.sampleDetail(res.lat, res.lon) : null;
+        const ground = sample?.z ?? null;
+        const camAlt = camAltAMSL();
+        const name = `T${nameCounter}`; setNameCounter(c => c + 1);
+        const point: HitPoint = {
+            id: Date.now(), name, pixelU: disp.u, pixelV: disp.v,
+            lat: res.lat, lon: res.lon, altAMSL: camAlt, groundAltAMSL: res.alt, agl: camAlt - res.alt,
+            geoidN: geoidN(res.lat, res.lon), source: "triangulated", demMethod: sample?.method,
+            triangulation: { views: triViews.length, rmsMiss: res.rmsMiss, maxAngle: res.maxAngle },
+        };
+        setPoints(prev => [...prev, point]);
+        setOut([
+            `Triangulated ${name} from ${triViews.length} photos:`,
+            `Lat: ${res.lat.toFixed(7)}  (${toDMS(res.lat, true)})`,
+            `Lon: ${res.lon.toFixed(7)}  (${toDMS(res.lon, false)})`,
+            `Height: ${res.alt.toFixed(2)} m AMSL` +
+                (ground === null ? "" : ` · ${(res.alt - ground).toFixed(2)} m above DEM ground (${ground.toFixed(2)} m, ${sample?.method} sample)`),
+            `Ray misses: ${res.misses.map(m => `${m.id.toString().split("|")[0]} ${m.behind ? "behind camera" : m.miss.toFixed(2) + " m"}`).join(", ")}`,
+            `RMS miss ${res.rmsMiss.toFixed(2)} m · widest intersection angle ${res.maxAngle.toFixed(1)}°`,
+            ...(res.maxAngle < 3 ? [`⚠ Rays nearly parallel — height is poorly constrained; use photos from further apart.`] : []),
+            ...(res.misses.some(m => m.behind) ? [`⚠ Solved point lies behind a camera — check the clicks and poses.`] : []),
+            `Google Earth coord (lon,lat,alt_AMSL):`,
+            `  ${toGoogleEarthCoord(res.lon, res.lat, res.alt)}`,
+        ].join("\n"));
+    }
 
-            const absAlt = numberFromMixedString(pickFirst(meta, ["GPSAltitude", "AbsoluteAltitude"]));
-            const relAlt = numberFromMixedString(pickFirst(meta, ["RelativeAltitude"]));
-            if (Number.isFinite(absAlt)) setAlt(absAlt as number);
-            if (Number.isFinite(relAlt)) setAgl(relAlt as number);
+    function chooseConvention(c: ConventionChoice) {
+        setConvChoice(c);
+        setConvSource("image");
+        saveConventionChoice(imageKey, cameraKey.trim(), c);
+    }
 
-            // Pose
-            const yawRaw = normalizeYawFromMeta(meta);
-            if (Number.isFinite(yawRaw)) setYaw(yawRaw as number);
+    async function runConventionCheck() {
+        if (!imgW || !imgH) { setOut("Load an image first."); return null; }
+        return frameSelfCheck(currentPose(), currentIntrinsics(), currentGround(!!dem), convention, currentEarth());
+    }
 
-            const pitchRaw = numberFromMixedString(pickFirst(meta, ["GimbalPitchDegree", "FlightPitchDegree", "CameraPitch", "Pitch"]));
-            const rollRaw = numberFromMixedString(pickFirst(meta, ["GimbalRollDegree", "FlightRollDegree", "CameraRoll", "Roll"]));
-            if (Number.isFinite(pitchRaw)) setPitch(pitchRaw as number);
-            if (Number.isFinite(rollRaw)) setRoll(rollRaw as number);
+    function saveMountForCamera() {
+        const key = cameraKey.trim();
+        if (!key) return;
+        saveMount(key, mount);
+        setOut(prev => prev + `\nMount saved for "${key}": ${describeMount(mount)}`);
+    }
+
+// ======================= ՈՒՂՂՎԱԾ loadFile =======================
+
+    async function loadFile(f: File) {
+        setLoadingImage(true);
+        try {
+            const md = await readPhotoMetadata(f);
+            const meta = md.raw;
+
+            // per-camera mount (boresight / lever arm)
+            const key = cameraKeyFromMeta(meta);
+            const m = mountForCamera(key);
+            setCameraKey(key);
+            setMount(m);
+            if (m !== NO_MOUNT) setOut(prev => prev + `\nMount for "${key}": ${describeMount(m)}`);
+
+            // rotation convention: this image's saved profile, else the camera's, else from metadata
+            const ik = imageKeyFromFile(f);
+            const picked = choiceForImage(ik, key, meta);
+            setImageKey(ik);
+            setConvChoice(picked.choice);
+            setConvSource(picked.source);
+            setOut(prev => prev + `\nOrientation convention: ${CONVENTION_PROFILES[picked.choice.profile].label} (${picked.source})`);
+
+            // GPS, altitude and pose from whichever vendor tags the photo carries
+            const { pose } = md;
+            if (pose.lat !== undefined) setLat(pose.lat);
+            if (pose.lon !== undefined) setLon(pose.lon);
+            if (pose.alt !== undefined) setAlt(pose.alt);
+            if (pose.relAlt !== undefined) setAgl(pose.relAlt);
+            // kept as the compass heading; the convention profile says which way it turns
+            if (pose.yaw !== undefined) setYaw(((pose.yaw % 360) + 360) % 360);
+            if (pose.pitch !== undefined) setPitch(pose.pitch);
+            if (pose.roll !== undefined) setRoll(pose.roll);
 
             // Նկարը բեռնում ենք
             const norm = await normalizeOnUpload(f, true);
@@ -863,23 +1085,19 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
                 setCx(img.naturalWidth / 2);
                 setCy(img.naturalHeight / 2);
 
-                // Ինտրինսիկները EXIF-ից
-                const fromExif = calcRealFocalFromExif(meta, img.naturalWidth, img.naturalHeight);
-                if (fromExif) {
-                    setFx(fromExif.fx);
-                    setFy(fromExif.fy);
-                    setOut(prev => prev + `\nIntrinsics from EXIF: ${fromExif.focalMm.toFixed(2)}mm → fx=${fromExif.fx.toFixed(1)}, fy=${fromExif.fy.toFixed(1)}`);
-                } else {
-                    applyCalibrationPreset(CALIB_ILCE5100_6000x4000, img.naturalWidth, img.naturalHeight);
-                    setOut(prev => prev + `\nUsed preset calibration (ILCE-5100)`);
-                }
-
-                // Sony static cam pitch offset
-                applySonyStaticCamHeuristics(meta);
+                // Ինտրինսիկները camera library-ից կամ EXIF-ից
+                const sized = extractMetadata(meta, { width: img.naturalWidth, height: img.naturalHeight });
+                setPhotoMeta(sized);
+                setOut(prev => prev + `\n${describeMetadata(sized)}`);
+                const match = matchCamera(cameraLib, sized, img.naturalWidth, img.naturalHeight);
+                if (match) setOut(prev => prev + `\nCamera library: ${describeCameraEntry(match.entry)} (${match.why.join(", ")})`);
+                applyLibraryIntrinsics(sized, match, img.naturalWidth, img.naturalHeight);
 
                 setPoints([]);
                 setNameCounter(1);
-                setOut(prev => prev + `\nImage ready! Click to measure — accuracy will be 1–8m up to 4000m AGL`);
+                setLandmarks([]);
+                setGcps([]);
+                setOut(prev => prev + `\nImage ready! Click to measure — each point reports its CE90 from the uncertainty inputs`);
 
                 if (autoSampleDEM && dem && Number.isFinite(lat) && Number.isFinite(lon) && Number.isFinite(alt_m)) {
                     await relinkAGLWithDEM();
@@ -973,6 +1191,16 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
         if (!imgEl) { setOut("Load an image first."); return; }
         const uv = pickUV(e, "viewer");
         if (!uv) { setOut("Click is outside image."); return; }
+        if (gcpMode) {
+            const g: Gcp = { id: Date.now(), name: `G${gcps.length + 1}`, u: uv.u, v: uv.v, coord: "" };
+            setGcps(prev => [...prev, g]);
+            setOut(`GCP ${g.name} at pixel (${uv.u.toFixed(1)}, ${uv.v.toFixed(1)}) — enter its coordinate in the GCP table.`);
+            return;
+        }
+        if (triMode) {
+            addTriangulationView(uv.u, uv.v);
+            return;
+        }
         if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
             setOut("No GPS in metadata. Fill Latitude/Longitude first.");
             return;
@@ -981,21 +1209,46 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
             const z = await sampleDEM_AMSL(lat, lon);
             if (z !== null) {
                 setGroundAlt(z);
-                if (Number.isFinite(alt_m)) setAgl(alt_m - z);
+                if (Number.isFinite(alt_m)) setAgl(camAltAMSL() - z);
             }
         }
-        let hit: { lat: number; lon: number; range?: number } | null = null;
-        if (dem) hit = await projectOnDEM(uv.u, uv.v);
-        if (!hit) hit = project(uv.u, uv.v) as any;
+        const sensorUV = uvDisplayToSensor(uv.u, uv.v);
+        const hz = testAboveHorizon(sensorUV.u, sensorUV.v, currentPose(), currentIntrinsics(), Number(groundAlt) || 0,
+            convention, currentEarth(), skyline);
+        if (hz.above) {
+            setOut(`⛔ Click is above the ${hz.by === "skyline" ? "DEM skyline" : "horizon"} ` +
+                `(ray ${hz.elevation.toFixed(2)}° vs ${hz.limit.toFixed(2)}°) — no ground there, point not created.` +
+                (dem && !skyline ? `\nTrace the DEM skyline to allow clicks on terrain above the camera horizon.` : ""));
+            return;
+        }
+        let hit: GroundHit | null = null;
+        let onDem = false;
+        if (dem) {
+            hit = await projectOnDEM(uv.u, uv.v);
+            onDem = !!hit;
+            // why: drawn before the range check so flagged clicks and misses can be explained too
+            const profile = await rayProfile(sensorUV.u, sensorUV.v, currentPose(), currentIntrinsics(),
+                currentGround(true) as Extract<GroundModel, { kind: "dem" }>, hit, convention, currentEarth(),
+                { maxRange: maxRayRange || undefined });
+            setRayProf({ profile, pixel: sensorUV });
+        }
+        if (!hit) hit = await projectOnFlatGround(uv.u, uv.v);
         if (!hit) { setOut("Ray didn’t hit ground."); return; }
+        if (maxRayRange > 0 && hit.range > maxRayRange) {
+            setOut(`⚠ Near-horizon click: ground hit ${(hit.range / 1000).toFixed(2)} km away exceeds the max ray range ` +
+                `of ${(maxRayRange / 1000).toFixed(2)} km — flagged, not stored.\n` +
+                `(${hit.lat.toFixed(7)}, ${hit.lon.toFixed(7)}; ray ${hz.elevation.toFixed(2)}° vs horizon ${hz.limit.toFixed(2)}°)`);
+            return;
+        }
+        const { unc, ellipseUV } = await hitUncertainty(uv.u, uv.v, hit, onDem);
         if (autoSampleDEM && dem) {
             const z = await sampleDEM_AMSL(lat, lon);
             if (z !== null) {
                 setGroundAlt(z);
-                if (Number.isFinite(alt_m)) setAgl(alt_m - z);
+                if (Number.isFinite(alt_m)) setAgl(camAltAMSL() - z);
             }
         } else {
-            if (Number.isFinite(alt_m) && Number.isFinite(agl)) setGroundAlt(alt_m - agl);
+            if (Number.isFinite(alt_m) && Number.isFinite(agl)) setGroundAlt(camAltAMSL() - agl);
         }
         if (!Number.isFinite(alt_m) || !Number.isFinite(groundAlt)) {
             setOut("Set Altitude (AMSL) and either Ground Alt (AMSL) or Height AGL.");
@@ -1003,11 +1256,19 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
         }
         const decLat = hit.lat; const decLon = hit.lon;
         const dmsLat = toDMS(decLat, true); const dmsLon = toDMS(decLon, false);
-        const gePoint = toGoogleEarthCoord(decLon, decLat, groundAlt);
+        // why: the terrain at the hit, not the ground under the camera (groundAlt); one
+        // DEM read gives both the stored height and how it was sampled
+        const sample = onDem && demView ? await demView.sampleDetail(decLat, decLon) : null;
+        const pointAlt = sample?.z ?? hit.groundAlt;
+        const demMethod = sample?.method;
+        const gePoint = toGoogleEarthCoord(decLon, decLat, pointAlt);
         const id = Date.now(); const name = `P${nameCounter}`; setNameCounter(c => c + 1);
+        const camAlt = camAltAMSL();
+        const hitN = geoidN(decLat, decLon);
         const newPoint: HitPoint = {
             id, name, pixelU: uv.u, pixelV: uv.v,
-            lat: decLat, lon: decLon, altAMSL: alt_m, groundAltAMSL: groundAlt, agl: alt_m - groundAlt
+            lat: decLat, lon: decLon, altAMSL: camAlt, groundAltAMSL: pointAlt, agl: camAlt - pointAlt,
+            geoidN: hitN, unc, ellipseUV, source: onDem ? "dem" : "flat", demMethod,
         };
         setPoints(prev => [...prev, newPoint]);
         setOut([
@@ -1016,11 +1277,23 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
             `Lon: ${decLon.toFixed(7)}  (${dmsLon})`,
             `Google Earth coord (lon,lat,alt_AMSL):`,
             `  ${gePoint}`,
-            `groundAlt=${Number(groundAlt).toFixed(2)} m; alt=${Number(alt_m).toFixed(2)} m; AGL=${(alt_m - groundAlt).toFixed(2)} m`,
-            `yaw=${Number(yaw).toFixed(2)}°, pitch=${Number(pitch).toFixed(2)}°, roll=${Number(roll).toFixed(2)}°`,
-            `fx=${Number(fx).toFixed(2)}, fy=${Number(fy).toFixed(2)}, cx=${Number(cx).toFixed(2)}, cy=${Number(cy).toFixed(2)}`,
+            ...describeUncertainty(unc),
+            `ground at hit=${pointAlt.toFixed(2)} m; alt=${camAlt.toFixed(2)} m; camera above hit=${(camAlt - pointAlt).toFixed(2)} m (AMSL)`,
+            `ground under camera=${Number(groundAlt).toFixed(2)} m AMSL`,
+            geoid
+                ? `Vertical: cam alt=${camAltDatum === "ellipsoid" ? "ellipsoidal" : "AMSL"}; N@hit=${hitN === null ? "n/a" : hitN.toFixed(2) + " m"} (${geoid.name})`
+                : `Vertical: no geoid loaded; ellipsoidal heights taken as AMSL`,
+            ...(dem ? tilesAt(dem, decLat, decLon).map(t => `  DEM ${t.name}: ${describeVertical(t.vertical)}`) : []),
+            ...(onDem ? [`DEM sample at hit: ${demMethod ?? "void"} (${describeSampling(demSampling, demSecondary)})`] : []),
+            `yaw=${Number(yaw).toFixed(2)}°, pitch=${Number(pitch).toFixed(2)}°, roll=${Number(roll).toFixed(2)}° (${CONVENTION_PROFILES[convChoice.profile].label})`,
+            `Mount (${cameraKey || "unnamed camera"}): ${describeMount(mount)}`,
+            `fx=${Number(fx).toFixed(2)}, fy=${Number(fy).toFixed(2)}, cx=${Number(cx).toFixed(2)}, cy=${Number(cy).toFixed(2)}; lens=${lensModel}`,
             `orientation: ${orientation}`,
+            hit.flatDelta !== undefined
+                ? `Earth model: WGS84 ellipsoid (k=${earth.kind === "ellipsoid" ? earth.refraction : 0}) · slant=${hit.slantRange?.toFixed(1)} m · Δ vs flat-earth=${hit.flatDelta.toFixed(2)} m`
+                : `Earth model: flat (local tangent plane)`,
             dem?.summary ? `DEM: ${dem.summary.split("\n")[0]}` : `DEM: (none)`,
+            ...(hit.status ? [`Ray intersection: ${hit.status}${hit.status === "nodata" ? " ⚠ crossing inside a DEM nodata gap" : ""}`] : []),
             `Saved as ${name}.`
         ].join("\n"));
     };
@@ -1032,11 +1305,14 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
             lat={lat} setLat={setLat}
             lon={lon} setLon={setLon}
             alt_m={alt_m} setAlt={setAlt}
+            camAltDatum={camAltDatum} setCamAltDatum={setCamAltDatum}
+            camN={geoidN(lat, lon)}
             groundAlt={groundAlt} setGroundAlt={setGroundAlt}
             agl={agl} setAgl={setAgl}
             yaw={yaw} setYaw={setYaw}
             pitch={pitch} setPitch={setPitch}
             roll={roll} setRoll={setRoll}
+            poseLabels={CONVENTION_PROFILES[convChoice.profile].axes}
             autoFixPose={autoFixPose}
             imgW={imgW} imgH={imgH}
             fx={fx} setFx={setFx}
@@ -1048,10 +1324,12 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
             p1={p1} setP1={setP1}
             p2={p2} setP2={setP2}
             k3={k3} setK3={setK3}
+            k4={k4} setK4={setK4}
+            lensModel={lensModel} setLensModel={switchLensModel}
             fovx={fovx} setFovx={setFovx}
             onApplyIntrinsics={()=>{
                 if (!imgW) return;
-                const _fx = fxFromFovX(imgW, fovx || 63);
+                const _fx = fxFromFovX(imgW, fovx || 63, lensModel);
                 setFx(_fx); setFy(_fx); setCx(imgW/2); setCy(imgH/2);
                 setOut("Intrinsics updated from FOVx.");
             }}
@@ -1061,10 +1339,7 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
 
     const GoogleEarthToolsPanel = (
         <GoogleEarthTools
-            imgW={imgW} imgH={imgH}
             points={points} setPoints={setPoints} setOut={setOut}
-            applyCalibrationPreset={applyCalibrationPreset}
-            CALIB_ILCE5100_6000x4000={CALIB_ILCE5100_6000x4000}
             toGoogleEarthCoord={toGoogleEarthCoord}
             toDMS={toDMS}
             copy={copy}
@@ -1121,14 +1396,94 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
                         dem={dem}
                         autoSampleDEM={autoSampleDEM}
                         setAutoSampleDEM={setAutoSampleDEM}
-                        loadDEM={loadDEM}
+                        loadDEMTiles={loadDEMTiles}
+                        removeTile={removeDEMTile}
+                        clearDEM={() => { clearMosaic(dem); setDem(null); }}
+                        geoid={geoid} loadGeoid={loadGeoidFile}
+                        setVertical={setDEMVertical}
                         relinkAGLWithDEM={relinkAGLWithDEM}
+                        sampling={demSampling} setSampling={setDemSampling}
+                        secondary={demSecondary} loadSecondary={loadSecondaryDEM}
+                        clearSecondary={() => setSharedSampling({ secondary: null })}
                         lat={lat} lon={lon}
                     />
                 </div>
 
                 {/* Middle */}
-                <div className={s.panel}>{PoseIntrinsicsPanel}</div>
+                <div className={s.panel}>
+                    {PoseIntrinsicsPanel}
+                    <div className={s.sep} />
+                    <MountBlock
+                        mount={mount} setMount={setMount}
+                        cameraKey={cameraKey} setCameraKey={setCameraKey}
+                        saveMount={saveMountForCamera}
+                    />
+                    <div className={s.sep} />
+                    <ConventionBlock
+                        choice={convChoice} setChoice={chooseConvention} source={convSource}
+                        runSelfCheck={runConventionCheck}
+                    />
+                    <div className={s.sep} />
+                    <EarthModelBlock earth={earth} setEarth={setEarth} />
+                    <div className={s.sep} />
+                    <HorizonBlock
+                        showHorizon={showHorizon} setShowHorizon={setShowHorizon}
+                        maxRayRange={maxRayRange} setMaxRayRange={setMaxRayRange}
+                        dip={horizonDip(camAltAMSL() - (Number(groundAlt) || 0), currentEarth())}
+                        hasDem={!!dem} skyline={skyline} traceSkyline={traceSkyline}
+                    />
+                    <div className={s.sep} />
+                    <ViewshedBlock
+                        hasDem={!!dem} hasImage={!!imgW}
+                        lat={lat} lon={lon}
+                        viewshed={viewshed} runViewshed={runViewshed}
+                        showMask={showViewshedMask} setShowMask={setShowViewshedMask}
+                        checkSightLine={checkSightLine}
+                    />
+                    <div className={s.sep} />
+                    <ProfileBlock profile={rayProf?.profile ?? null} pixel={rayProf?.pixel ?? null} />
+                    <div className={s.sep} />
+                    <CalibrationBlock
+                        enableOpenCV={enableOpenCV} opencvUrl={opencvUrl}
+                        imgW={imgW} imgH={imgH}
+                        applyPreset={applyCalibrationPreset}
+                        setOut={setOut}
+                    />
+                    <div className={s.sep} />
+                    <CameraLibraryBlock
+                        library={cameraLib} setLibrary={updateCameraLibrary}
+                        loadError={cameraLibError} reload={() => loadCameraLibrary().then(setCameraLibLoad)}
+                        match={photoMeta ? matchCamera(cameraLib, photoMeta, imgW, imgH) : null}
+                        photoEntry={() => photoMeta ? entryFromPhoto(photoMeta, imgW, imgH) : null}
+                        currentCalibration={currentCalibration}
+                        applyEntry={applyCameraEntry}
+                        download={download}
+                        setOut={setOut}
+                    />
+                    <div className={s.sep} />
+                    <GcpBlock
+                        gcps={gcps} setGcps={setGcps}
+                        gcpMode={gcpMode} setGcpMode={setGcpMode}
+                        controlPoints={controlPoints} loadControlFile={loadControlFile}
+                        refineFocal={refineFocal} setRefineFocal={setRefineFocal}
+                        refinePrincipal={refinePrincipal} setRefinePrincipal={setRefinePrincipal}
+                        minPoints={minControlPoints({ refineFocal, refinePrincipal })}
+                        solvePose={solvePose}
+                    />
+                    <div className={s.sep} />
+                    <TriangulationBlock
+                        triMode={triMode} setTriMode={setTriMode}
+                        views={triViews} result={triResult} currentKey={imageKey}
+                        onTriangulate={triangulateTarget}
+                        onRemoveView={key => { setTriViews(prev => prev.filter(x => x.key !== key)); setTriResult(null); }}
+                        onClear={() => { setTriViews([]); setTriResult(null); }}
+                    />
+                    <div className={s.sep} />
+                    <UncertaintyBlock
+                        sigmas={sigmas} setSigmas={setSigmas}
+                        showEllipses={showEllipses} setShowEllipses={setShowEllipses}
+                    />
+                </div>
 
                 {/* Right */}
                 <div className={s.panel}>
@@ -1151,6 +1506,13 @@ noData=${Number.isFinite(noData as any) ? noData : "n/a"}`;
                 blobUrl={blobUrl} imgW={imgW} imgH={imgH}
                 scale={scale} setScale={setScale} tx={tx} setTx={setTx} ty={ty} setTy={setTy}
                 points={points} imgUVtoScreen={imgUVtoScreen}
+                showEllipses={showEllipses}
+                horizon={viewerOpen && showHorizon ? horizonOverlay() : null}
+                viewshedMask={viewerOpen && showViewshedMask ? viewshedMaskImg : null}
+                landmarks={landmarks} onLocateCoord={locateCoordinate}
+                gcps={gcps}
+                triMark={triMode ? triMarkDisplay() : null}
+                clearLandmarks={() => setLandmarks([])}
                 cursorPos={cursorPos} pixelStr={pixelStr}
                 MAX_SCALE={MAX_SCALE} MIN_SCALE={MIN_SCALE}
                 downloadAnnotatedImage={downloadAnnotatedImage}
@@ -3,32 +3,64 @@
 // ============================================================================
 import React from "react";
 import s from "./PixelToMapNoCanvas.module.scss";
+import { LENS_MODELS, LensModel } from "../../utils/lens";
+
+// division-model coefficients are conventionally written λ
+const PARAM_LABELS: Record<LensModel, Record<string, string>> = {
+    brown: {},
+    fisheye: {},
+    division: { k1: "λ1", k2: "λ2" },
+};
 
 export default function PoseIntrinsicsBlock({
                                                 // pose
                                                 lat, setLat, lon, setLon, alt_m, setAlt, groundAlt, setGroundAlt, agl, setAgl,
-                                                yaw, setYaw, pitch, setPitch, roll, setRoll,
+                                                camAltDatum, setCamAltDatum, camN,
+                                                yaw, setYaw, pitch, setPitch, roll, setRoll, poseLabels,
                                                 autoFixPose,
                                                 // intrinsics
                                                 imgW, imgH, fx, setFx, fy, setFy, cx, setCx, cy, setCy,
-                                                k1, setK1, k2, setK2, p1, setP1, p2, setP2, k3, setK3,
+                                                lensModel, setLensModel,
+                                                k1, setK1, k2, setK2, p1, setP1, p2, setP2, k3, setK3, k4, setK4,
                                                 fovx, setFovx, onApplyIntrinsics,
                                                 // exif orientation
                                                 oriNormalized, orientation, oriWas
                                             }: any) {
+    // ellipsoidal camera altitude → AMSL needs N at the camera; without a geoid it is taken as-is
+    const altOffset = camAltDatum === "ellipsoid" && Number.isFinite(camN) ? camN : 0;
+    const altAMSL = alt_m - altOffset;
+    const coeffs: Record<string, [number, (v: number) => void]> = {
+        k1: [k1, setK1], k2: [k2, setK2], p1: [p1, setP1], p2: [p2, setP2], k3: [k3, setK3], k4: [k4, setK4],
+    };
+    const lens = LENS_MODELS[lensModel as LensModel] ?? LENS_MODELS.brown;
     return (
         <>
             <h3 className={s.h3}>Pose (NADIR)</h3>
             {num("Latitude (°)", lat, setLat, 1e-7)}
             {num("Longitude (°)", lon, setLon, 1e-7)}
-            {num("Altitude (m, AMSL)", alt_m, (v:number)=>{ setAlt(v); setGroundAlt(v - agl); })}
             <div className={s.grid2}>
-                {num("Ground Alt (m, AMSL)", groundAlt, (v:number)=>{ setGroundAlt(v); setAgl(alt_m - v); })}
-                {num("Height AGL (m)", agl, (v:number)=>{ setAgl(v); setGroundAlt(alt_m - v); })}
+                {num(camAltDatum === "ellipsoid" ? "Altitude (m, ellipsoidal)" : "Altitude (m, AMSL)", alt_m,
+                    (v:number)=>{ setAlt(v); setGroundAlt(v - altOffset - agl); })}
+                <label className={s.lbl}>
+                    Camera altitude datum
+                    <select className={s.input} value={camAltDatum} onChange={e=>setCamAltDatum(e.target.value)}>
+                        <option value="geoid">AMSL (orthometric)</option>
+                        <option value="ellipsoid">WGS84 ellipsoid (GNSS)</option>
+                    </select>
+                </label>
+            </div>
+            <div className={s.monoDim}>
+                {Number.isFinite(camN)
+                    ? `Geoid N @cam = ${camN.toFixed(2)} m → alt AMSL ${altAMSL.toFixed(2)} m · ellipsoidal ${(altAMSL + camN).toFixed(2)} m`
+                    : camAltDatum === "ellipsoid" ? "⚠ No geoid at camera — ellipsoidal altitude used as AMSL" : "No geoid loaded"}
+            </div>
+            <div className={s.grid2}>
+                {num("Ground Alt (m, AMSL)", groundAlt, (v:number)=>{ setGroundAlt(v); setAgl(altAMSL - v); })}
+                {num("Height AGL (m)", agl, (v:number)=>{ setAgl(v); setGroundAlt(altAMSL - v); })}
             </div>
-            {num("Yaw (°)",   yaw,   setYaw,   0.01)}
-            {num("Pitch (°, +down)", pitch, setPitch, 0.01)}
-            {num("Roll (°, +right)", roll,  setRoll,  0.01)}
+            {num(poseLabels?.yaw ?? "Yaw (°)",   yaw,   setYaw,   0.01)}
+            {num(poseLabels?.pitch ?? "Pitch (°, +down)", pitch, setPitch, 0.01)}
+            {num(poseLabels?.roll ?? "Roll (°, +right)", roll,  setRoll,  0.01)}
             <button className={s.btn} onClick={autoFixPose}>Auto-fix pose</button>
 
             <h3 className={s.h3}>Intrinsics</h3>
@@ -39,11 +71,19 @@ export default function PoseIntrinsicsBlock({
                 {num("fy (px)", fy, setFy, 0.01)}
                 {num("cx (px)", cx, setCx, 0.01)}
                 {num("cy (px)", cy, setCy, 0.01)}
-                {num("k1", k1, setK1, 1e-7)}
-                {num("k2", k2, setK2, 1e-7)}
-                {num("p1", p1, setP1, 1e-7)}
-                {num("p2", p2, setP2, 1e-7)}
-                {num("k3", k3, setK3, 1e-7)}
+                <label className={s.lbl}>
+                    Lens model
+                    {/* the parent keeps each model's coefficients, switching back restores them */}
+                    <select className={s.input} value={lensModel} onChange={e=>setLensModel(e.target.value)}>
+                        {(Object.keys(LENS_MODELS) as LensModel[]).map(m => (
+                            <option key={m} value={m}>{LENS_MODELS[m].label}</option>
+                        ))}
+                    </select>
+                </label>
+                {lens.params.map(k => {
+                    const [value, set] = coeffs[k];
+                    return <React.Fragment key={k}>{num(PARAM_LABELS[lensModel as LensModel]?.[k] ?? k, value, set, 1e-7)}</React.Fragment>;
+                })}
             </div>
             {num("FOVx (°) → auto fx/fy", fovx, setFovx, 0.01)}
             <button className={s.btn} onClick={onApplyIntrinsics}>Apply intrinsics</button>
@@ -0,0 +1,69 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/ProfileBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { RayProfile, describeRayProfile } from "../../utils/rayProfile";
+
+export default function ProfileBlock({ profile, pixel }: { profile: RayProfile | null; pixel: { u: number; v: number } | null }) {
+    return (
+        <>
+            <h3 className={s.h3}>Terrain profile along the ray</h3>
+            {profile && pixel ? (
+                <>
+                    <div className={s.monoDim}>Last click, pixel ({pixel.u.toFixed(1)}, {pixel.v.toFixed(1)})</div>
+                    <ProfileChart profile={profile} />
+                    <pre className={s.preSmall}>{describeRayProfile(profile)}</pre>
+                </>
+            ) : (
+                <div className={s.monoDim}>Click the photo with a DEM loaded to see the ground under the ray.</div>
+            )}
+        </>
+    );
+}
+
+// Distance along the ground track → x, height AMSL → y
+function ProfileChart({ profile }: { profile: RayProfile }) {
+    const W = 420, H = 180, pad = 28;
+    const q = profile.samples;
+    if (q.length < 2) return null;
+    const maxD = q[q.length - 1].dist || 1;
+    const heights = q.flatMap(p => p.ground === null ? [p.ray] : [p.ray, p.ground]);
+    // why: the ray starts far above a long profile; clamp to the terrain band plus the hit
+    const lo = Math.min(...heights);
+    const hi = Math.max(...q.map(p => p.ground ?? -Infinity), profile.hit?.ground ?? -Infinity, lo + 10);
+    const top = hi + (hi - lo) * 0.6;
+    const X = (d: number) => pad + (d / maxD) * (W - pad - 6);
+    const Y = (h: number) => H - pad + 6 - ((Math.min(h, top) - lo) / (top - lo)) * (H - pad);
+
+    // ground as filled runs, broken at voids
+    const runs: string[] = [];
+    let run: string[] = [];
+    const close = () => {
+        if (run.length > 1) runs.push(`${run[0].split(",")[0]},${Y(lo)} ${run.join(" ")} ${run[run.length - 1].split(",")[0]},${Y(lo)}`);
+        run = [];
+    };
+    for (const p of q) {
+        if (p.ground === null) { close(); continue; }
+        run.push(`${X(p.dist)},${Y(p.ground)}`);
+    }
+    close();
+
+    return (
+        <svg className={s.profileChart} viewBox={`0 0 ${W} ${H}`}>
+            {[0.25, 0.5, 0.75, 1].map(f => (
+                <line key={f} className={s.profileGrid} x1={X(maxD * f)} y1={6} x2={X(maxD * f)} y2={H - pad + 6} />
+            ))}
+            {runs.map((pts, i) => <polygon key={i} className={s.profileGround} points={pts} />)}
+            <polyline className={s.profileRay} points={q.map(p => `${X(p.dist)},${Y(p.ray)}`).join(" ")} />
+            {profile.nearMisses.map((m, i) => (
+                <circle key={i} className={s.profileMiss} cx={X(m.dist)} cy={Y(q.find(p => p.dist >= m.dist)?.ground ?? lo)} r={5} />
+            ))}
+            {profile.hit && <circle className={s.profileHit} cx={X(profile.hit.dist)} cy={Y(profile.hit.ground)} r={4} />}
+            <text className={s.checkLabel} x={2} y={12}>{top.toFixed(0)} m</text>
+            <text className={s.checkLabel} x={2} y={H - pad + 4}>{lo.toFixed(0)} m</text>
+            <text className={s.checkLabel} x={pad} y={H - 4}>0</text>
+            <text className={s.checkLabel} x={W - 60} y={H - 4}>{maxD >= 1000 ? `${(maxD / 1000).toFixed(2)} km` : `${maxD.toFixed(0)} m`}</text>
+        </svg>
+    );
+}
@@ -0,0 +1,65 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/TriangulationBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { RayObservation, TriangulationResult } from "../../utils/triangulation";
+
+// One photo's click on the target, with the pose/intrinsics it was made with
+export type TriView = RayObservation & { key: string; name: string };
+
+export default function TriangulationBlock({
+                                               triMode, setTriMode, views, result, currentKey,
+                                               onTriangulate, onRemoveView, onClear,
+                                           }: {
+    triMode: boolean;
+    setTriMode: (v: boolean) => void;
+    views: TriView[];
+    result: TriangulationResult | null;
+    currentKey: string;
+    onTriangulate: () => void;
+    onRemoveView: (key: string) => void;
+    onClear: () => void;
+}) {
+    const missOf = (v: TriView) => result?.misses.find(m => m.id === v.key);
+    return (
+        <>
+            <h3 className={s.h3}>Multi-view triangulation</h3>
+            <label className={s.chk}>
+                <input type="checkbox" checked={triMode} onChange={e => setTriMode(e.target.checked)} />
+                Click the target in each photo (instead of projecting to ground)
+            </label>
+            <div className={s.pointsTableWrap}>
+                <table className={s.tbl}>
+                    <thead><tr><th>Photo</th><th>Pixel (u,v)</th><th>Miss m</th><th></th></tr></thead>
+                    <tbody>
+                    {views.map(v => {
+                        const m = missOf(v);
+                        return (
+                            <tr key={v.key}>
+                                <td>{v.name}{v.key === currentKey ? " ●" : ""}</td>
+                                <td>({Math.round(v.u)}, {Math.round(v.v)})</td>
+                                <td>{!m ? "—" : m.behind ? "behind" : m.miss.toFixed(2)}</td>
+                                <td><button className={s.btnDanger} onClick={() => onRemoveView(v.key)}>✕</button></td>
+                            </tr>
+                        );
+                    })}
+                    {!views.length && (<tr><td colSpan={4} className={s.monoDim}>— no views yet —</td></tr>)}
+                    </tbody>
+                </table>
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={views.length < 2} onClick={onTriangulate}>
+                    Triangulate ({views.length} view{views.length === 1 ? "" : "s"})
+                </button>
+                <button className={s.btnDanger} disabled={!views.length} onClick={onClear}>New target</button>
+            </div>
+            {result && (
+                <div className={s.monoDim}>
+                    {result.lat.toFixed(7)}, {result.lon.toFixed(7)} · {result.alt.toFixed(2)} m AMSL ·
+                    RMS miss {result.rmsMiss.toFixed(2)} m · widest angle {result.maxAngle.toFixed(1)}°
+                </div>
+            )}
+        </>
+    );
+}
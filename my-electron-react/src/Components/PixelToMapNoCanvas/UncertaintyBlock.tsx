@@ -0,0 +1,53 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/UncertaintyBlock.tsx
+// ============================================================================
+import React from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import { UncertaintySigmas, DEFAULT_SIGMAS } from "../../utils/uncertainty";
+
+const FIELDS: [keyof UncertaintySigmas, string, number][] = [
+    ["gpsH", "GPS horizontal σ (m)", 0.1],
+    ["gpsV", "GPS altitude σ (m)", 0.1],
+    ["yaw", "Yaw σ (°)", 0.01],
+    ["pitch", "Pitch σ (°)", 0.01],
+    ["roll", "Roll σ (°)", 0.01],
+    ["focal", "Focal σ (px)", 1],
+    ["principal", "Principal point σ (px)", 1],
+    ["pixel", "Pixel picking σ (px)", 0.1],
+    ["dem", "DEM / ground σ (m)", 0.1],
+];
+
+export default function UncertaintyBlock({
+                                             sigmas, setSigmas, showEllipses, setShowEllipses,
+                                         }: {
+    sigmas: UncertaintySigmas;
+    setSigmas: (v: UncertaintySigmas) => void;
+    showEllipses: boolean;
+    setShowEllipses: (v: boolean) => void;
+}) {
+    return (
+        <>
+            <h3 className={s.h3}>Uncertainty (1σ inputs)</h3>
+            <div className={s.grid2}>
+                {FIELDS.map(([k, label, step]) => (
+                    <label key={k} className={s.lbl}>
+                        {label}
+                        <input
+                            type="number" min={0} step={step}
+                            value={sigmas[k]}
+                            onChange={e => setSigmas({ ...sigmas, [k]: Math.max(0, parseFloat(e.target.value) || 0) })}
+                            className={s.input}
+                        />
+                    </label>
+                ))}
+            </div>
+            <div className={s.rowBtns}>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={showEllipses} onChange={e => setShowEllipses(e.target.checked)} />
+                    Show 90% error ellipses on image
+                </label>
+                <button className={s.btn} onClick={() => setSigmas(DEFAULT_SIGMAS)}>Reset sigmas</button>
+            </div>
+        </>
+    );
+}
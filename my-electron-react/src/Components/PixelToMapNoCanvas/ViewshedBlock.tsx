@@ -0,0 +1,134 @@
+// ============================================================================
+// FILE: src/components/PixelToMapNoCanvas/ViewshedBlock.tsx
+// ============================================================================
+import React, { useEffect, useRef, useState } from "react";
+import s from "./PixelToMapNoCanvas.module.scss";
+import MapOverlay, { MapOverlayHandle } from "../MapOverlay";
+import { Viewshed, ViewshedOptions, SightPoint, SightProfile, describeViewshed, describeSightLine, renderViewshed } from "../../utils/viewshed";
+
+export type SightCheck = { a: SightPoint; b: SightPoint; profile: SightProfile };
+
+export default function ViewshedBlock({
+                                          hasDem, hasImage, lat, lon,
+                                          viewshed, runViewshed, showMask, setShowMask, checkSightLine,
+                                      }: {
+    hasDem: boolean;
+    hasImage: boolean;
+    lat: number;
+    lon: number;
+    viewshed: Viewshed | null;
+    runViewshed: (opts: ViewshedOptions) => Promise<void>;
+    showMask: boolean;
+    setShowMask: (v: boolean) => void;
+    checkSightLine: (from: string, to: string, heightA: number | null, heightB: number) => Promise<SightCheck | string>;
+}) {
+    const mapRef = useRef<MapOverlayHandle | null>(null);
+    const [maxRange, setMaxRange] = useState(5000);
+    const [step, setStep] = useState(0.25);
+    const [targetHeight, setTargetHeight] = useState(0);
+    const [clipToFov, setClipToFov] = useState(true);
+    const [opacity, setOpacity] = useState(0.7);
+    const [running, setRunning] = useState(false);
+
+    const [from, setFrom] = useState("");
+    const [to, setTo] = useState("");
+    const [heightA, setHeightA] = useState("");
+    const [heightB, setHeightB] = useState(0);
+    const [sight, setSight] = useState<string | null>(null);
+
+    useEffect(() => {
+        const map = mapRef.current;
+        if (!map) return;
+        map.setViewshedLayer(viewshed ? renderViewshed(viewshed) : null);
+        if (viewshed) map.setMarker(viewshed.lat, viewshed.lon);
+    }, [viewshed]);
+    // after the layer effect, so a fresh layer takes the slider's opacity too
+    useEffect(() => { mapRef.current?.setViewshedOpacity(opacity); }, [viewshed, opacity]);
+
+    async function run() {
+        setRunning(true);
+        try { await runViewshed({ maxRange, step, targetHeight, clipToFov }); } finally { setRunning(false); }
+    }
+
+    async function check() {
+        const hA = heightA.trim() === "" ? null : parseFloat(heightA);
+        const res = await checkSightLine(from, to, Number.isFinite(hA) ? hA : null, heightB);
+        if (typeof res === "string") { setSight(res); mapRef.current?.setSightLine(null); return; }
+        setSight(describeSightLine(res.profile));
+        const worst = res.profile.obstructions[0]?.worst;
+        mapRef.current?.setSightLine(res.a, res.b, worst);
+        if (!viewshed) mapRef.current?.flyTo(res.a.lat, res.a.lon, 14);
+    }
+
+    return (
+        <>
+            <h3 className={s.h3}>Viewshed / line of sight</h3>
+            <div className={s.grid2}>
+                <label className={s.lbl}>
+                    Max range (m)
+                    <input type="number" min={100} step={500} className={s.input}
+                           value={maxRange} onChange={e => setMaxRange(Math.max(100, parseFloat(e.target.value) || 0))} />
+                </label>
+                <label className={s.lbl}>
+                    Azimuth step (°)
+                    <input type="number" min={0.05} step={0.05} className={s.input}
+                           value={step} onChange={e => setStep(Math.max(0.05, parseFloat(e.target.value) || 0.25))} />
+                </label>
+                <label className={s.lbl}>
+                    Target height above ground (m)
+                    <input type="number" min={0} step={0.5} className={s.input}
+                           value={targetHeight} onChange={e => setTargetHeight(Math.max(0, parseFloat(e.target.value) || 0))} />
+                </label>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={clipToFov} onChange={e => setClipToFov(e.target.checked)} />
+                    Clip to the photo's field of view
+                </label>
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={!hasDem || !hasImage || running} onClick={run}>
+                    {running ? "Computing viewshed…" : "Compute viewshed"}
+                </button>
+                <label className={s.chk}>
+                    <input type="checkbox" checked={showMask} disabled={!viewshed} onChange={e => setShowMask(e.target.checked)} />
+                    Mask on photo (viewer)
+                </label>
+                <label className={s.lbl}>
+                    Layer opacity
+                    <input type="range" min={0} max={1} step={0.05} value={opacity}
+                           onChange={e => setOpacity(Number(e.target.value))} />
+                </label>
+            </div>
+            <div className={s.monoDim}>
+                {viewshed ? describeViewshed(viewshed) : hasDem ? "Viewshed not computed." : "Load a DEM first."}
+                <br />Green: terrain the camera sees · red: hidden behind nearer terrain.
+            </div>
+            <MapOverlay ref={mapRef} className={s.viewshedMap} />
+
+            <div className={s.grid2}>
+                <label className={s.lbl}>
+                    From (A)
+                    <input className={s.input} placeholder={`camera (${lat.toFixed(5)}, ${lon.toFixed(5)})`}
+                           value={from} onChange={e => setFrom(e.target.value)} />
+                </label>
+                <label className={s.lbl}>
+                    A height above ground (m)
+                    <input className={s.input} placeholder="camera altitude" value={heightA}
+                           onChange={e => setHeightA(e.target.value.replace(/[^\d.-]/g, ""))} />
+                </label>
+                <label className={s.lbl}>
+                    To (B)
+                    <input className={s.input} placeholder="lat, lon  or DMS" value={to} onChange={e => setTo(e.target.value)} />
+                </label>
+                <label className={s.lbl}>
+                    B height above ground (m)
+                    <input type="number" min={0} step={0.5} className={s.input}
+                           value={heightB} onChange={e => setHeightB(Math.max(0, parseFloat(e.target.value) || 0))} />
+                </label>
+            </div>
+            <div className={s.rowBtns}>
+                <button className={s.btn} disabled={!hasDem || !to.trim()} onClick={check}>Check line of sight</button>
+            </div>
+            {sight && <pre className={s.preSmall}>{sight}</pre>}
+        </>
+    );
+}
@@ -5,7 +5,7 @@ import React from "react";
 import s from "./PixelToMapNoCanvas.module.scss";
 
 export default function ZoomedImage({
-                                        src, imgW, imgH, scale, tx, ty,
+                                        src, scale, tx, ty,
                                     }: { src:string; imgW:number; imgH:number; scale:number; tx:number; ty:number }) {
     return (
         <div className={s.zoomWrap}>
@@ -13,18 +13,17 @@ import MediaLayer from "@arcgis/core/layers/MediaLayer";
 import ImageElement from "@arcgis/core/layers/support/ImageElement";
 import Extent from "@arcgis/core/geometry/Extent";
 import SpatialReference from "@arcgis/core/geometry/SpatialReference";
-
-export type DEMInfo = {
-    width: number; height: number;
-    originX: number; originY: number;
-    resX: number;   resY: number;
-};
+import { DemLayer } from "../utils/demRender";
+import { DemBounds } from "../utils/demService";
 
 export type SceneOverlayHandle = {
     flyTo: (lat: number, lon: number, zoom?: number) => void;
     setMarker: (lat: number, lon: number) => void;
-    setImageOverlay: (imageUrl: string, dem: DEMInfo) => void;
+    setImageOverlay: (imageUrl: string, bounds: DemBounds) => void;
     clearOverlays: () => void;
+    // DEM picture under the photo overlay (render it with rows: "degrees"); kept by clearOverlays
+    setDemLayer: (layer: DemLayer | null, opacity?: number) => void;
+    setDemOpacity: (opacity: number) => void;
 };
 
 type Props = { className?: string };
@@ -36,6 +35,7 @@ const SceneOverlay = forwardRef<SceneOverlayHandle, Props>(function SceneOverlay
     const gfxLayerRef = useRef<GraphicsLayer | null>(null);
     const markerRef = useRef<Graphic | null>(null);
     const mediaLayerRef = useRef<MediaLayer | null>(null);
+    const demLayerRef = useRef<MediaLayer | null>(null);
 
     useEffect(() => {
         if (viewRef.current || !hostRef.current) return;
@@ -77,6 +77,11 @@ const SceneOverlay = forwardRef<SceneOverlayHandle, Props>(function SceneOverlay
                 mediaLayerRef.current.destroy();
                 mediaLayerRef.current = null;
             }
+            if (demLayerRef.current) {
+                mapRef.current?.remove(demLayerRef.current);
+                demLayerRef.current.destroy();
+                demLayerRef.current = null;
+            }
             view.destroy();
             viewRef.current = null;
             gfxLayerRef.current = null;
@@ -127,23 +132,13 @@ const SceneOverlay = forwardRef<SceneOverlayHandle, Props>(function SceneOverlay
             }
         },
 
-        setImageOverlay: (imageUrl, dem) => {
+        setImageOverlay: (imageUrl, box) => {
             const map = mapRef.current;
             const view = viewRef.current;
             if (!map || !view) return;
 
-            const lonL = dem.originX;
-            const latT = dem.originY;
-            const lonR = dem.originX + dem.width * dem.resX;
-            const latB = dem.originY + dem.height * dem.resY;
-
-            const xmin = Math.min(lonL, lonR);
-            const xmax = Math.max(lonL, lonR);
-            const ymin = Math.min(latB, latT);
-            const ymax = Math.max(latB, latT);
-
             const extent = new Extent({
-                xmin, ymin, xmax, ymax,
+                xmin: box.west, ymin: box.south, xmax: box.east, ymax: box.north,
                 spatialReference: SpatialReference.WGS84
             });
 
@@ -178,6 +173,34 @@ const SceneOverlay = forwardRef<SceneOverlayHandle, Props>(function SceneOverlay
                 mediaLayerRef.current = null;
             }
         },
+
+        setDemLayer: (layer, opacity = 0.6) => {
+            const map = mapRef.current;
+            if (!map) return;
+            if (demLayerRef.current) {
+                map.remove(demLayerRef.current);
+                demLayerRef.current.destroy();
+                demLayerRef.current = null;
+            }
+            if (!layer) return;
+
+            const extent = new Extent({
+                xmin: layer.west, ymin: layer.south, xmax: layer.east, ymax: layer.north,
+                spatialReference: SpatialReference.WGS84
+            });
+            const media = new MediaLayer({
+                source: [new ImageElement({ image: layer.url, georeference: { type: "extent-and-rotation", extent } })],
+                spatialReference: SpatialReference.WGS84,
+                opacity
+            });
+            // why: index 0 keeps it under the photo and the marker graphics
+            map.add(media, 0);
+            demLayerRef.current = media;
+        },
+
+        setDemOpacity: (opacity) => {
+            if (demLayerRef.current) demLayerRef.current.opacity = opacity;
+        },
     }));
 
     return <div ref={hostRef} className={className ?? "mp-map"} />;
@@ -0,0 +1,11 @@
+// Bridge exposed by electron/preload.cjs; absent when the UI runs in a plain browser
+interface Window {
+    api?: {
+        ping: () => Promise<string>;
+        pathForFile: (file: File) => string;   // "" for files not from disk
+        cameraLibrary: {
+            read: () => Promise<string | null>;
+            write: (json: string) => Promise<void>;
+        };
+    };
+}
@@ -0,0 +1,224 @@
+// ============================================================================
+// FILE: src/utils/calibration.ts
+// PURPOSE: Camera intrinsic calibration from checkerboard / ChArUco photos with
+//          OpenCV.js, and named calibration presets (fx, fy, cx, cy + Brown-Conrady
+//          k1, k2, p1, p2, k3 at a reference resolution W×H; presets taken from
+//          the intrinsics in use can carry another lens model and its k4).
+// ============================================================================
+import { LensModel } from "./lens";
+
+export type CalibrationPreset = {
+    name: string;
+    W: number; H: number;           // resolution the values refer to
+    fx: number; fy: number; cx: number; cy: number;
+    k1: number; k2: number; p1: number; p2: number; k3: number;
+    k4?: number;                    // fisheye only
+    lensModel?: LensModel;          // how the coefficients are read; default Brown-Conrady
+    focalMM?: number;               // lens focal length it holds for; a zoom at another focal needs its own
+    rms?: number;                   // px, reprojection error of the calibration
+    frames?: number;                // views used
+    createdAt?: string;             // ISO date
+};
+
+export type BoardSpec =
+    // cols × rows = inner corners
+    | { kind: "checkerboard"; cols: number; rows: number; square: number }
+    // cols × rows = squares; marker = ArUco marker side; dictionary = cv constant name
+    | { kind: "charuco"; cols: number; rows: number; square: number; marker: number; dictionary: string };
+
+export type FrameResult = {
+    name: string;
+    found: boolean;
+    corners: number;
+    error?: number;     // px, per-view RMS after calibration
+    reason?: string;
+};
+
+export type CalibrationResult = {
+    preset: Omit<CalibrationPreset, "name">;
+    frames: FrameResult[];
+};
+
+const MIN_FRAMES = 3;
+const MIN_CHARUCO_CORNERS = 6;
+const DETECT_MAX_DIM = 1600;    // px, corners are found on a downscaled copy then refined at full res
+
+// -----------------------------
+// Presets (persisted in localStorage)
+// -----------------------------
+const PRESETS_KEY = "aw5.calibrationPresets";
+
+export function loadCalibrationPresets(): CalibrationPreset[] {
+    try {
+        const raw = localStorage.getItem(PRESETS_KEY);
+        const list = raw ? JSON.parse(raw) : [];
+        return Array.isArray(list) ? list : [];
+    } catch { return []; }
+}
+
+export function saveCalibrationPreset(p: CalibrationPreset): CalibrationPreset[] {
+    const list = loadCalibrationPresets().filter(x => x.name !== p.name);
+    list.push(p);
+    try { localStorage.setItem(PRESETS_KEY, JSON.stringify(list)); } catch { /* storage full or disabled */ }
+    return list;
+}
+
+export function deleteCalibrationPreset(name: string): CalibrationPreset[] {
+    const list = loadCalibrationPresets().filter(x => x.name !== name);
+    try { localStorage.setItem(PRESETS_KEY, JSON.stringify(list)); } catch { /* storage full or disabled */ }
+    return list;
+}
+
+// -----------------------------
+// Calibration
+// -----------------------------
+// why: intrinsics describe the sensor, so frames are decoded without EXIF rotation
+async function decodeRaw(file: File): Promise<ImageData> {
+    const bmp = await createImageBitmap(file, { imageOrientation: "none" } as ImageBitmapOptions);
+    try {
+        const canvas = document.createElement("canvas");
+        canvas.width = bmp.width; canvas.height = bmp.height;
+        const ctx = canvas.getContext("2d", { willReadFrequently: true })!;
+        ctx.drawImage(bmp, 0, 0);
+        return ctx.getImageData(0, 0, bmp.width, bmp.height);
+    } finally { bmp.close(); }
+}
+
+type Detection = { img: any; obj: any; corners: number } | { reason: string };
+
+function detectCheckerboard(cv: any, gray: any, small: any, s: number, b: Extract<BoardSpec, { kind: "checkerboard" }>): Detection {
+    const found = new cv.Mat();
+    try {
+        const ok = cv.findChessboardCorners(
+            small, new cv.Size(b.cols, b.rows), found,
+            cv.CALIB_CB_ADAPTIVE_THRESH + cv.CALIB_CB_NORMALIZE_IMAGE
+        );
+        if (!ok || found.rows !== b.cols * b.rows) return { reason: "board not found" };
+        const pts: number[] = Array.from(found.data32F as Float32Array, x => x / s);
+        const obj: number[] = [];
+        for (let r = 0; r < b.rows; r++)
+            for (let c = 0; c < b.cols; c++) obj.push(c * b.square, r * b.square, 0);
+        return refine(cv, gray, pts, obj, s);
+    } finally { found.delete(); }
+}
+
+function detectCharuco(cv: any, gray: any, small: any, s: number, b: Extract<BoardSpec, { kind: "charuco" }>): Detection {
+    if (typeof cv.CharucoDetector !== "function" || typeof cv.CharucoBoard !== "function")
+        return { reason: "this OpenCV.js build has no ChArUco support" };
+    const dict = cv.getPredefinedDictionary(cv[b.dictionary]);
+    const board = new cv.CharucoBoard(new cv.Size(b.cols, b.rows), b.square, b.marker, dict, new cv.Mat());
+    const det = new cv.CharucoDetector(board);
+    const corners = new cv.Mat(), ids = new cv.Mat(), mCorners = new cv.MatVector(), mIds = new cv.Mat();
+    try {
+        det.detectBoard(small, corners, ids, mCorners, mIds);
+        if (corners.rows < MIN_CHARUCO_CORNERS) return { reason: `only ${corners.rows} ChArUco corners` };
+        const pts: number[] = Array.from(corners.data32F as Float32Array, x => x / s);
+        const obj: number[] = [];
+        // chessboard corner id k sits at inner-grid (k mod (cols−1), k div (cols−1))
+        for (const id of Array.from(ids.data32S as Int32Array))
+            obj.push(((id % (b.cols - 1)) + 1) * b.square, (Math.floor(id / (b.cols - 1)) + 1) * b.square, 0);
+        return refine(cv, gray, pts, obj, s);
+    } finally {
+        corners.delete(); ids.delete(); mCorners.delete(); mIds.delete();
+        det.delete(); board.delete(); dict.delete?.();
+    }
+}
+
+// sub-pixel refinement on the full-resolution frame
+function refine(cv: any, gray: any, pts: number[], obj: number[], s: number): Detection {
+    const img = cv.matFromArray(pts.length / 2, 1, cv.CV_32FC2, pts);
+    const win = Math.max(5, Math.round(5 / s));
+    const crit = new cv.TermCriteria(cv.TERM_CRITERIA_EPS + cv.TERM_CRITERIA_MAX_ITER, 30, 0.001);
+    cv.cornerSubPix(gray, img, new cv.Size(win, win), new cv.Size(-1, -1), crit);
+    return { img, obj: cv.matFromArray(obj.length / 3, 1, cv.CV_32FC3, obj), corners: pts.length / 2 };
+}
+
+export async function calibrateFromImages(
+    cv: any,
+    files: File[],
+    board: BoardSpec,
+    onProgress?: (done: number, total: number, frame: FrameResult) => void
+): Promise<CalibrationResult> {
+    if (board.kind === "checkerboard" && typeof cv.findChessboardCorners !== "function")
+        throw new Error("This OpenCV.js build lacks findChessboardCorners.");
+    if (typeof cv.calibrateCameraExtended !== "function" && typeof cv.calibrateCamera !== "function")
+        throw new Error("This OpenCV.js build lacks calibrateCamera.");
+
+    const objVec = new cv.MatVector(), imgVec = new cv.MatVector();
+    const frames: FrameResult[] = [];
+    const used: number[] = [];      // frame index per view
+    let W = 0, H = 0;
+
+    try {
+        for (let i = 0; i < files.length; i++) {
+            const f = files[i];
+            const frame: FrameResult = { name: f.name, found: false, corners: 0 };
+            frames.push(frame);
+            let rgba: any = null, gray: any = null, small: any = null;
+            try {
+                const data = await decodeRaw(f);
+                if (!W) { W = data.width; H = data.height; }
+                if (data.width !== W || data.height !== H) {
+                    frame.reason = `size ${data.width}x${data.height} ≠ ${W}x${H}`;
+                    continue;
+                }
+                rgba = cv.matFromImageData(data);
+                gray = new cv.Mat();
+                cv.cvtColor(rgba, gray, cv.COLOR_RGBA2GRAY);
+                rgba.delete(); rgba = null;
+                const s = Math.min(1, DETECT_MAX_DIM / Math.max(W, H));
+                small = new cv.Mat();
+                if (s < 1) cv.resize(gray, small, new cv.Size(Math.round(W * s), Math.round(H * s)), 0, 0, cv.INTER_AREA);
+                else gray.copyTo(small);
+
+                const d = board.kind === "checkerboard"
+                    ? detectCheckerboard(cv, gray, small, s, board)
+                    : detectCharuco(cv, gray, small, s, board);
+                if ("reason" in d) { frame.reason = d.reason; continue; }
+                objVec.push_back(d.obj); imgVec.push_back(d.img);
+                d.obj.delete(); d.img.delete();
+                frame.found = true; frame.corners = d.corners;
+                used.push(i);
+            } catch (err: any) {
+                frame.reason = err?.message || String(err);
+            } finally {
+                rgba?.delete(); gray?.delete(); small?.delete();
+                onProgress?.(i + 1, files.length, frame);
+                // let the UI repaint between heavy frames
+                await new Promise(r => setTimeout(r, 0));
+            }
+        }
+
+        if (used.length < MIN_FRAMES)
+            throw new Error(`Board found in ${used.length} photo(s); need at least ${MIN_FRAMES}.`);
+
+        const K = new cv.Mat(), D = new cv.Mat(), rvecs = new cv.MatVector(), tvecs = new cv.MatVector();
+        const sdI = new cv.Mat(), sdE = new cv.Mat(), perView = new cv.Mat();
+        try {
+            const size = new cv.Size(W, H);
+            let rms: number;
+            if (typeof cv.calibrateCameraExtended === "function") {
+                const crit = new cv.TermCriteria(cv.TERM_CRITERIA_COUNT + cv.TERM_CRITERIA_EPS, 100, 1e-9);
+                rms = cv.calibrateCameraExtended(objVec, imgVec, size, K, D, rvecs, tvecs, sdI, sdE, perView, 0, crit);
+                const errs = perView.data64F as Float64Array;
+                used.forEach((fi, k) => { if (errs && k < errs.length) frames[fi].error = errs[k]; });
+            } else {
+                rms = cv.calibrateCamera(objVec, imgVec, size, K, D, rvecs, tvecs, 0);
+            }
+            const k = K.data64F as Float64Array, dist = D.data64F as Float64Array;
+            return {
+                preset: {
+                    W, H,
+                    fx: k[0], fy: k[4], cx: k[2], cy: k[5],
+                    k1: dist[0] ?? 0, k2: dist[1] ?? 0, p1: dist[2] ?? 0, p2: dist[3] ?? 0, k3: dist[4] ?? 0,
+                    rms, frames: used.length, createdAt: new Date().toISOString(),
+                },
+                frames,
+            };
+        } finally {
+            K.delete(); D.delete(); rvecs.delete(); tvecs.delete(); sdI.delete(); sdE.delete(); perView.delete();
+        }
+    } finally {
+        objVec.delete(); imgVec.delete();
+    }
+}
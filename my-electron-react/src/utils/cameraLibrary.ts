@@ -0,0 +1,263 @@
+// ============================================================================
+// FILE: src/utils/cameraLibrary.ts
+// PURPOSE: Camera library — sensor sizes and full calibrations keyed by
+//          make / model / lens / resolution, matched against a photo's metadata
+//          on load. Stored as JSON in the app's data folder (localStorage when
+//          the UI runs outside Electron); importable and exportable as JSON.
+// ============================================================================
+import { CalibrationPreset } from "./calibration";
+import { LENS_MODELS } from "./lens";
+import { PhotoMetadata } from "./metadata";
+
+export type CameraEntry = {
+    make: string;
+    model: string;
+    lens?: string;                   // EXIF LensModel; blank matches any lens
+    W?: number; H?: number;          // resolution; blank matches any
+    sensorW: number; sensorH: number; // mm
+    focalMM?: number;                // fixed lenses that leave FocalLength out
+    calibration?: CalibrationPreset; // full intrinsics at calibration.W×H
+    notes?: string;
+};
+
+export type CameraMatch = {
+    entry: CameraEntry;
+    score: number;
+    why: string[];                   // which keys matched
+};
+
+// What a load found; with an error the list is what could be read (or the
+// defaults) and saving it would overwrite the rest of the file
+export type LoadedLibrary = { list: CameraEntry[]; error: string | null };
+
+export type LibraryIntrinsics =
+    | { kind: "calibration"; preset: CalibrationPreset; source: string }
+    | { kind: "focal"; fx: number; fy: number; focalMM: number | null; source: string };
+
+const LIBRARY_KEY = "aw5.cameraLibrary";
+const FORMAT_VERSION = 1;
+const DIAG_35MM = Math.hypot(36, 24);
+const FOCAL_TOLERANCE = 0.05;       // relative; nominal EXIF focal lengths are rounded
+
+const APSC_SONY = { make: "SONY", sensorW: 23.5, sensorH: 15.6 };
+
+// Seeds a fresh install; edits and imports replace it on disk
+export const DEFAULT_CAMERAS: CameraEntry[] = [
+    {
+        ...APSC_SONY, model: "ILCE-5100", W: 6000, H: 4000,
+        calibration: {
+            name: "ILCE-5100", W: 6000, H: 4000, focalMM: 25,
+            fx: 6398.08616, fy: 6432.14696, cx: 2959.871024, cy: 1963.453368,
+            k1: -0.0232568293, k2: -0.403632348, p1: 0.00123362391, p2: -0.00155940272, k3: 2.41647816,
+        },
+    },
+    { ...APSC_SONY, model: "ILCE-6000" },
+    { ...APSC_SONY, model: "ILCE-6100" },
+    { ...APSC_SONY, model: "ILCE-6300" },
+    { ...APSC_SONY, model: "ILCE-6400" },
+];
+
+// -----------------------------
+// Keys
+// -----------------------------
+const norm = (v: string | undefined) => (v ?? "").trim().toUpperCase().replace(/\s+/g, " ");
+
+// Entries with the same key replace each other on save and import
+export function cameraEntryKey(e: CameraEntry) {
+    return [norm(e.make), norm(e.model), norm(e.lens), e.W && e.H ? `${e.W}x${e.H}` : ""].join("|");
+}
+
+export function describeCameraEntry(e: CameraEntry) {
+    const res = e.W && e.H ? ` @ ${e.W}x${e.H}` : "";
+    const lens = e.lens ? ` · ${e.lens}` : "";
+    return `${e.make} ${e.model}${lens}${res}`.trim();
+}
+
+// -----------------------------
+// Storage
+// -----------------------------
+export async function loadCameraLibrary(): Promise<LoadedLibrary> {
+    try {
+        const bridge = window.api?.cameraLibrary;
+        const text = bridge ? await bridge.read() : localStorage.getItem(LIBRARY_KEY);
+        // why: null is a fresh install; an empty file is a library that lost its contents
+        if (text === null) return { list: DEFAULT_CAMERAS.slice(), error: null };
+        if (!text.trim()) throw new Error("the file is empty");
+        let json: any;
+        try { json = JSON.parse(text); } catch { throw new Error("not a JSON file"); }
+        // why: a hand-edited file with one bad entry should not hide the others
+        const parsed = entriesFrom(json);
+        const bad = parsed.filter(x => typeof x === "string") as string[];
+        return { list: parsed.filter(x => typeof x !== "string") as CameraEntry[], error: bad.length ? bad.join("; ") : null };
+    } catch (err: any) {
+        return { list: DEFAULT_CAMERAS.slice(), error: err?.message || String(err) };
+    }
+}
+
+export async function saveCameraLibrary(list: CameraEntry[]) {
+    const text = exportCameraLibrary(list);
+    const bridge = window.api?.cameraLibrary;
+    if (bridge) await bridge.write(text);
+    else localStorage.setItem(LIBRARY_KEY, text);
+}
+
+// Adds or replaces one entry; `previous` is the key it had before an edit
+export function upsertCameraEntry(list: CameraEntry[], e: CameraEntry, previous?: string) {
+    const key = cameraEntryKey(e);
+    const rest = list.filter(x => { const k = cameraEntryKey(x); return k !== key && k !== previous; });
+    return [...rest, e];
+}
+
+export function removeCameraEntry(list: CameraEntry[], e: CameraEntry) {
+    const key = cameraEntryKey(e);
+    return list.filter(x => cameraEntryKey(x) !== key);
+}
+
+// -----------------------------
+// JSON import / export
+// -----------------------------
+export function exportCameraLibrary(list: CameraEntry[]) {
+    return JSON.stringify({ version: FORMAT_VERSION, cameras: list }, null, 2);
+}
+
+// Merges a file into the library: entries with a known key replace it, the rest are added
+export function importCameraLibrary(text: string, into: CameraEntry[]) {
+    let json: any;
+    try { json = JSON.parse(text); } catch { throw new Error("not a JSON file"); }
+    const parsed = entriesFrom(json);
+    const bad = parsed.filter(x => typeof x === "string") as string[];
+    if (bad.length) throw new Error(bad.join("; "));
+    let list = into, replaced = 0;
+    const known = new Set(into.map(cameraEntryKey));
+    for (const e of parsed as CameraEntry[]) {
+        if (known.has(cameraEntryKey(e))) replaced++;
+        list = upsertCameraEntry(list, e);
+    }
+    return { list, added: parsed.length - replaced, replaced };
+}
+
+// Valid entries, or an error string per bad one
+function entriesFrom(json: any): (CameraEntry | string)[] {
+    const arr = Array.isArray(json) ? json : Array.isArray(json?.cameras) ? json.cameras : null;
+    if (!arr) throw new Error(`expected {"cameras": [...]} or an array of cameras`);
+    return arr.map((x: any, i: number) => normalizeCameraEntry(x) ?? `camera ${i + 1}: needs make, model and a sensor size or calibration`);
+}
+
+// Trimmed copy of a parsed or edited entry; null when it has no model or no size to work from
+export function normalizeCameraEntry(x: any): CameraEntry | null {
+    if (!x || typeof x.make !== "string" || typeof x.model !== "string" || !x.model.trim()) return null;
+    const pos = (v: any) => typeof v === "number" && Number.isFinite(v) && v > 0 ? v : undefined;
+    const c = x.calibration;
+    const calib = c && ["W", "H", "fx", "fy", "cx", "cy"].every(k => pos(c[k]) !== undefined)
+        ? {
+            k1: 0, k2: 0, p1: 0, p2: 0, k3: 0, ...c, name: String(c.name ?? x.model), focalMM: pos(c.focalMM),
+            lensModel: Object.keys(LENS_MODELS).includes(c.lensModel) ? c.lensModel : undefined,
+            k4: typeof c.k4 === "number" && Number.isFinite(c.k4) ? c.k4 : undefined,
+        } as CalibrationPreset
+        : undefined;
+    const sensorW = pos(x.sensorW), sensorH = pos(x.sensorH);
+    if ((sensorW === undefined || sensorH === undefined) && !calib) return null;
+    const W = pos(x.W), H = pos(x.H);
+    return {
+        make: x.make.trim(), model: x.model.trim(),
+        ...(typeof x.lens === "string" && x.lens.trim() ? { lens: x.lens.trim() } : {}),
+        ...(W && H ? { W: Math.round(W), H: Math.round(H) } : {}),
+        sensorW: sensorW ?? 0, sensorH: sensorH ?? 0,
+        ...(pos(x.focalMM) ? { focalMM: x.focalMM } : {}),
+        ...(calib ? { calibration: calib } : {}),
+        ...(typeof x.notes === "string" && x.notes ? { notes: x.notes } : {}),
+    };
+}
+
+// -----------------------------
+// Matching
+// -----------------------------
+const sameAspect = (w1: number, h1: number, w2: number, h2: number) =>
+    Math.abs(Math.max(w1, h1) / Math.min(w1, h1) - Math.max(w2, h2) / Math.min(w2, h2)) < 0.01;
+
+// Model must match; make, lens and resolution break ties. A resolution of
+// another aspect ratio is a different sensor crop, so it never matches.
+export function matchCamera(list: CameraEntry[], md: PhotoMetadata, W: number, H: number): CameraMatch | null {
+    const make = norm(md.make), model = norm(md.model), lens = norm(md.intrinsics.lens);
+    if (!model) return null;
+    let best: CameraMatch | null = null;
+    for (const entry of list) {
+        if (norm(entry.model) !== model) continue;
+        const em = norm(entry.make);
+        if (em && make && !make.includes(em) && !em.includes(make)) continue;
+        const why = ["model"];
+        let score = 4;
+        if (em && make) { score += 1; why.push("make"); }
+        if (entry.lens) {
+            if (norm(entry.lens) !== lens) continue;
+            score += 2; why.push("lens");
+        }
+        const ref = entry.W && entry.H ? { W: entry.W, H: entry.H } : entry.calibration;
+        if (ref && W && H) {
+            if (!sameAspect(ref.W, ref.H, W, H)) continue;
+            const exact = (ref.W === W && ref.H === H) || (ref.W === H && ref.H === W);
+            if (exact) { score += 1; why.push("resolution"); }
+            else why.push(`scaled from ${ref.W}x${ref.H}`);
+        }
+        if (entry.calibration && !calibrationFits(entry.calibration, md.intrinsics.focalMM))
+            why.push(`calibration is for ${entry.calibration.focalMM} mm`);
+        if (!best || score > best.score) best = { entry, score, why };
+    }
+    return best;
+}
+
+// A calibration holds at the focal length it was taken at; one without a
+// focal length, or a photo without one, is taken to fit (fixed lenses).
+export function calibrationFits(c: CalibrationPreset, focalMM: number | undefined) {
+    if (!c.focalMM || !focalMM) return true;
+    return Math.abs(focalMM - c.focalMM) <= FOCAL_TOLERANCE * c.focalMM;
+}
+
+// Sensor size of an entry, or the one its calibration implies
+function entrySensor(e: CameraEntry | undefined) {
+    if (!e) return undefined;
+    if (e.sensorW > 0 && e.sensorH > 0) return { w: e.sensorW, h: e.sensorH };
+    const c = e.calibration;
+    return c?.focalMM ? { w: c.focalMM * c.W / c.fx, h: c.focalMM * c.H / c.fy } : undefined;
+}
+
+// Calibration when the entry has one for this focal length, else focal
+// length over sensor size, else the 35 mm equivalent over the image diagonal.
+export function intrinsicsFor(md: PhotoMetadata, match: CameraMatch | null, W: number, H: number): LibraryIntrinsics | null {
+    const e = match?.entry;
+    const label = e ? `camera library "${describeCameraEntry(e)}"` : "";
+    const c = e?.calibration;
+    if (c && calibrationFits(c, md.intrinsics.focalMM)) return { kind: "calibration", preset: c, source: label };
+    const skipped = c ? ` (calibration is for ${c.focalMM} mm, photo at ${md.intrinsics.focalMM} mm)` : "";
+
+    const focal = md.intrinsics.focalMM ?? e?.focalMM;
+    const ownSensor = entrySensor(e);
+    const sensor = ownSensor ?? md.intrinsics.sensorMM;
+    if (focal && sensor && W && H) {
+        const sensorFrom = ownSensor ? label : "EXIF focal-plane tags";
+        const focalFrom = md.intrinsics.focalMM !== undefined ? "EXIF focal length" : label;
+        return {
+            kind: "focal", focalMM: focal,
+            fx: focal * W / sensor.w, fy: focal * H / sensor.h,
+            source: (focalFrom === sensorFrom ? focalFrom : `${focalFrom} + sensor from ${sensorFrom}`) + skipped,
+        };
+    }
+    const f35 = md.intrinsics.focal35;
+    if (f35 && W && H) {
+        const f = f35 * Math.hypot(W, H) / DIAG_35MM;
+        return { kind: "focal", focalMM: null, fx: f, fy: f, source: "35 mm equivalent focal length (sensor unknown)" + skipped };
+    }
+    return null;
+}
+
+// Draft entry for the photo on screen, optionally with the intrinsics in use
+export function entryFromPhoto(md: PhotoMetadata, W: number, H: number, calibration?: CalibrationPreset): CameraEntry {
+    return {
+        make: md.make, model: md.model,
+        ...(md.intrinsics.lens ? { lens: md.intrinsics.lens } : {}),
+        ...(W && H ? { W, H } : {}),
+        sensorW: md.intrinsics.sensorMM?.w ?? 0, sensorH: md.intrinsics.sensorMM?.h ?? 0,
+        ...(md.intrinsics.focalMM ? { focalMM: md.intrinsics.focalMM } : {}),
+        ...(calibration ? { calibration } : {}),
+    };
+}
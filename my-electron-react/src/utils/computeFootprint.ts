@@ -1,9 +1,11 @@
-import { projectPixelToDEM, CameraPose, Intrinsics, DEM } from "./projection";
+import { projectPixel, CameraPose, Intrinsics, RotationConvention, DEFAULT_CONVENTION } from "./projection";
+import { Dem, demGround } from "./demService";
 
 export async function computeFootprint(
     cam: CameraPose,
     intr: Intrinsics,
-    dem: DEM
+    dem: Dem,
+    conv: RotationConvention = DEFAULT_CONVENTION
 ) {
     const W = intr.W;
     const H = intr.H;
@@ -15,11 +17,12 @@ export async function computeFootprint(
         [0, H]
     ];
 
-    const out = [];
+    const out: [number, number][] = [];
+    const ground = demGround(dem);
 
     for (const [x, y] of corners) {
-        const p = await projectPixelToDEM(x, y, cam, intr, dem);
-        out.push(p);
+        const p = await projectPixel(x, y, cam, intr, ground, conv);
+        if (p) out.push([p.lat, p.lon]);
     }
 
     return out; // [[lat,lon], ...]
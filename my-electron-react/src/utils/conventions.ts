@@ -0,0 +1,165 @@
+// ============================================================================
+// FILE: src/utils/conventions.ts
+// PURPOSE: Named rotation-convention profiles per pose source (DJI gimbal XMP,
+//          static tripod, aircraft INS), the per-image / per-camera choice
+//          persisted in localStorage, and the frame self-check that projects
+//          the image centre and corners to the ground.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel, GroundModel, GroundHit,
+    DEFAULT_CONVENTION, FLAT_EARTH, projectPixel, cameraCentre, metersPerDeg,
+} from "./projection";
+
+export type ConventionProfileId = "sony-static-nadir" | "legacy-static-cam" | "dji-gimbal-xmp" | "aircraft-ins-ned" | "custom";
+
+export type ConventionProfile = {
+    id: ConventionProfileId;
+    label: string;
+    convention: RotationConvention;
+    // meaning of the pose inputs under this profile (shown next to the fields)
+    axes: { yaw: string; pitch: string; roll: string };
+    note: string;
+};
+
+export const CONVENTION_PROFILES: Record<ConventionProfileId, ConventionProfile> = {
+    "sony-static-nadir": {
+        id: "sony-static-nadir",
+        label: "Sony static tripod (nadir)",
+        convention: { ...DEFAULT_CONVENTION, yawClockwise: true },
+        axes: { yaw: "Yaw (°, compass CW)", pitch: "Pitch (°, 0 = nadir, +down)", roll: "Roll (°, +right)" },
+        note: "Camera looks straight down at zero angles with the image top to the north; pitch tilts it off nadir.",
+    },
+    "legacy-static-cam": {
+        id: "legacy-static-cam",
+        label: "Legacy static cam (old click mapping)",
+        convention: { ...DEFAULT_CONVENTION, order: "yaw-roll-pitch", pitchAxis: "y", flipPitch: true },
+        axes: { yaw: "Yaw (°, math CCW)", pitch: "Pitch (°, about image y)", roll: "Roll (°, about image x)" },
+        note: "The static cam's clicks before the shared engine: Rz(yaw)·Rx(roll)·Ry(pitch) on the nadir frame. Use it to reproduce older results.",
+    },
+    "dji-gimbal-xmp": {
+        id: "dji-gimbal-xmp",
+        label: "DJI gimbal XMP",
+        convention: { ...DEFAULT_CONVENTION, base: "horizon", flipPitch: true, yawClockwise: true },
+        axes: { yaw: "Gimbal yaw (°, compass CW)", pitch: "Gimbal pitch (°, 0 = horizon, −90 = nadir)", roll: "Gimbal roll (°, +right down)" },
+        note: "drone-dji:GimbalYaw/Pitch/RollDegree — absolute gimbal angles, camera level and facing north at zero.",
+    },
+    "aircraft-ins-ned": {
+        id: "aircraft-ins-ned",
+        label: "Aircraft INS NED",
+        convention: { ...DEFAULT_CONVENTION, flipPitch: true, yawClockwise: true },
+        axes: { yaw: "Heading (°, CW from north)", pitch: "Pitch (°, nose up +)", roll: "Roll (°, right wing down +)" },
+        note: "Body attitude from an INS (NED, Z-Y-X) with the camera fixed nadir in the airframe, image top to the nose.",
+    },
+    custom: {
+        id: "custom",
+        label: "Custom",
+        convention: DEFAULT_CONVENTION,
+        axes: { yaw: "Yaw (°)", pitch: "Pitch (°)", roll: "Roll (°)" },
+        note: "Euler order, signs and base frame set by hand.",
+    },
+};
+
+export const DEFAULT_PROFILE: ConventionProfileId = "sony-static-nadir";
+
+// What is stored per image / camera; `custom` only for the Custom profile
+export type ConventionChoice = { profile: ConventionProfileId; custom?: RotationConvention };
+
+export function conventionFor(choice: ConventionChoice): RotationConvention {
+    if (choice.profile === "custom") return { ...DEFAULT_CONVENTION, ...choice.custom };
+    return (CONVENTION_PROFILES[choice.profile] ?? CONVENTION_PROFILES[DEFAULT_PROFILE]).convention;
+}
+
+// Guess from metadata: DJI writes its gimbal angles to XMP
+export function profileForMeta(meta: Record<string, any> | null | undefined): ConventionProfileId {
+    if (!meta) return DEFAULT_PROFILE;
+    const make = String(meta.Make ?? "").toUpperCase();
+    if (make.includes("DJI") || meta.GimbalPitchDegree !== undefined || meta.GimbalYawDegree !== undefined)
+        return "dji-gimbal-xmp";
+    return DEFAULT_PROFILE;
+}
+
+// -----------------------------
+// Persistence
+// -----------------------------
+const CHOICES_KEY = "aw5.conventionProfiles";
+
+type StoredChoices = {
+    images: Record<string, ConventionChoice>;
+    cameras: Record<string, ConventionChoice>;
+};
+
+// Name + size survives re-opening the same file from another folder
+export function imageKeyFromFile(f: Pick<File, "name" | "size">) {
+    return `${f.name}|${f.size}`;
+}
+
+export function loadConventionChoices(): StoredChoices {
+    try {
+        const raw = localStorage.getItem(CHOICES_KEY);
+        const obj = raw ? JSON.parse(raw) : {};
+        return { images: obj?.images ?? {}, cameras: obj?.cameras ?? {} };
+    } catch { return { images: {}, cameras: {} }; }
+}
+
+// Most specific first: this image, then the last choice for this camera, then metadata
+export function choiceForImage(imageKey: string, cameraKey: string, meta?: Record<string, any> | null) {
+    const all = loadConventionChoices();
+    const valid = (c?: ConventionChoice) => !!c && c.profile in CONVENTION_PROFILES;
+    if (imageKey && valid(all.images[imageKey])) return { choice: all.images[imageKey], source: "image" as const };
+    if (cameraKey && valid(all.cameras[cameraKey])) return { choice: all.cameras[cameraKey], source: "camera" as const };
+    return { choice: { profile: profileForMeta(meta) } as ConventionChoice, source: "metadata" as const };
+}
+
+export function saveConventionChoice(imageKey: string, cameraKey: string, choice: ConventionChoice) {
+    const all = loadConventionChoices();
+    const c: ConventionChoice = choice.profile === "custom" ? choice : { profile: choice.profile };
+    if (imageKey) all.images[imageKey] = c;
+    if (cameraKey) all.cameras[cameraKey] = c;
+    try { localStorage.setItem(CHOICES_KEY, JSON.stringify(all)); } catch { /* storage full or disabled */ }
+}
+
+// -----------------------------
+// Self-check: where do the centre and corners land?
+// -----------------------------
+export type FrameCheckPoint = {
+    label: "C" | "TL" | "TR" | "BR" | "BL";
+    u: number;
+    v: number;
+    hit: GroundHit | null;  // null = above the horizon / no ground
+    east: number;           // m from the camera centre (NaN without a hit)
+    north: number;
+};
+
+export type FrameCheck = {
+    camera: { lat: number; lon: number };
+    points: FrameCheckPoint[];
+    centreBearing: number | null;  // deg CW from north, camera → image-centre hit
+};
+
+export async function frameSelfCheck(
+    pose: CameraPose,
+    K: Intrinsics,
+    ground: GroundModel,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH
+): Promise<FrameCheck> {
+    const cam = cameraCentre(pose, conv);
+    const { mlat, mlon } = metersPerDeg(cam.lat);
+    const probes: [FrameCheckPoint["label"], number, number][] = [
+        ["C", K.cx, K.cy], ["TL", 0, 0], ["TR", K.W, 0], ["BR", K.W, K.H], ["BL", 0, K.H],
+    ];
+    const points: FrameCheckPoint[] = [];
+    for (const [label, u, v] of probes) {
+        const hit = await projectPixel(u, v, cam, K, ground, conv, earth);
+        points.push({
+            label, u, v, hit,
+            east: hit ? (hit.lon - cam.lon) * mlon : NaN,
+            north: hit ? (hit.lat - cam.lat) * mlat : NaN,
+        });
+    }
+    const c = points[0];
+    const centreBearing = c.hit && Math.hypot(c.east, c.north) > 0.01
+        ? (Math.atan2(c.east, c.north) * 180 / Math.PI + 360) % 360
+        : null;
+    return { camera: { lat: cam.lat, lon: cam.lon }, points, centreBearing };
+}
@@ -0,0 +1,347 @@
+// ============================================================================
+// FILE: src/utils/crs.ts
+// PURPOSE: Raster coordinate reference systems without network or proj.db —
+//          bundled EPSG definitions (UTM families, common national grids),
+//          GeoTIFF user-defined projections, Transverse Mercator / Lambert
+//          conformal conic / Mercator maths and a Helmert shift to WGS84.
+// ============================================================================
+import { geodeticToECEF, ecefToGeodetic } from "./geodesy";
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+const ARCSEC = Math.PI / (180 * 3600);
+
+export type Ellipsoid = { name: string; a: number; f: number };
+
+export const ELLIPSOIDS = {
+    WGS84: { name: "WGS84", a: 6378137, f: 1 / 298.257223563 },
+    GRS80: { name: "GRS80", a: 6378137, f: 1 / 298.257222101 },
+    Airy: { name: "Airy 1830", a: 6377563.396, f: 1 / 299.3249646 },
+    Bessel: { name: "Bessel 1841", a: 6377397.155, f: 1 / 299.1528128 },
+    Krassowsky: { name: "Krassowsky 1940", a: 6378245, f: 1 / 298.3 },
+    Clarke1866: { name: "Clarke 1866", a: 6378206.4, f: 1 / 294.978698214 },
+    Intl1924: { name: "International 1924", a: 6378388, f: 1 / 297 },
+} satisfies Record<string, Ellipsoid>;
+
+// EPSG ellipsoid codes as found in GeogEllipsoidGeoKey
+const ELLIPSOID_CODES: Record<number, Ellipsoid> = {
+    7030: ELLIPSOIDS.WGS84, 7019: ELLIPSOIDS.GRS80, 7001: ELLIPSOIDS.Airy,
+    7004: ELLIPSOIDS.Bessel, 7024: ELLIPSOIDS.Krassowsky, 7008: ELLIPSOIDS.Clarke1866,
+    7022: ELLIPSOIDS.Intl1924,
+};
+
+// Angles in degrees; x0/y0 false easting/northing in CRS units
+export type Projection =
+    | { proj: "longlat" }
+    | { proj: "tmerc"; lat0: number; lon0: number; k0: number; x0: number; y0: number }
+    | { proj: "lcc"; lat0: number; lon0: number; lat1: number; lat2: number; k0: number; x0: number; y0: number }
+    | { proj: "merc"; lon0: number; k0: number; x0: number; y0: number; sphere?: boolean };
+
+export type CrsDef = {
+    code: number | null;   // EPSG, null when built from user-defined geo keys
+    name: string;
+    ellps: Ellipsoid;
+    // position-vector Helmert to WGS84: dx, dy, dz (m), rx, ry, rz (″), ds (ppm)
+    towgs84?: number[];
+    toMeter: number;       // linear unit; 1 for metres and geographic CRSs
+    projection: Projection;
+};
+
+// -----------------------------
+// Bundled definitions
+// -----------------------------
+const PULKOVO_TOWGS84 = [23.92, -141.27, -80.9, 0, 0.35, 0.82, -0.12];
+const DHDN_TOWGS84 = [598.1, 73.7, 418.2, 0.202, 0.045, -2.455, 6.7];
+
+const tm = (lon0: number, k0: number, x0: number, y0: number, lat0 = 0): Projection =>
+    ({ proj: "tmerc", lat0, lon0, k0, x0, y0 });
+const utm = (zone: number, south: boolean) => tm(zone * 6 - 183, 0.9996, 500000, south ? 10000000 : 0);
+
+const FIXED: Record<number, Omit<CrsDef, "code" | "toMeter">> = {
+    4326: { name: "WGS 84", ellps: ELLIPSOIDS.WGS84, projection: { proj: "longlat" } },
+    4258: { name: "ETRS89", ellps: ELLIPSOIDS.GRS80, projection: { proj: "longlat" } },
+    4269: { name: "NAD83", ellps: ELLIPSOIDS.GRS80, projection: { proj: "longlat" } },
+    4283: { name: "GDA94", ellps: ELLIPSOIDS.GRS80, projection: { proj: "longlat" } },
+    4284: { name: "Pulkovo 1942", ellps: ELLIPSOIDS.Krassowsky, towgs84: PULKOVO_TOWGS84, projection: { proj: "longlat" } },
+    3857: {
+        name: "WGS 84 / Pseudo-Mercator", ellps: ELLIPSOIDS.WGS84,
+        projection: { proj: "merc", lon0: 0, k0: 1, x0: 0, y0: 0, sphere: true },
+    },
+    27700: {
+        name: "OSGB36 / British National Grid", ellps: ELLIPSOIDS.Airy,
+        towgs84: [446.448, -125.157, 542.06, 0.15, 0.247, 0.842, -20.489],
+        projection: tm(-2, 0.9996012717, 400000, -100000, 49),
+    },
+    2154: {
+        name: "RGF93 / Lambert-93", ellps: ELLIPSOIDS.GRS80,
+        projection: { proj: "lcc", lat0: 46.5, lon0: 3, lat1: 49, lat2: 44, k0: 1, x0: 700000, y0: 6600000 },
+    },
+    2180: { name: "ETRS89 / Poland CS92", ellps: ELLIPSOIDS.GRS80, projection: tm(19, 0.9993, 500000, -5300000) },
+    31467: { name: "DHDN / 3-degree Gauss-Kruger zone 3", ellps: ELLIPSOIDS.Bessel, towgs84: DHDN_TOWGS84, projection: tm(9, 1, 3500000, 0) },
+    31468: { name: "DHDN / 3-degree Gauss-Kruger zone 4", ellps: ELLIPSOIDS.Bessel, towgs84: DHDN_TOWGS84, projection: tm(12, 1, 4500000, 0) },
+};
+
+// Zone families are generated rather than listed
+export function crsFromEpsg(code: number): CrsDef | null {
+    const fixed = FIXED[code];
+    if (fixed) return { code, toMeter: 1, ...fixed };
+    const zoned = (name: string, ellps: Ellipsoid, projection: Projection, towgs84?: number[]): CrsDef =>
+        ({ code, name, ellps, projection, towgs84, toMeter: 1 });
+
+    if (code >= 32601 && code <= 32660) return zoned(`WGS 84 / UTM zone ${code - 32600}N`, ELLIPSOIDS.WGS84, utm(code - 32600, false));
+    if (code >= 32701 && code <= 32760) return zoned(`WGS 84 / UTM zone ${code - 32700}S`, ELLIPSOIDS.WGS84, utm(code - 32700, true));
+    if (code >= 25828 && code <= 25838) return zoned(`ETRS89 / UTM zone ${code - 25800}N`, ELLIPSOIDS.GRS80, utm(code - 25800, false));
+    if (code >= 26901 && code <= 26923) return zoned(`NAD83 / UTM zone ${code - 26900}N`, ELLIPSOIDS.GRS80, utm(code - 26900, false));
+    if (code >= 28348 && code <= 28358) return zoned(`GDA94 / MGA zone ${code - 28300}`, ELLIPSOIDS.GRS80, utm(code - 28300, true));
+    if (code >= 28404 && code <= 28432) {
+        const zone = code - 28400;
+        return zoned(`Pulkovo 1942 / Gauss-Kruger zone ${zone}`, ELLIPSOIDS.Krassowsky,
+            tm(zone * 6 - 3, 1, zone * 1e6 + 500000, 0), PULKOVO_TOWGS84);
+    }
+    return null;
+}
+
+// -----------------------------
+// GeoTIFF geo keys
+// -----------------------------
+const LINEAR_UNITS: Record<number, number> = { 9001: 1, 9002: 0.3048, 9003: 1200 / 3937 };
+
+// GeoTIFF ProjCoordTransGeoKey codes
+const CT_TRANSVERSE_MERCATOR = 1;
+const CT_MERCATOR = 7;
+const CT_LCC_2SP = 8;
+const CT_LCC_1SP = 9;
+
+const USER_DEFINED = 32767;
+
+// Reads the CRS a GeoTIFF declares: an EPSG code from the bundled table, a UTM
+// ProjectionGeoKey on a known datum, or a fully user-defined projection.
+// null when the file names something we don't carry.
+export function crsFromGeoKeys(keys: Record<string, any> | null | undefined): CrsDef | null {
+    if (!keys) return null;
+    const projected = keys.ProjectedCSTypeGeoKey;
+    if (projected && projected !== USER_DEFINED) return crsFromEpsg(projected);
+
+    const geog = keys.GeographicTypeGeoKey;
+    const datum = geog && geog !== USER_DEFINED ? crsFromEpsg(geog) : null;
+    const ellCode = keys.GeogEllipsoidGeoKey;
+    const ellps: Ellipsoid = datum?.ellps
+        ?? (ellCode && ELLIPSOID_CODES[ellCode])
+        ?? (keys.GeogSemiMajorAxisGeoKey && keys.GeogInvFlatteningGeoKey
+            ? { name: "user-defined", a: keys.GeogSemiMajorAxisGeoKey, f: 1 / keys.GeogInvFlatteningGeoKey }
+            : ELLIPSOIDS.WGS84);
+    const base = { ellps, towgs84: datum?.towgs84 };
+
+    if (keys.GTModelTypeGeoKey === 2 || (!keys.GTModelTypeGeoKey && !keys.ProjectionGeoKey && datum)) {
+        if (datum) return datum;
+        return { code: null, name: "Geographic (user-defined datum)", toMeter: 1, ...base, projection: { proj: "longlat" } };
+    }
+
+    const toMeter = LINEAR_UNITS[keys.ProjLinearUnitsGeoKey] ?? keys.ProjLinearUnitSizeGeoKey ?? 1;
+    const proj = keys.ProjectionGeoKey;
+    // EPSG projection codes 16001–16060 / 16101–16160 are UTM north / south
+    if (proj >= 16001 && proj <= 16060) return { code: null, name: `UTM zone ${proj - 16000}N (${ellps.name})`, toMeter, ...base, projection: utm(proj - 16000, false) };
+    if (proj >= 16101 && proj <= 16160) return { code: null, name: `UTM zone ${proj - 16100}S (${ellps.name})`, toMeter, ...base, projection: utm(proj - 16100, true) };
+
+    const k = (name: string, fallback = 0) => Number.isFinite(keys[name]) ? keys[name] as number : fallback;
+    const x0 = k("ProjFalseEastingGeoKey", k("ProjFalseOriginEastingGeoKey"));
+    const y0 = k("ProjFalseNorthingGeoKey", k("ProjFalseOriginNorthingGeoKey"));
+    const lon0 = k("ProjNatOriginLongGeoKey", k("ProjFalseOriginLongGeoKey", k("ProjCenterLongGeoKey")));
+    const lat0 = k("ProjNatOriginLatGeoKey", k("ProjFalseOriginLatGeoKey", k("ProjCenterLatGeoKey")));
+    const k0 = k("ProjScaleAtNatOriginGeoKey", 1);
+    const user = (name: string, projection: Projection): CrsDef => ({ code: null, name, toMeter, ...base, projection });
+
+    switch (keys.ProjCoordTransGeoKey) {
+        case CT_TRANSVERSE_MERCATOR:
+            return user(`Transverse Mercator λ0=${lon0}° (${ellps.name})`, tm(lon0, k0, x0, y0, lat0));
+        case CT_MERCATOR:
+            return user(`Mercator λ0=${lon0}° (${ellps.name})`, { proj: "merc", lon0, k0, x0, y0 });
+        case CT_LCC_2SP:
+            return user(`Lambert conformal conic (${ellps.name})`, {
+                proj: "lcc", lat0, lon0, k0: 1, x0, y0,
+                lat1: k("ProjStdParallel1GeoKey", lat0), lat2: k("ProjStdParallel2GeoKey", lat0),
+            });
+        case CT_LCC_1SP:
+            return user(`Lambert conformal conic 1SP (${ellps.name})`, { proj: "lcc", lat0, lon0, lat1: lat0, lat2: lat0, k0, x0, y0 });
+    }
+    return null;
+}
+
+export function describeCrs(crs: CrsDef | null) {
+    if (!crs) return "unknown";
+    return crs.code ? `EPSG:${crs.code} ${crs.name}` : crs.name;
+}
+
+// -----------------------------
+// Datum shift (WGS84 ↔ CRS datum)
+// -----------------------------
+function helmert(P: number[], t: number[], inverse: boolean) {
+    const [dx, dy, dz, rx, ry, rz, ds] = t;
+    const s = 1 + (ds ?? 0) * 1e-6;
+    const [ax, ay, az] = [(rx ?? 0) * ARCSEC, (ry ?? 0) * ARCSEC, (rz ?? 0) * ARCSEC];
+    if (!inverse) {
+        const [x, y, z] = P;
+        return [
+            dx + s * (x - az * y + ay * z),
+            dy + s * (az * x + y - ax * z),
+            dz + s * (-ay * x + ax * y + z),
+        ];
+    }
+    // small-angle inverse: transpose of the rotation
+    const [x, y, z] = [(P[0] - dx) / s, (P[1] - dy) / s, (P[2] - dz) / s];
+    return [x + az * y - ay * z, -az * x + y + ax * z, ay * x - ax * y + z];
+}
+
+function fromWgs84(crs: CrsDef, lat: number, lon: number) {
+    if (!crs.towgs84) return { lat, lon };
+    const e2 = crs.ellps.f * (2 - crs.ellps.f);
+    const g = ecefToGeodetic(helmert(geodeticToECEF(lat, lon, 0), crs.towgs84, true), crs.ellps.a, e2);
+    return { lat: g.lat, lon: g.lon };
+}
+
+function toWgs84(crs: CrsDef, lat: number, lon: number) {
+    if (!crs.towgs84) return { lat, lon };
+    const e2 = crs.ellps.f * (2 - crs.ellps.f);
+    const g = ecefToGeodetic(helmert(geodeticToECEF(lat, lon, 0, crs.ellps.a, e2), crs.towgs84, false));
+    return { lat: g.lat, lon: g.lon };
+}
+
+// -----------------------------
+// Projections (Snyder, USGS PP 1395)
+// -----------------------------
+function meridianArc(phi: number, e2: number, a: number) {
+    const e4 = e2 * e2, e6 = e4 * e2;
+    return a * (
+        (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi
+        - (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi)
+        + (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi)
+        - (35 * e6 / 3072) * Math.sin(6 * phi)
+    );
+}
+
+function tmercForward(p: Extract<Projection, { proj: "tmerc" }>, a: number, e2: number, lat: number, lon: number) {
+    const ep2 = e2 / (1 - e2);
+    const phi = toRad(lat);
+    const sin = Math.sin(phi), cos = Math.cos(phi), tan = Math.tan(phi);
+    const N = a / Math.sqrt(1 - e2 * sin * sin);
+    const T = tan * tan, C = ep2 * cos * cos;
+    const A = toRad(((lon - p.lon0 + 540) % 360) - 180) * cos;
+    const M = meridianArc(phi, e2, a), M0 = meridianArc(toRad(p.lat0), e2, a);
+    const x = p.k0 * N * (A + (1 - T + C) * A ** 3 / 6 + (5 - 18 * T + T * T + 72 * C - 58 * ep2) * A ** 5 / 120);
+    const y = p.k0 * (M - M0 + N * tan * (A * A / 2 + (5 - T + 9 * C + 4 * C * C) * A ** 4 / 24
+        + (61 - 58 * T + T * T + 600 * C - 330 * ep2) * A ** 6 / 720));
+    return { x, y };
+}
+
+function tmercInverse(p: Extract<Projection, { proj: "tmerc" }>, a: number, e2: number, x: number, y: number) {
+    const ep2 = e2 / (1 - e2);
+    const e4 = e2 * e2, e6 = e4 * e2;
+    const M = meridianArc(toRad(p.lat0), e2, a) + y / p.k0;
+    const mu = M / (a * (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256));
+    const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+    const phi1 = mu
+        + (3 * e1 / 2 - 27 * e1 ** 3 / 32) * Math.sin(2 * mu)
+        + (21 * e1 * e1 / 16 - 55 * e1 ** 4 / 32) * Math.sin(4 * mu)
+        + (151 * e1 ** 3 / 96) * Math.sin(6 * mu)
+        + (1097 * e1 ** 4 / 512) * Math.sin(8 * mu);
+    const sin = Math.sin(phi1), cos = Math.cos(phi1), tan = Math.tan(phi1);
+    const C1 = ep2 * cos * cos, T1 = tan * tan;
+    const N1 = a / Math.sqrt(1 - e2 * sin * sin);
+    const R1 = a * (1 - e2) / Math.pow(1 - e2 * sin * sin, 1.5);
+    const D = x / (N1 * p.k0);
+    const phi = phi1 - (N1 * tan / R1) * (D * D / 2
+        - (5 + 3 * T1 + 10 * C1 - 4 * C1 * C1 - 9 * ep2) * D ** 4 / 24
+        + (61 + 90 * T1 + 298 * C1 + 45 * T1 * T1 - 252 * ep2 - 3 * C1 * C1) * D ** 6 / 720);
+    const lam = (D - (1 + 2 * T1 + C1) * D ** 3 / 6
+        + (5 - 2 * C1 + 28 * T1 - 3 * C1 * C1 + 8 * ep2 + 24 * T1 * T1) * D ** 5 / 120) / cos;
+    return { lat: toDeg(phi), lon: p.lon0 + toDeg(lam) };
+}
+
+// conformal latitude helpers shared by LCC and ellipsoidal Mercator
+const tsfn = (phi: number, e: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) / Math.pow((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi)), e / 2);
+const msfn = (phi: number, e2: number) => Math.cos(phi) / Math.sqrt(1 - e2 * Math.sin(phi) ** 2);
+
+function phiFromTs(ts: number, e: number) {
+    let phi = Math.PI / 2 - 2 * Math.atan(ts);
+    for (let i = 0; i < 15; i++) {
+        const es = e * Math.sin(phi);
+        const next = Math.PI / 2 - 2 * Math.atan(ts * Math.pow((1 - es) / (1 + es), e / 2));
+        if (Math.abs(next - phi) < 1e-12) return next;
+        phi = next;
+    }
+    return phi;
+}
+
+function lccConstants(p: Extract<Projection, { proj: "lcc" }>, a: number, e2: number) {
+    const e = Math.sqrt(e2);
+    const p1 = toRad(p.lat1), p2 = toRad(p.lat2);
+    const m1 = msfn(p1, e2), t1 = tsfn(p1, e);
+    const n = Math.abs(p1 - p2) < 1e-10
+        ? Math.sin(p1)
+        : (Math.log(m1) - Math.log(msfn(p2, e2))) / (Math.log(t1) - Math.log(tsfn(p2, e)));
+    const F = m1 / (n * Math.pow(t1, n));
+    const rho0 = a * F * p.k0 * Math.pow(tsfn(toRad(p.lat0), e), n);
+    return { e, n, F, rho0 };
+}
+
+function lccForward(p: Extract<Projection, { proj: "lcc" }>, a: number, e2: number, lat: number, lon: number) {
+    const { e, n, F, rho0 } = lccConstants(p, a, e2);
+    const rho = a * F * p.k0 * Math.pow(tsfn(toRad(lat), e), n);
+    const theta = n * toRad(((lon - p.lon0 + 540) % 360) - 180);
+    return { x: rho * Math.sin(theta), y: rho0 - rho * Math.cos(theta) };
+}
+
+function lccInverse(p: Extract<Projection, { proj: "lcc" }>, a: number, e2: number, x: number, y: number) {
+    const { e, n, F, rho0 } = lccConstants(p, a, e2);
+    const sgn = Math.sign(n);
+    const rho = sgn * Math.hypot(x, rho0 - y);
+    const theta = Math.atan2(sgn * x, sgn * (rho0 - y));
+    const ts = Math.pow(rho / (a * F * p.k0), 1 / n);
+    return { lat: toDeg(phiFromTs(ts, e)), lon: p.lon0 + toDeg(theta / n) };
+}
+
+function mercForward(p: Extract<Projection, { proj: "merc" }>, a: number, e2: number, lat: number, lon: number) {
+    const phi = toRad(lat);
+    const x = a * p.k0 * toRad(((lon - p.lon0 + 540) % 360) - 180);
+    const y = p.sphere
+        ? a * p.k0 * Math.log(Math.tan(Math.PI / 4 + phi / 2))
+        : -a * p.k0 * Math.log(tsfn(phi, Math.sqrt(e2)));
+    return { x, y };
+}
+
+function mercInverse(p: Extract<Projection, { proj: "merc" }>, a: number, e2: number, x: number, y: number) {
+    const lon = p.lon0 + toDeg(x / (a * p.k0));
+    const ts = Math.exp(-y / (a * p.k0));
+    const lat = p.sphere ? toDeg(Math.PI / 2 - 2 * Math.atan(ts)) : toDeg(phiFromTs(ts, Math.sqrt(e2)));
+    return { lat, lon };
+}
+
+// -----------------------------
+// Public transforms
+// -----------------------------
+// WGS84 lat/lon (deg) → CRS x/y in its own units (deg for geographic CRSs)
+export function toCrs(crs: CrsDef, lat: number, lon: number): { x: number; y: number } {
+    const g = fromWgs84(crs, lat, lon);
+    const p = crs.projection;
+    if (p.proj === "longlat") return { x: g.lon, y: g.lat };
+    const { a, f } = crs.ellps;
+    const e2 = f * (2 - f);
+    const m = p.proj === "tmerc" ? tmercForward(p, a, e2, g.lat, g.lon)
+        : p.proj === "lcc" ? lccForward(p, a, e2, g.lat, g.lon)
+        : mercForward(p, a, e2, g.lat, g.lon);
+    return { x: (m.x + p.x0 * crs.toMeter) / crs.toMeter, y: (m.y + p.y0 * crs.toMeter) / crs.toMeter };
+}
+
+// CRS x/y → WGS84 lat/lon (deg)
+export function fromCrs(crs: CrsDef, x: number, y: number): { lat: number; lon: number } {
+    const p = crs.projection;
+    if (p.proj === "longlat") return toWgs84(crs, y, x);
+    const { a, f } = crs.ellps;
+    const e2 = f * (2 - f);
+    const mx = x * crs.toMeter - p.x0 * crs.toMeter, my = y * crs.toMeter - p.y0 * crs.toMeter;
+    const g = p.proj === "tmerc" ? tmercInverse(p, a, e2, mx, my)
+        : p.proj === "lcc" ? lccInverse(p, a, e2, mx, my)
+        : mercInverse(p, a, e2, mx, my);
+    return toWgs84(crs, g.lat, g.lon);
+}
@@ -0,0 +1,168 @@
+// ============================================================================
+// FILE: src/utils/demCache.ts
+// PURPOSE: Decoded DEM data held as 256×256 Float32 blocks under one memory
+//          cap. Rasters that fit are decoded once at load and pinned; larger
+//          GeoTIFFs (COGs) stay lazy, their blocks read on demand and evicted
+//          least-recently-used. Voids are stored as NaN.
+// ============================================================================
+import { DemRaster } from "./demFormats";
+
+export const DEM_BLOCK = 256;
+
+const LIMIT_KEY = "aw5.demCacheLimitMB";
+const DEFAULT_LIMIT_MB = 768;
+const MB = 1024 * 1024;
+
+export type BlockSource = {
+    id: string;
+    width: number;
+    height: number;
+    noData: number | null;
+    read?: DemRaster["read"];   // only kept by lazy sources
+};
+
+type Block = { data: Float32Array; pinned: boolean; used: number };
+
+const blocks = new Map<string, Block>();
+const pending = new Map<string, Promise<Float32Array | null>>();
+let usedBytes = 0;
+let clock = 0;
+let limitBytes = loadLimitMB() * MB;
+
+function loadLimitMB() {
+    try {
+        const v = parseFloat(localStorage.getItem(LIMIT_KEY) ?? "");
+        return v > 0 ? v : DEFAULT_LIMIT_MB;
+    } catch { return DEFAULT_LIMIT_MB; }
+}
+
+export function setDemCacheLimit(mb: number) {
+    if (!(mb > 0)) return;
+    limitBytes = mb * MB;
+    try { localStorage.setItem(LIMIT_KEY, String(mb)); } catch { /* private mode */ }
+    evict();
+}
+
+export function demCacheStats() {
+    let pinned = 0;
+    for (const b of blocks.values()) if (b.pinned) pinned += b.data.byteLength;
+    return { usedMB: usedBytes / MB, pinnedMB: pinned / MB, limitMB: limitBytes / MB, blocks: blocks.size };
+}
+
+const keyOf = (id: string, bx: number, by: number) => `${id}:${bx}:${by}`;
+
+function blockSize(src: BlockSource, bx: number, by: number) {
+    return {
+        w: Math.min(DEM_BLOCK, src.width - bx * DEM_BLOCK),
+        h: Math.min(DEM_BLOCK, src.height - by * DEM_BLOCK),
+    };
+}
+
+function toBlock(src: BlockSource, values: ArrayLike<number>) {
+    const data = values instanceof Float32Array ? values : Float32Array.from(values);
+    // why: a GDAL_NODATA string parsed as double can differ from its float32 cells
+    const nd = src.noData === null ? null : Math.fround(src.noData);
+    for (let i = 0; i < data.length; i++) if (nd !== null && data[i] === nd) data[i] = NaN;
+    return data;
+}
+
+function put(key: string, data: Float32Array, pinned: boolean) {
+    const old = blocks.get(key);
+    if (old) usedBytes -= old.data.byteLength;
+    blocks.set(key, { data, pinned, used: ++clock });
+    usedBytes += data.byteLength;
+}
+
+// Drops least-recently-used lazy blocks until under the cap
+function evict() {
+    if (usedBytes <= limitBytes) return;
+    const lazy = [...blocks.entries()].filter(([, b]) => !b.pinned).sort((a, b) => a[1].used - b[1].used);
+    for (const [key, b] of lazy) {
+        if (usedBytes <= limitBytes) break;
+        blocks.delete(key);
+        usedBytes -= b.data.byteLength;
+    }
+}
+
+// Resident block or undefined; never reads
+export function getBlock(src: BlockSource, bx: number, by: number): Float32Array | undefined {
+    const b = blocks.get(keyOf(src.id, bx, by));
+    if (!b) return undefined;
+    b.used = ++clock;
+    return b.data;
+}
+
+// Reads a lazy block (once, however many samplers ask); null when the source
+// keeps no reader or the read fails
+export function loadBlock(src: BlockSource, bx: number, by: number): Promise<Float32Array | null> {
+    const key = keyOf(src.id, bx, by);
+    const have = blocks.get(key);
+    if (have) return Promise.resolve(have.data);
+    const inFlight = pending.get(key);
+    if (inFlight) return inFlight;
+    if (!src.read) return Promise.resolve(null);
+
+    const { w, h } = blockSize(src, bx, by);
+    const p = src.read(bx * DEM_BLOCK, by * DEM_BLOCK, w, h)
+        .then(values => {
+            const data = toBlock(src, values);
+            put(key, data, false);
+            evict();
+            return data;
+        })
+        .catch(() => null)
+        .finally(() => pending.delete(key));
+    pending.set(key, p);
+    return p;
+}
+
+// Whole raster as pinned blocks when it fits beside what is already pinned,
+// a strip of blocks at a time to bound the decode peak. Returns the highest
+// valid value, or null when the source must stay lazy.
+export async function preloadSource(src: BlockSource, force = false): Promise<{ max: number } | null> {
+    if (!src.read) return null;
+    const bytes = src.width * src.height * 4;
+    if (!force && demCacheStats().pinnedMB * MB + bytes > limitBytes) return null;
+    let max = -Infinity;
+
+    const nbx = Math.ceil(src.width / DEM_BLOCK), nby = Math.ceil(src.height / DEM_BLOCK);
+    for (let by = 0; by < nby; by++) {
+        const h = Math.min(DEM_BLOCK, src.height - by * DEM_BLOCK);
+        const strip = await src.read(0, by * DEM_BLOCK, src.width, h);
+        for (let bx = 0; bx < nbx; bx++) {
+            const w = Math.min(DEM_BLOCK, src.width - bx * DEM_BLOCK);
+            const values = new Float32Array(w * h);
+            for (let r = 0; r < h; r++) {
+                for (let c = 0; c < w; c++) values[r * w + c] = strip[r * src.width + bx * DEM_BLOCK + c];
+            }
+            const data = toBlock(src, values);
+            for (let i = 0; i < data.length; i++) if (data[i] > max) max = data[i];
+            put(keyOf(src.id, bx, by), data, true);
+        }
+    }
+    evict();
+    return { max };
+}
+
+export function dropSource(id: string) {
+    for (const [key, b] of blocks) {
+        if (!key.startsWith(`${id}:`)) continue;
+        blocks.delete(key);
+        usedBytes -= b.data.byteLength;
+    }
+}
+
+// Node value: NaN for voids and outside the raster, undefined when its block
+// is not resident (the caller loads it and retries)
+export function nodeValue(src: BlockSource, col: number, row: number): number | undefined {
+    if (col < 0 || row < 0 || col >= src.width || row >= src.height) return NaN;
+    const bx = Math.floor(col / DEM_BLOCK), by = Math.floor(row / DEM_BLOCK);
+    const data = getBlock(src, bx, by);
+    if (!data) return undefined;
+    const w = Math.min(DEM_BLOCK, src.width - bx * DEM_BLOCK);
+    return data[(row - by * DEM_BLOCK) * w + (col - bx * DEM_BLOCK)];
+}
+
+export function blockOf(col: number, row: number) {
+    return { bx: Math.floor(col / DEM_BLOCK), by: Math.floor(row / DEM_BLOCK) };
+}
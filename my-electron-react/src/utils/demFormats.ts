@@ -0,0 +1,270 @@
+// ============================================================================
+// FILE: src/utils/demFormats.ts
+// PURPOSE: DEM file readers — GeoTIFF, SRTM .hgt, ESRI ASCII grid and gridded
+//          XYZ point lists — all exposed as one windowed raster with a node
+//          geotransform, CRS and nodata value for the mosaic to sample.
+// ============================================================================
+import { fromBlob, GeoTIFFImage } from "geotiff";
+import { CrsDef, crsFromEpsg, crsFromGeoKeys } from "./crs";
+import { DemVertical, verticalFromGeoKeys } from "./demVertical";
+
+// Node (col, row) → CRS (x, y): x = x0 + xc·col + xr·row, y = y0 + yc·col + yr·row
+export type GeoTransform = { x0: number; xc: number; xr: number; y0: number; yc: number; yr: number };
+
+export type DemFormat = "GeoTIFF" | "SRTM HGT" | "ESRI ASCII" | "XYZ";
+
+export type DemRaster = {
+    format: DemFormat;
+    width: number;
+    height: number;
+    transform: GeoTransform;
+    crs: CrsDef | null;
+    pixelIsArea: boolean;          // as the file declared it; transform is already node-centred
+    noData: number | null;
+    vertical: Partial<DemVertical>;    // what the file declares about its heights
+    // row-major values of the window [c0, c0+w) × [r0, r0+h)
+    read: (c0: number, r0: number, w: number, h: number) => Promise<ArrayLike<number>>;
+};
+
+export type DemReadOptions = {
+    prj?: string;                  // .prj sidecar text (WKT) for grids that carry no CRS
+    defaultEpsg?: number;          // CRS for grids with neither a .prj nor geographic-looking coords
+};
+
+export const DEM_FILE_EXT = /\.(tiff?|hgt|asc|xyz|txt|csv)$/i;
+
+const HGT_NODATA = -32768;
+
+export async function readDemFile(file: File, opts: DemReadOptions = {}): Promise<DemRaster> {
+    const name = file.name;
+    if (/\.hgt$/i.test(name)) return parseHGT(await file.arrayBuffer(), name);
+
+    // why: only the header is read here, so a Cloud-Optimized GeoTIFF stays on disk
+    // and its blocks are fetched as windows are sampled
+    const head = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    const isTiff = (head[0] === 0x49 && head[1] === 0x49) || (head[0] === 0x4d && head[1] === 0x4d);
+    if (isTiff) return readGeoTIFF(file, name);
+
+    const text = await file.text();
+    if (/^\s*ncols\b/i.test(text)) return parseASCIIGrid(text, name, opts);
+    if (/\.(xyz|txt|csv)$/i.test(name)) return parseXYZ(text, name, opts);
+    throw new Error(`${name}: not a recognised DEM (GeoTIFF, .hgt, ESRI .asc or XYZ).`);
+}
+
+// In-memory rasters (everything but GeoTIFF) share one window reader
+function memoryReader(data: Float32Array, width: number) {
+    return async (c0: number, r0: number, w: number, h: number) => {
+        const out = new Float32Array(w * h);
+        for (let r = 0; r < h; r++) out.set(data.subarray((r0 + r) * width + c0, (r0 + r) * width + c0 + w), r * w);
+        return out;
+    };
+}
+
+// -----------------------------
+// GeoTIFF
+// -----------------------------
+// ModelTransformation carries rotation; otherwise the tie point plus pixel
+// scale (y grows down the raster).
+function readGeoTransform(img: GeoTIFFImage, name: string): GeoTransform {
+    const fd = img.getFileDirectory() as any;
+    const m = fd.ModelTransformation as number[] | undefined;
+    if (m && m.length >= 8) return { x0: m[3], xc: m[0], xr: m[1], y0: m[7], yc: m[4], yr: m[5] };
+
+    const tie = img.getTiePoints();
+    const scale = fd.ModelPixelScale as number[] | undefined;
+    if (tie && tie.length > 0 && scale && scale.length >= 2) {
+        const tp = tie[0];
+        return { x0: tp.x - tp.i * scale[0], xc: scale[0], xr: 0, y0: tp.y + tp.j * scale[1], yc: 0, yr: -scale[1] };
+    }
+    throw new Error(`${name}: DEM GeoTIFF has neither tie points + pixel scale nor a model transformation; cannot geolocate.`);
+}
+
+async function readGeoTIFF(file: Blob, name: string): Promise<DemRaster> {
+    const tiff = await fromBlob(file);
+    const img = await tiff.getImage();
+    const geoKeys = (img as any).getGeoKeys?.() as any;
+    const nd = (img as any).fileDirectory?.GDAL_NODATA
+        ? parseFloat((img as any).fileDirectory.GDAL_NODATA)
+        : undefined;
+
+    // why: PixelIsArea (the default) georeferences the pixel corner, nodes are at centres
+    const pixelIsArea = geoKeys?.GTRasterTypeGeoKey !== 2;
+    const raw = readGeoTransform(img, name);
+    const half = pixelIsArea ? 0.5 : 0;
+    const transform: GeoTransform = {
+        ...raw,
+        x0: raw.x0 + (raw.xc + raw.xr) * half,
+        y0: raw.y0 + (raw.yc + raw.yr) * half,
+    };
+
+    return {
+        format: "GeoTIFF", width: img.getWidth(), height: img.getHeight(), transform,
+        crs: crsFromGeoKeys(geoKeys), pixelIsArea,
+        noData: Number.isFinite(nd as any) ? (nd as number) : null,
+        vertical: verticalFromGeoKeys(geoKeys),
+        read: async (c0, r0, w, h) => {
+            const window = [c0, r0, c0 + w, r0 + h] as [number, number, number, number];
+            return await img.readRasters({ window, width: w, height: h, interleave: true }) as Float32Array | number[];
+        },
+    };
+}
+
+// -----------------------------
+// SRTM .hgt
+// -----------------------------
+// Square big-endian int16 grid named after its south-west corner (N40E044);
+// 3601² for 1″, 1201² for 3″. Nodes run north to south and overlap neighbours.
+export function parseHGT(buf: ArrayBuffer, name: string): DemRaster {
+    const m = /([NS])(\d{1,2})([EW])(\d{1,3})/i.exec(name);
+    if (!m) throw new Error(`${name}: .hgt name must give the south-west corner, e.g. N40E044.hgt.`);
+    const lat = (m[1].toUpperCase() === "S" ? -1 : 1) * parseInt(m[2], 10);
+    const lon = (m[3].toUpperCase() === "W" ? -1 : 1) * parseInt(m[4], 10);
+
+    const n = Math.round(Math.sqrt(buf.byteLength / 2));
+    if (n < 2 || n * n * 2 !== buf.byteLength) throw new Error(`${name}: ${buf.byteLength} bytes is not a square int16 grid.`);
+    const dv = new DataView(buf);
+    const data = new Float32Array(n * n);
+    for (let i = 0; i < n * n; i++) data[i] = dv.getInt16(i * 2, false);
+
+    const step = 1 / (n - 1);
+    return {
+        format: "SRTM HGT", width: n, height: n,
+        transform: { x0: lon, xc: step, xr: 0, y0: lat + 1, yc: 0, yr: -step },
+        crs: crsFromEpsg(4326), pixelIsArea: false, noData: HGT_NODATA,
+        vertical: { datum: "geoid", units: "metre" },  // EGM96 metres
+        read: memoryReader(data, n),
+    };
+}
+
+// -----------------------------
+// ESRI ASCII grid (.asc)
+// -----------------------------
+function gridCrs(x: number, y: number, cell: number, opts: DemReadOptions): CrsDef | null {
+    // a .prj we cannot read leaves the grid unsupported rather than guessed
+    if (opts.prj) return crsFromWkt(opts.prj);
+    if (opts.defaultEpsg) return crsFromEpsg(opts.defaultEpsg);
+    // why: without metadata, small cells inside ±180/±90 can only be degrees
+    return Math.abs(x) <= 180 && Math.abs(y) <= 90 && cell < 1 ? crsFromEpsg(4326) : null;
+}
+
+// Enough WKT to recognise the CRSs we carry: an EPSG authority/ID on the root,
+// else an ESRI-style UTM name.
+export function crsFromWkt(wkt: string): CrsDef | null {
+    // why: only the root's code names the grid's CRS; the GEOGCS inside a PROJCS
+    // is in degrees, so an unknown projected code must stay unsupported
+    const root = rootEpsg(wkt);
+    if (root !== null) return crsFromEpsg(root);
+    const utm = /UTM[_ ]zone[_ ](\d{1,2})\s*([NS])/i.exec(wkt);
+    if (!utm) return /GEOGCS\["GCS_WGS_1984"|GEOGCS\["WGS 84"/i.test(wkt) && !/PROJCS|PROJCRS|PROJECTEDCRS/i.test(wkt) ? crsFromEpsg(4326) : null;
+    const zone = parseInt(utm[1], 10), south = utm[2].toUpperCase() === "S";
+    if (/ETRS|ETRF/i.test(wkt) && !south) return crsFromEpsg(25800 + zone);
+    if (/NAD_?1983|NAD83/i.test(wkt) && !south) return crsFromEpsg(26900 + zone);
+    return crsFromEpsg((south ? 32700 : 32600) + zone);
+}
+
+// EPSG code in AUTHORITY[...] (WKT1) or ID[...] (WKT2) directly inside the root object
+function rootEpsg(wkt: string): number | null {
+    const rx = /(?:AUTHORITY|ID)\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]/iy;
+    let depth = 0, quoted = false;
+    for (let i = 0; i < wkt.length; i++) {
+        const ch = wkt[i];
+        if (ch === '"') { quoted = !quoted; continue; }
+        if (quoted) continue;
+        if (ch === "[" || ch === "(") depth++;
+        else if (ch === "]" || ch === ")") depth--;
+        else if (depth === 1 && /[AI]/i.test(ch) && !/[A-Z_]/i.test(wkt[i - 1] ?? "")) {
+            rx.lastIndex = i;
+            const m = rx.exec(wkt);
+            if (m) return parseInt(m[1], 10);
+        }
+    }
+    return null;
+}
+
+export function parseASCIIGrid(text: string, name: string, opts: DemReadOptions = {}): DemRaster {
+    const header: Record<string, number> = {};
+    const tokens = text.split(/\s+/).filter(Boolean);
+    let i = 0;
+    while (i + 1 < tokens.length && /^[a-z_]+$/i.test(tokens[i])) {
+        header[tokens[i].toLowerCase()] = parseFloat(tokens[i + 1]);
+        i += 2;
+    }
+    const cols = header.ncols, rows = header.nrows;
+    const dx = header.cellsize ?? header.dx, dy = header.cellsize ?? header.dy;
+    if (!(cols > 0 && rows > 0 && dx > 0 && dy > 0)) throw new Error(`${name}: ESRI ASCII header needs ncols, nrows and cellsize.`);
+
+    // xllcorner: outer corner of the lower-left cell; xllcenter: its node
+    const corner = header.xllcorner !== undefined;
+    const xll = corner ? header.xllcorner + dx / 2 : header.xllcenter;
+    const yll = corner ? header.yllcorner + dy / 2 : header.yllcenter;
+    if (!Number.isFinite(xll) || !Number.isFinite(yll)) throw new Error(`${name}: ESRI ASCII header needs xllcorner/yllcorner or xllcenter/yllcenter.`);
+
+    const n = cols * rows;
+    if (tokens.length - i < n) throw new Error(`${name}: expected ${n} values, found ${tokens.length - i}.`);
+    const data = new Float32Array(n);
+    for (let k = 0; k < n; k++) data[k] = parseFloat(tokens[i + k]);
+
+    return {
+        format: "ESRI ASCII", width: cols, height: rows,
+        transform: { x0: xll, xc: dx, xr: 0, y0: yll + dy * (rows - 1), yc: 0, yr: -dy },
+        crs: gridCrs(xll, yll, Math.max(dx, dy), opts), pixelIsArea: corner,
+        noData: Number.isFinite(header.nodata_value) ? header.nodata_value : null,
+        vertical: {},
+        read: memoryReader(data, cols),
+    };
+}
+
+// -----------------------------
+// XYZ point lists
+// -----------------------------
+const MAX_XYZ_CELLS = 50_000_000;
+
+// Most common positive gap between sorted unique coordinates — the grid step
+function gridStep(values: number[]) {
+    const u = [...new Set(values)].sort((a, b) => a - b);
+    const counts = new Map<number, number>();
+    for (let i = 1; i < u.length; i++) {
+        const d = +(u[i] - u[i - 1]).toPrecision(6);
+        counts.set(d, (counts.get(d) ?? 0) + 1);
+    }
+    let best = 0, bestN = 0;
+    for (const [d, n] of counts) if (n > bestN || (n === bestN && d < best)) { best = d; bestN = n; }
+    return { step: best, min: u[0], max: u[u.length - 1] };
+}
+
+// "x y z" per line (space, tab, comma or semicolon), header lines skipped.
+// Points must sit on a regular grid; cells without a point become nodata.
+export function parseXYZ(text: string, name: string, opts: DemReadOptions = {}): DemRaster {
+    const xs: number[] = [], ys: number[] = [], zs: number[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const f = line.trim().split(/[\s,;]+/);
+        if (f.length < 3) continue;
+        const x = parseFloat(f[0]), y = parseFloat(f[1]), z = parseFloat(f[2]);
+        if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) continue;
+        xs.push(x); ys.push(y); zs.push(z);
+    }
+    if (xs.length < 4) throw new Error(`${name}: fewer than 4 x y z points.`);
+
+    const gx = gridStep(xs), gy = gridStep(ys);
+    if (!(gx.step > 0 && gy.step > 0)) throw new Error(`${name}: XYZ points do not form a grid.`);
+    const cols = Math.round((gx.max - gx.min) / gx.step) + 1;
+    const rows = Math.round((gy.max - gy.min) / gy.step) + 1;
+    if (cols * rows > MAX_XYZ_CELLS || xs.length < 0.1 * cols * rows)
+        throw new Error(`${name}: XYZ points are not on a regular grid (${xs.length} points for ${cols}×${rows} nodes).`);
+
+    const data = new Float32Array(cols * rows).fill(NaN);
+    for (let k = 0; k < xs.length; k++) {
+        const c = Math.round((xs[k] - gx.min) / gx.step);
+        const r = Math.round((gy.max - ys[k]) / gy.step);
+        data[r * cols + c] = zs[k];
+    }
+
+    return {
+        format: "XYZ", width: cols, height: rows,
+        transform: { x0: gx.min, xc: gx.step, xr: 0, y0: gy.max, yc: 0, yr: -gy.step },
+        crs: gridCrs(gx.min, gy.min, Math.max(gx.step, gy.step), opts), pixelIsArea: false,
+        noData: null,  // empty cells are NaN
+        vertical: {},
+        read: memoryReader(data, cols),
+    };
+}
@@ -0,0 +1,389 @@
+// ============================================================================
+// FILE: src/utils/demMosaic.ts
+// PURPOSE: A set of DEM tiles indexed by bounding box and sampled as
+//          one surface — the tile under the point is read, and at a seam the
+//          bilinear neighbours are fetched from whichever tile holds them.
+//          Tiles may be in any bundled CRS, with rotated geotransforms, and in
+//          any format demFormats reads.
+// ============================================================================
+import { CrsDef, describeCrs, toCrs, fromCrs } from "./crs";
+import { DemFormat, DemReadOptions, GeoTransform, readDemFile } from "./demFormats";
+import { demCellSize, metersPerDeg } from "./projection";
+import { BlockSource, blockOf, dropSource, loadBlock, nodeValue, preloadSource } from "./demCache";
+import { DemVertical, DEFAULT_VERTICAL, describeVertical, savedVertical, saveDemVertical, toMetres } from "./demVertical";
+
+export type DemInterpolation = "nearest" | "bilinear" | "bicubic";
+
+// What fills a void — a point whose posts are all nodata. "secondary" is
+// resolved one level up (demService), from a second, coarser DEM.
+export type VoidFill = "none" | "idw" | "nearest" | "secondary";
+
+export type SampleOptions = {
+    method?: DemInterpolation;
+    undulation?: number;         // geoid N at the point (m); lowers ellipsoidal tiles to AMSL
+    voidFill?: VoidFill;
+    fillRadius?: number;         // m, how far "idw" / "nearest" look for valid posts
+};
+
+// How a sampled height was obtained:
+// partial:      bilinear over the valid posts only, some neighbours nodata
+// idw:          void filled by inverse-distance weighting of posts in the radius
+// nearest-fill: void filled with the nearest valid post in the radius
+// secondary:    void read from the secondary DEM
+export type DemSampleMethod = DemInterpolation | "partial" | "idw" | "nearest-fill" | "secondary";
+
+export type DemSample = { z: number | null; method: DemSampleMethod | null };
+
+export type DemTile = {
+    name: string;
+    path: string;                // file path under Electron, else the name; keys saved settings
+    format: DemFormat;
+    source: BlockSource;
+    lazy: boolean;               // blocks read on demand instead of decoded at load
+    maxZ?: number;               // highest stored value, known once decoded
+    width: number;
+    height: number;
+    transform: GeoTransform;
+    crs: CrsDef | null;          // null: not a CRS we carry, the tile is not sampled
+    pixelIsArea: boolean;
+    noData: number | null;
+    vertical: DemVertical;
+    cellSize: number;            // m, finer of the two node spacings
+    // WGS84 bounding box of the nodes, deg
+    west: number; east: number; south: number; north: number;
+    summary: string;
+};
+
+export type DemMosaic = {
+    tiles: DemTile[];
+    cellSize: number;            // m, finest posting across the tiles
+    supported: boolean;          // every tile's CRS is known
+    west: number; east: number; south: number; north: number;
+    summary: string;
+};
+
+function invert(t: GeoTransform) {
+    const det = t.xc * t.yr - t.xr * t.yc;
+    if (!det) throw new Error("DEM geotransform is singular.");
+    return (x: number, y: number) => {
+        const dx = x - t.x0, dy = y - t.y0;
+        return { col: (t.yr * dx - t.xr * dy) / det, row: (-t.yc * dx + t.xc * dy) / det };
+    };
+}
+
+function nodeXY(t: GeoTransform, col: number, row: number) {
+    return { x: t.x0 + t.xc * col + t.xr * row, y: t.y0 + t.yc * col + t.yr * row };
+}
+
+let tileSeq = 0;
+
+// full path under Electron, so same-named tiles from different folders keep their own settings
+function filePath(file: File) {
+    return (typeof window !== "undefined" && window.api?.pathForFile(file)) || file.name;
+}
+
+export async function loadDemTile(file: File, opts: DemReadOptions = {}): Promise<DemTile> {
+    const { format, width, height, transform, crs, pixelIsArea, noData, vertical: declared, read } = await readDemFile(file, opts);
+    const path = filePath(file);
+    const vertical = savedVertical(path) ?? { ...DEFAULT_VERTICAL, ...declared };
+    invert(transform);  // throws on a degenerate transform
+
+    // why: only GeoTIFFs can be read piecewise; other formats are already in memory
+    const src: BlockSource = { id: `${file.name}#${++tileSeq}`, width, height, noData, read };
+    const loaded = await preloadSource(src, format !== "GeoTIFF");
+    const lazy = !loaded;
+    const source = lazy ? src : { ...src, read: undefined };
+    const maxZ = loaded && Number.isFinite(loaded.max) ? loaded.max : undefined;
+
+    const corners = [[0, 0], [width - 1, 0], [width - 1, height - 1], [0, height - 1]]
+        .map(([c, r]) => nodeXY(transform, c, r))
+        .map(p => crs ? fromCrs(crs, p.x, p.y) : { lat: p.y, lon: p.x });
+    const lats = corners.map(p => p.lat), lons = corners.map(p => p.lon);
+    const box = { west: Math.min(...lons), east: Math.max(...lons), south: Math.min(...lats), north: Math.max(...lats) };
+
+    const sx = Math.hypot(transform.xc, transform.yc), sy = Math.hypot(transform.xr, transform.yr);
+    const cellSize = crs?.projection.proj === "longlat" || !crs
+        ? demCellSize(sx, sy, (box.south + box.north) / 2)
+        : Math.min(sx, sy) * crs.toMeter;
+    const rotated = transform.xr !== 0 || transform.yc !== 0;
+
+    const summary = `DEM loaded: ${file.name} (${format})
+size=${width}x${height}
+CRS=${describeCrs(crs)}
+node(0,0)=(${transform.x0}, ${transform.y0})  ${pixelIsArea ? "PixelIsArea" : "PixelIsPoint"}${rotated ? "  rotated" : ""}
+res=(${sx}, ${sy}) ≈ ${cellSize.toFixed(2)} m
+bbox lon [${box.west.toFixed(5)}, ${box.east.toFixed(5)}]  lat [${box.south.toFixed(5)}, ${box.north.toFixed(5)}]
+noData=${noData ?? "n/a"}
+vertical=${describeVertical(vertical)}
+memory=${lazy ? "lazy (blocks on demand)" : `decoded ${(width * height * 4 / 1048576).toFixed(1)} MB`}`;
+
+    return {
+        name: file.name, path, vertical, format, source, lazy, maxZ, width, height, transform, crs, pixelIsArea,
+        noData, cellSize, ...box, summary,
+    };
+}
+
+// null when no tiles are left
+export function buildMosaic(tiles: DemTile[]): DemMosaic | null {
+    if (!tiles.length) return null;
+    const m = {
+        tiles,
+        cellSize: Math.min(...tiles.map(t => t.cellSize)),
+        supported: tiles.every(t => t.crs !== null),
+        west: Math.min(...tiles.map(t => t.west)),
+        east: Math.max(...tiles.map(t => t.east)),
+        south: Math.min(...tiles.map(t => t.south)),
+        north: Math.max(...tiles.map(t => t.north)),
+    };
+    const crsList = [...new Set(tiles.map(t => describeCrs(t.crs)))];
+    const summary = `DEM mosaic: ${tiles.length} tile${tiles.length === 1 ? "" : "s"}
+coverage lon [${m.west.toFixed(4)}, ${m.east.toFixed(4)}]  lat [${m.south.toFixed(4)}, ${m.north.toFixed(4)}]
+finest cell ≈ ${m.cellSize.toFixed(2)} m
+CRS=${crsList.join("; ")}
+${tiles.map(t => `  ${t.name}: ${describeVertical(t.vertical)}`).join("\n")}`;
+    return { ...m, summary };
+}
+
+// Edits one tile's vertical reference and remembers it for that file
+export function setTileVertical(mosaic: DemMosaic | null, name: string, v: DemVertical): DemMosaic | null {
+    if (!mosaic) return null;
+    const tiles = mosaic.tiles.map(t => {
+        if (t.name !== name) return t;
+        saveDemVertical(t.path, v);
+        return { ...t, vertical: v };
+    });
+    return buildMosaic(tiles);
+}
+
+// Highest terrain in metres AMSL, undefined while any tile is lazy
+export function mosaicCeiling(mosaic: DemMosaic, undulation = 0): number | undefined {
+    let top = -Infinity;
+    for (const t of mosaic.tiles) {
+        if (t.maxZ === undefined) return undefined;
+        if (!(t.vertical.scale > 0)) return undefined;  // why: a flipped scale makes the stored max the minimum
+        top = Math.max(top, toMetres(t.vertical, t.maxZ) - (t.vertical.datum === "ellipsoid" ? undulation : 0));
+    }
+    return Number.isFinite(top) ? top : undefined;
+}
+
+// Adds tiles, replacing (and freeing) any already loaded under the same file name
+export function addTiles(mosaic: DemMosaic | null, tiles: DemTile[]): DemMosaic | null {
+    const names = new Set(tiles.map(t => t.name));
+    const old = mosaic?.tiles ?? [];
+    old.filter(t => names.has(t.name)).forEach(t => dropSource(t.source.id));
+    return buildMosaic([...old.filter(t => !names.has(t.name)), ...tiles]);
+}
+
+export function removeTile(mosaic: DemMosaic | null, name: string): DemMosaic | null {
+    const old = mosaic?.tiles ?? [];
+    old.filter(t => t.name === name).forEach(t => dropSource(t.source.id));
+    return buildMosaic(old.filter(t => t.name !== name));
+}
+
+export function clearMosaic(mosaic: DemMosaic | null) {
+    mosaic?.tiles.forEach(t => dropSource(t.source.id));
+}
+
+// Fractional raster node coordinates of a WGS84 point
+function toRC(t: DemTile, lat: number, lon: number) {
+    const p = t.crs ? toCrs(t.crs, lat, lon) : { x: lon, y: lat };
+    return invert(t.transform)(p.x, p.y);
+}
+
+function nodeLatLon(t: DemTile, col: number, row: number) {
+    const p = nodeXY(t.transform, col, row);
+    return t.crs ? fromCrs(t.crs, p.x, p.y) : { lat: p.y, lon: p.x };
+}
+
+// Within the tile's node grid, widened by marginCells; unknown CRSs cover nothing
+export function tileCovers(t: DemTile, lat: number, lon: number, marginCells = 0) {
+    if (!t.crs) return false;
+    // cheap reject on the lat/lon box first
+    const pad = (marginCells + 1) * t.cellSize / 111_000;
+    const padLon = pad / Math.max(0.01, Math.cos(lat * Math.PI / 180));
+    if (lat < t.south - pad || lat > t.north + pad || lon < t.west - padLon || lon > t.east + padLon) return false;
+    const { row, col } = toRC(t, lat, lon);
+    return row >= -marginCells && row <= t.height - 1 + marginCells && col >= -marginCells && col <= t.width - 1 + marginCells;
+}
+
+export function tilesAt(mosaic: DemMosaic, lat: number, lon: number) {
+    return mosaic.tiles.filter(t => tileCovers(t, lat, lon));
+}
+
+type Missing = { t: DemTile; bx: number; by: number }[];
+
+// Stored value → metres AMSL under the tile's vertical reference
+function heightOf(t: DemTile, v: number, undulation: number) {
+    return toMetres(t.vertical, v) - (t.vertical.datum === "ellipsoid" ? undulation : 0);
+}
+
+// Node of tile t in metres AMSL, reaching into neighbouring tiles past its
+// edge. NaN = void, undefined = block not resident (recorded in missing).
+function nodeAt(mosaic: DemMosaic, t: DemTile, c: number, r: number, N: number, missing: Missing): number | undefined {
+    if (c >= 0 && r >= 0 && c < t.width && r < t.height) {
+        const v = nodeValue(t.source, c, r);
+        if (v === undefined) missing.push({ t, ...blockOf(c, r) });
+        return v === undefined ? v : heightOf(t, v, N);
+    }
+    // seam: the nearest post of whichever tile has one within half a cell
+    const p = nodeLatLon(t, c, r);
+    for (const o of mosaic.tiles) {
+        if (o === t || !tileCovers(o, p.lat, p.lon, 0.5)) continue;
+        const rc = toRC(o, p.lat, p.lon);
+        const oc = Math.round(rc.col), or = Math.round(rc.row);
+        if (oc < 0 || or < 0 || oc >= o.width || or >= o.height) continue;
+        const v = nodeValue(o.source, oc, or);
+        if (v === undefined) { missing.push({ t: o, ...blockOf(oc, or) }); return undefined; }
+        if (!Number.isNaN(v)) return heightOf(o, v, N);
+    }
+    return NaN;
+}
+
+// Keys cubic convolution kernel (a = −0.5, Catmull-Rom)
+function cubicWeights(f: number) {
+    const w = (x: number) => {
+        x = Math.abs(x);
+        return x <= 1 ? 1.5 * x ** 3 - 2.5 * x ** 2 + 1 : x < 2 ? -0.5 * x ** 3 + 2.5 * x ** 2 - 4 * x + 2 : 0;
+    };
+    return [w(1 + f), w(f), w(1 - f), w(2 - f)];
+}
+
+const DEFAULT_FILL_RADIUS = 250;
+const MAX_FILL_RING = 64;        // posts; bounds the search however large the radius
+const IDW_MIN_POSTS = 12;
+
+const VOID: DemSample = { z: null, method: null };
+
+// Fills a void from the valid posts around (col, row) in tile t, searching
+// square rings outwards until the radius (or enough posts for IDW) is reached
+function fillVoid(mosaic: DemMosaic, t: DemTile, row: number, col: number, opts: SampleOptions, missing: Missing): DemSample | undefined {
+    const mode = opts.voidFill ?? "none";
+    if (mode !== "idw" && mode !== "nearest") return VOID;
+    const N = opts.undulation ?? 0;
+
+    // metres per node step along columns and rows at this point
+    const p0 = nodeLatLon(t, col, row), pc = nodeLatLon(t, col + 1, row), pr = nodeLatLon(t, col, row + 1);
+    const { mlat, mlon } = metersPerDeg(p0.lat);
+    const mx = Math.hypot((pc.lat - p0.lat) * mlat, (pc.lon - p0.lon) * mlon) || t.cellSize;
+    const my = Math.hypot((pr.lat - p0.lat) * mlat, (pr.lon - p0.lon) * mlon) || t.cellSize;
+    const step = Math.min(mx, my);
+    const radius = Math.max(opts.fillRadius ?? DEFAULT_FILL_RADIUS, step);
+
+    const c0 = Math.round(col), r0 = Math.round(row);
+    let best = Infinity, bestZ = NaN, sw = 0, sv = 0, count = 0;
+    const visit = (c: number, r: number) => {
+        const v = nodeAt(mosaic, t, c, r, N, missing);
+        if (v === undefined || Number.isNaN(v)) return;
+        const d = Math.max(1e-6, Math.hypot((c - col) * mx, (r - row) * my));
+        if (d > radius) return;
+        count++;
+        if (d < best) { best = d; bestZ = v; }
+        sw += 1 / (d * d);
+        sv += v / (d * d);
+    };
+    for (let k = 1; k <= MAX_FILL_RING; k++) {
+        // why: ring k is at least k − ½ steps from the point (c0, r0 are rounded)
+        const ringMin = (k - 0.5) * step;
+        if (ringMin > radius) break;
+        if (mode === "nearest" && ringMin > best) break;
+        if (mode === "idw" && count >= IDW_MIN_POSTS) break;
+        for (let i = -k; i <= k; i++) { visit(c0 + i, r0 - k); visit(c0 + i, r0 + k); }
+        for (let i = 1 - k; i < k; i++) { visit(c0 - k, r0 + i); visit(c0 + k, r0 + i); }
+    }
+    if (missing.length) return undefined;
+    if (!count) return VOID;
+    return mode === "nearest" ? { z: bestZ, method: "nearest-fill" } : { z: sv / sw, method: "idw" };
+}
+
+// Height in metres AMSL interpolated across tiles — each post converted by its
+// own tile's vertical reference first — from resident blocks only: undefined
+// when a block still has to be read. Voids among the bilinear posts are left
+// out of the weighting; bicubic falls back to bilinear whenever any of its 16
+// posts is void. A point with no valid post is filled per opts.voidFill.
+export function sampleMosaicDetailSync(
+    mosaic: DemMosaic,
+    lat: number,
+    lon: number,
+    opts: SampleOptions = {},
+    missing: Missing = []
+): DemSample | undefined {
+    const { method = "bilinear", undulation: N = 0 } = opts;
+    // the tile holding the cell, else one whose edge the cell straddles
+    const t = mosaic.tiles.find(t => tileCovers(t, lat, lon)) ?? mosaic.tiles.find(t => tileCovers(t, lat, lon, 1));
+    if (!t) return VOID;
+    const { row, col } = toRC(t, lat, lon);
+
+    if (method === "nearest") {
+        const v = nodeAt(mosaic, t, Math.round(col), Math.round(row), N, missing);
+        if (missing.length) return undefined;
+        return Number.isNaN(v) ? fillVoid(mosaic, t, row, col, opts, missing) : { z: v!, method: "nearest" };
+    }
+
+    const r0 = Math.floor(row), c0 = Math.floor(col);
+    const dx = col - c0, dy = row - r0;
+
+    const z: (number | undefined)[] = [];
+    for (const [dr, dc] of [[0, 0], [0, 1], [1, 0], [1, 1]]) z.push(nodeAt(mosaic, t, c0 + dc, r0 + dr, N, missing));
+    if (missing.length) return undefined;
+    const [z00, z10, z01, z11] = z as number[];
+    if ([z00, z10, z01, z11].some(Number.isNaN)) {
+        const w = [(1 - dx) * (1 - dy), dx * (1 - dy), (1 - dx) * dy, dx * dy];
+        let sw = 0, sv = 0;
+        (z as number[]).forEach((v, i) => { if (!Number.isNaN(v)) { sw += w[i]; sv += w[i] * v; } });
+        // why: a point sitting on a void post gets no weight from the others
+        return sw > 1e-9 ? { z: sv / sw, method: "partial" } : fillVoid(mosaic, t, row, col, opts, missing);
+    }
+
+    if (method === "bicubic") {
+        const grid: number[] = [];
+        for (let i = -1; i <= 2; i++) for (let j = -1; j <= 2; j++) grid.push(nodeAt(mosaic, t, c0 + j, r0 + i, N, missing) as number);
+        if (missing.length) return undefined;
+        if (!grid.some(Number.isNaN)) {
+            const wx = cubicWeights(dx), wy = cubicWeights(dy);
+            let v = 0;
+            for (let i = 0; i < 4; i++) for (let j = 0; j < 4; j++) v += wy[i] * wx[j] * grid[i * 4 + j];
+            return { z: v, method: "bicubic" };
+        }
+    }
+
+    const zTop = z00 * (1 - dx) + z10 * dx;
+    const zBot = z01 * (1 - dx) + z11 * dx;
+    return { z: zTop * (1 - dy) + zBot * dy, method: "bilinear" };
+}
+
+// Same, reading any lazy blocks it needs first
+export async function sampleMosaicDetail(
+    mosaic: DemMosaic,
+    lat: number,
+    lon: number,
+    opts: SampleOptions = {}
+): Promise<DemSample> {
+    for (let attempt = 0; attempt < 4; attempt++) {
+        const missing: Missing = [];
+        const s = sampleMosaicDetailSync(mosaic, lat, lon, opts, missing);
+        if (s !== undefined) return s;
+        const loaded = await Promise.all(missing.map(m => loadBlock(m.t.source, m.bx, m.by)));
+        if (loaded.some(b => b === null)) return VOID;
+    }
+    return VOID;
+}
+
+// Height only
+export function sampleMosaicSync(
+    mosaic: DemMosaic,
+    lat: number,
+    lon: number,
+    opts: SampleOptions = {},
+    missing: Missing = []
+): number | null | undefined {
+    return sampleMosaicDetailSync(mosaic, lat, lon, opts, missing)?.z;
+}
+
+export async function sampleMosaic(
+    mosaic: DemMosaic,
+    lat: number,
+    lon: number,
+    opts: SampleOptions = {}
+): Promise<number | null> {
+    return (await sampleMosaicDetail(mosaic, lat, lon, opts)).z;
+}
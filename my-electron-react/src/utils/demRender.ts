@@ -0,0 +1,174 @@
+// ============================================================================
+// FILE: src/utils/demRender.ts
+// PURPOSE: Offline picture of the loaded DEM for the map overlays — hillshade,
+//          colour-ramped elevation or both — resampled from the mosaic onto a
+//          lat/lon-aligned image with its WGS84 bounds.
+// ============================================================================
+import { DemMosaic, sampleMosaic, sampleMosaicSync } from "./demMosaic";
+
+export type DemRenderMode = "hillshade" | "elevation" | "shaded";
+
+export type DemRenderOptions = {
+    mode?: DemRenderMode;
+    maxPx?: number;                  // longer image side
+    azimuth?: number;                // deg CW from north, light source
+    altitude?: number;               // deg above the horizon
+    exaggeration?: number;           // vertical exaggeration for the shading
+    // why: Leaflet stretches an image overlay in Web Mercator, ArcGIS in degrees
+    rows?: "mercator" | "degrees";
+};
+
+// A picture laid on the map over its WGS84 bounds
+export type GeoImage = {
+    url: string;                     // PNG data URL, transparent where empty
+    west: number; east: number; south: number; north: number;
+    width: number; height: number;
+};
+
+export type DemLayer = GeoImage & {
+    min: number; max: number;        // m AMSL over the valid pixels
+    mode: DemRenderMode;
+};
+
+export const DEM_RENDER_MODES: { value: DemRenderMode; label: string }[] = [
+    { value: "hillshade", label: "Hillshade" },
+    { value: "elevation", label: "Elevation (colour ramp)" },
+    { value: "shaded", label: "Shaded elevation" },
+];
+
+const M_PER_DEG = 111_320;
+const toRad = (d: number) => d * Math.PI / 180;
+
+// -----------------------------
+// Colour ramp (low → high)
+// -----------------------------
+const RAMP: [number, number, number, number][] = [
+    [0.00, 26, 150, 65],
+    [0.25, 166, 217, 106],
+    [0.50, 255, 255, 191],
+    [0.75, 196, 128, 60],
+    [0.90, 140, 100, 80],
+    [1.00, 255, 255, 255],
+];
+
+export function rampColour(t: number): [number, number, number] {
+    const x = Math.max(0, Math.min(1, t));
+    for (let i = 1; i < RAMP.length; i++) {
+        const [t1, r1, g1, b1] = RAMP[i];
+        if (x > t1) continue;
+        const [t0, r0, g0, b0] = RAMP[i - 1];
+        const f = (x - t0) / (t1 - t0 || 1);
+        return [r0 + (r1 - r0) * f, g0 + (g1 - g0) * f, b0 + (b1 - b0) * f];
+    }
+    return [255, 255, 255];
+}
+
+// CSS gradient of the ramp, for legends
+export function rampGradient() {
+    return `linear-gradient(to right, ${RAMP.map(([t, r, g, b]) => `rgb(${r},${g},${b}) ${(t * 100).toFixed(0)}%`).join(", ")})`;
+}
+
+// -----------------------------
+// Grid
+// -----------------------------
+export const mercY = (lat: number) => Math.log(Math.tan(Math.PI / 4 + toRad(lat) / 2));
+export const mercLat = (y: number) => (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * 180 / Math.PI;
+
+// Image size: no finer than the DEM posting, no larger than maxPx
+function imageSize(mosaic: DemMosaic, maxPx: number) {
+    const midLat = (mosaic.south + mosaic.north) / 2;
+    const wM = (mosaic.east - mosaic.west) * M_PER_DEG * Math.cos(toRad(midLat));
+    const hM = (mosaic.north - mosaic.south) * M_PER_DEG;
+    const native = Math.max(wM, hM) / Math.max(mosaic.cellSize, 1e-3);
+    const longSide = Math.max(2, Math.min(maxPx, Math.ceil(native)));
+    const k = longSide / Math.max(wM, hM, 1e-6);
+    return { width: Math.max(2, Math.round(wM * k)), height: Math.max(2, Math.round(hM * k)) };
+}
+
+// Heights at pixel centres, NaN where void; yields to the UI between row batches
+async function sampleGrid(mosaic: DemMosaic, lats: number[], lons: number[]) {
+    const z = new Float32Array(lats.length * lons.length);
+    for (let r = 0; r < lats.length; r++) {
+        for (let c = 0; c < lons.length; c++) {
+            let v = sampleMosaicSync(mosaic, lats[r], lons[c]);
+            if (v === undefined) v = await sampleMosaic(mosaic, lats[r], lons[c]);
+            z[r * lons.length + c] = v ?? NaN;
+        }
+        if (r % 32 === 31) await new Promise(res => setTimeout(res, 0));
+    }
+    return z;
+}
+
+// Lambert shade 0…1 of the surface normal against the light direction
+function shadeGrid(z: Float32Array, w: number, h: number, lats: number[], dLonDeg: number, o: Required<DemRenderOptions>) {
+    const a = toRad(o.azimuth), e = toRad(o.altitude);
+    const L = [Math.sin(a) * Math.cos(e), Math.cos(a) * Math.cos(e), Math.sin(e)];
+    const out = new Float32Array(w * h);
+    const at = (r: number, c: number, fallback: number) => {
+        const v = z[Math.max(0, Math.min(h - 1, r)) * w + Math.max(0, Math.min(w - 1, c))];
+        return Number.isNaN(v) ? fallback : v;
+    };
+    for (let r = 0; r < h; r++) {
+        const dx = dLonDeg * M_PER_DEG * Math.cos(toRad(lats[r]));
+        const rn = Math.max(0, r - 1), rs = Math.min(h - 1, r + 1);
+        const dy = (lats[rn] - lats[rs]) * M_PER_DEG || 1;
+        for (let c = 0; c < w; c++) {
+            const z0 = z[r * w + c];
+            if (Number.isNaN(z0)) { out[r * w + c] = NaN; continue; }
+            const cw = Math.max(0, c - 1), ce = Math.min(w - 1, c + 1);
+            const gx = o.exaggeration * (at(r, ce, z0) - at(r, cw, z0)) / ((ce - cw) * dx || 1);
+            const gy = o.exaggeration * (at(rn, c, z0) - at(rs, c, z0)) / dy;
+            const n = Math.hypot(gx, gy, 1);
+            out[r * w + c] = Math.max(0, (-gx * L[0] - gy * L[1] + L[2]) / n);
+        }
+    }
+    return out;
+}
+
+// -----------------------------
+// Render
+// -----------------------------
+export async function renderDemLayer(mosaic: DemMosaic, opts: DemRenderOptions = {}): Promise<DemLayer> {
+    const o: Required<DemRenderOptions> = {
+        mode: "hillshade", maxPx: 1024, azimuth: 315, altitude: 45, exaggeration: 1, rows: "mercator",
+        ...opts,
+    };
+    const { west, east, south, north } = mosaic;
+    const { width, height } = imageSize(mosaic, o.maxPx);
+
+    const dLon = (east - west) / width;
+    const lons = Array.from({ length: width }, (_, c) => west + (c + 0.5) * dLon);
+    const yN = mercY(north), yS = mercY(south);
+    const lats = Array.from({ length: height }, (_, r) => {
+        const f = (r + 0.5) / height;
+        return o.rows === "mercator" ? mercLat(yN + (yS - yN) * f) : north + (south - north) * f;
+    });
+
+    const z = await sampleGrid(mosaic, lats, lons);
+    let min = Infinity, max = -Infinity;
+    for (const v of z) if (!Number.isNaN(v)) { if (v < min) min = v; if (v > max) max = v; }
+    const shade = o.mode === "elevation" ? null : shadeGrid(z, width, height, lats, dLon, o);
+    const span = max - min || 1;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    const img = ctx.createImageData(width, height);
+    for (let i = 0; i < z.length; i++) {
+        if (Number.isNaN(z[i])) continue;   // alpha stays 0
+        const s = shade ? shade[i] : 1;
+        const [r, g, b] = o.mode === "hillshade" ? [255, 255, 255] : rampColour((z[i] - min) / span);
+        // why: keep some light on slopes facing away so shaded colours stay readable
+        const k = o.mode === "shaded" ? 0.35 + 0.65 * s : s;
+        img.data.set([r * k, g * k, b * k, 255], i * 4);
+    }
+    ctx.putImageData(img, 0, 0);
+
+    return {
+        url: canvas.toDataURL("image/png"),
+        west, east, south, north, width, height,
+        min: Number.isFinite(min) ? min : NaN, max: Number.isFinite(max) ? max : NaN,
+        mode: o.mode,
+    };
+}
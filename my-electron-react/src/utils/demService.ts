@@ -0,0 +1,249 @@
+// ============================================================================
+// FILE: src/utils/demService.ts
+// PURPOSE: The one way the app loads and reads DEMs. Files in any format
+//          demFormats reads join a mosaic; openDem wraps it as a Dem —
+//          bounds, cell size, CRS, nodata, summary and AMSL sampling — and
+//          the mosaic last loaded is shared, so every page sees the same DEM
+//          read the same way (interpolation, void fill, secondary DEM).
+// ============================================================================
+import { describeCrs } from "./crs";
+import { DEM_FILE_EXT } from "./demFormats";
+import {
+    DemMosaic, DemTile, DemInterpolation, DemSample, VoidFill, SampleOptions,
+    addTiles, clearMosaic, loadDemTile, mosaicCeiling, sampleMosaicDetail, sampleMosaicDetailSync,
+} from "./demMosaic";
+import { GroundModel } from "./projection";
+
+// WGS84 extent, deg
+export type DemBounds = { west: number; east: number; south: number; north: number };
+
+export type Dem = {
+    mosaic: DemMosaic;
+    bounds: DemBounds;
+    cellSize: number;            // m, finest posting
+    crs: string;                 // distinct tile CRSs
+    supported: boolean;          // every tile's CRS is known
+    noData: Record<string, number | null>;   // per tile name
+    ceiling?: number;            // highest terrain, m AMSL; unknown while any tile is lazy
+    summary: string;
+    sampling: DemSampling;
+    secondary: DemMosaic | null; // read where the primary has nothing, when voidFill is "secondary"
+    // m AMSL, null outside the tiles or in unfilled voids; synchronous while the blocks are resident
+    sample: (lat: number, lon: number) => number | null | Promise<number | null>;
+    // the same height with how it was obtained
+    sampleDetail: (lat: number, lon: number) => DemSample | Promise<DemSample>;
+};
+
+export type DemSampling = {
+    method: DemInterpolation;
+    voidFill: VoidFill;
+    fillRadius: number;          // m
+};
+
+export const DEFAULT_SAMPLING: DemSampling = { method: "bilinear", voidFill: "none", fillRadius: 250 };
+
+export const INTERPOLATIONS: { value: DemInterpolation; label: string }[] = [
+    { value: "nearest", label: "Nearest post" },
+    { value: "bilinear", label: "Bilinear" },
+    { value: "bicubic", label: "Bicubic" },
+];
+
+export const VOID_FILLS: { value: VoidFill; label: string }[] = [
+    { value: "none", label: "Leave voids empty" },
+    { value: "idw", label: "Inverse-distance fill" },
+    { value: "nearest", label: "Nearest valid post" },
+    { value: "secondary", label: "Secondary DEM" },
+];
+
+const SAMPLING_KEY = "aw5.demSampling";
+
+// geoid N (m) at a point, null where unknown; lowers ellipsoidal tiles to AMSL
+export type Undulation = (lat: number, lon: number) => number | null;
+
+export type DemLoadResult = {
+    mosaic: DemMosaic | null;
+    tiles: DemTile[];            // read this time
+    failed: string[];            // one message per file that could not be read
+};
+
+// -----------------------------
+// Load
+// -----------------------------
+// Reads the DEM files among `files` into `base` (same-name tiles are replaced);
+// .prj sidecars give ASCII grids and XYZ lists their CRS
+export async function loadDemFiles(
+    files: File[],
+    base: DemMosaic | null,
+    opts: { defaultEpsg?: number } = {}
+): Promise<DemLoadResult> {
+    const tiles: DemTile[] = [];
+    const failed: string[] = [];
+    const stem = (n: string) => n.replace(/\.[^.]+$/, "").toLowerCase();
+    const prjs = new Map<string, File>(files.filter(f => /\.prj$/i.test(f.name)).map(f => [stem(f.name), f]));
+    for (const f of files.filter(f => DEM_FILE_EXT.test(f.name))) {
+        try {
+            const prj = prjs.get(stem(f.name));
+            tiles.push(await loadDemTile(f, { prj: prj ? await prj.text() : undefined, defaultEpsg: opts.defaultEpsg }));
+        }
+        catch (err: any) { failed.push(err?.message || `${f.name}: ${String(err)}`); }
+    }
+    return { mosaic: tiles.length ? addTiles(base, tiles) : base, tiles, failed };
+}
+
+// Status text for a load: each new tile, the resulting mosaic, the failures
+export function describeLoad(r: DemLoadResult) {
+    return [
+        ...r.tiles.map(t => t.summary),
+        ...(r.mosaic && r.tiles.length ? [r.mosaic.summary] : []),
+        ...r.failed.map(m => `DEM load failed: ${m}`),
+    ].join("\n");
+}
+
+// -----------------------------
+// Sampling settings
+// -----------------------------
+export function loadDemSampling(): DemSampling {
+    try {
+        const v = JSON.parse(localStorage.getItem(SAMPLING_KEY) ?? "null");
+        return v && typeof v === "object" ? { ...DEFAULT_SAMPLING, ...v } : DEFAULT_SAMPLING;
+    } catch { return DEFAULT_SAMPLING; }
+}
+
+export function saveDemSampling(s: DemSampling) {
+    try { localStorage.setItem(SAMPLING_KEY, JSON.stringify(s)); } catch { /* storage full or disabled */ }
+}
+
+export function describeSampling(s: DemSampling, secondary: DemMosaic | null) {
+    const fill = s.voidFill === "none" ? "voids left empty"
+        : s.voidFill === "secondary" ? `voids from secondary DEM${secondary ? "" : " (none loaded)"}`
+        : `voids filled by ${s.voidFill === "idw" ? "IDW" : "nearest post"} within ${s.fillRadius} m`;
+    return `${s.method} · ${fill}`;
+}
+
+// -----------------------------
+// Read
+// -----------------------------
+export function openDem(
+    mosaic: DemMosaic,
+    undulation?: Undulation,
+    sampling: DemSampling = DEFAULT_SAMPLING,
+    secondary: DemMosaic | null = null
+): Dem {
+    const { west, east, south, north } = mosaic;
+    const optsAt = (lat: number, lon: number): SampleOptions => ({
+        method: sampling.method, voidFill: sampling.voidFill, fillRadius: sampling.fillRadius,
+        undulation: undulation?.(lat, lon) ?? 0,
+    });
+    const fallback = sampling.voidFill === "secondary" ? secondary : null;
+    const fromSecondary = (s: DemSample): DemSample => s.z === null ? s : { z: s.z, method: "secondary" };
+    const sampleDetail = (lat: number, lon: number): DemSample | Promise<DemSample> => {
+        const opts = optsAt(lat, lon);
+        const s = sampleMosaicDetailSync(mosaic, lat, lon, opts) ?? sampleMosaicDetail(mosaic, lat, lon, opts);
+        if (!fallback) return s;
+        const second = (p: DemSample) => {
+            if (p.z !== null) return p;
+            const q = sampleMosaicDetailSync(fallback, lat, lon, opts);
+            return q !== undefined ? fromSecondary(q) : sampleMosaicDetail(fallback, lat, lon, opts).then(fromSecondary);
+        };
+        return s instanceof Promise ? s.then(second) : second(s);
+    };
+    return {
+        mosaic,
+        bounds: { west, east, south, north },
+        cellSize: mosaic.cellSize,
+        crs: [...new Set(mosaic.tiles.map(t => describeCrs(t.crs)))].join("; "),
+        supported: mosaic.supported,
+        noData: Object.fromEntries(mosaic.tiles.map(t => [t.name, t.noData])),
+        summary: mosaic.summary,
+        ceiling: ceilingOf([mosaic, fallback], undulation?.((south + north) / 2, (west + east) / 2) ?? 0),
+        sampling,
+        secondary,
+        sample: (lat, lon) => {
+            const s = sampleDetail(lat, lon);
+            return s instanceof Promise ? s.then(p => p.z) : s.z;
+        },
+        sampleDetail,
+    };
+}
+
+// Highest of the mosaics' ceilings; unknown if any is
+function ceilingOf(mosaics: (DemMosaic | null)[], N: number) {
+    let top = -Infinity;
+    for (const m of mosaics) {
+        if (!m) continue;
+        const c = mosaicCeiling(m, N);
+        if (c === undefined) return undefined;
+        top = Math.max(top, c);
+    }
+    return Number.isFinite(top) ? top : undefined;
+}
+
+// Ground model for projectPixel and friends
+export function demGround(dem: Dem, fallbackAlt = 0): GroundModel {
+    return {
+        kind: "dem", sample: dem.sample, fallbackAlt,
+        cellSize: dem.cellSize,
+        // why: 10 m covers the geoid varying across the tiles
+        maxAlt: dem.ceiling !== undefined ? dem.ceiling + 10 : undefined,
+    };
+}
+
+// -----------------------------
+// Shared DEM (one per app session)
+// -----------------------------
+let shared: DemMosaic | null = null;
+const listeners = new Set<(mosaic: DemMosaic | null) => void>();
+
+export function sharedDem() {
+    return shared;
+}
+
+export function setSharedDem(mosaic: DemMosaic | null) {
+    if (mosaic === shared) return;
+    shared = mosaic;
+    listeners.forEach(fn => fn(mosaic));
+}
+
+// Reads files into the shared DEM. The tiles join whatever is shared when the
+// read finishes, so overlapping loads keep each other's tiles.
+export async function loadSharedDemFiles(files: File[], opts: { defaultEpsg?: number } = {}): Promise<DemLoadResult> {
+    const res = await loadDemFiles(files, null, opts);
+    const mosaic = res.tiles.length ? addTiles(shared, res.tiles) : shared;
+    setSharedDem(mosaic);
+    return { ...res, mosaic };
+}
+
+// returns the unsubscribe, so it can be handed straight back from useEffect
+export function onSharedDemChange(fn: (mosaic: DemMosaic | null) => void) {
+    listeners.add(fn);
+    return () => { listeners.delete(fn); };
+}
+
+// -----------------------------
+// Shared sampling (goes with the shared DEM)
+// -----------------------------
+export type SharedSampling = { sampling: DemSampling; secondary: DemMosaic | null };
+
+let sampling: SharedSampling | null = null;
+const samplingListeners = new Set<(s: SharedSampling) => void>();
+
+// settings come from storage on first use; the secondary DEM lasts the session
+export function sharedSampling(): SharedSampling {
+    if (!sampling) sampling = { sampling: loadDemSampling(), secondary: null };
+    return sampling;
+}
+
+export function setSharedSampling(next: Partial<SharedSampling>) {
+    const prev = sharedSampling();
+    const s = { ...prev, ...next };
+    if (s.sampling === prev.sampling && s.secondary === prev.secondary) return;
+    if (s.sampling !== prev.sampling) saveDemSampling(s.sampling);
+    if (s.secondary !== prev.secondary) clearMosaic(prev.secondary);
+    sampling = s;
+    samplingListeners.forEach(fn => fn(s));
+}
+
+export function onSharedSamplingChange(fn: (s: SharedSampling) => void) {
+    samplingListeners.add(fn);
+    return () => { samplingListeners.delete(fn); };
+}
@@ -0,0 +1,68 @@
+// ============================================================================
+// FILE: src/utils/demVertical.ts
+// PURPOSE: Per-DEM vertical reference — datum, units, scale and offset that
+//          turn stored values into metres — read from GeoTIFF vertical keys
+//          where present and persisted in localStorage by DEM file path.
+// ============================================================================
+import { VerticalDatum } from "./geoid";
+
+export type DemUnits = "metre" | "foot" | "us-foot";
+
+// metres = value · unit · scale + offset, in the given datum
+export type DemVertical = {
+    datum: VerticalDatum;
+    units: DemUnits;
+    scale: number;
+    offset: number;   // m
+};
+
+export const DEFAULT_VERTICAL: DemVertical = { datum: "geoid", units: "metre", scale: 1, offset: 0 };
+
+export const UNIT_METRES: Record<DemUnits, number> = { "metre": 1, "foot": 0.3048, "us-foot": 1200 / 3937 };
+
+const VERTICALS_KEY = "aw5.demVertical";
+
+// GeoTIFF VerticalUnitsGeoKey / VerticalCSTypeGeoKey codes
+const VERTICAL_UNITS: Record<number, DemUnits> = { 9001: "metre", 9002: "foot", 9003: "us-foot" };
+const ELLIPSOIDAL_VCS = new Set([4979, 5030, 7030]);
+
+// What the file itself declares; missing keys stay unset
+export function verticalFromGeoKeys(keys: Record<string, any> | null | undefined): Partial<DemVertical> {
+    const out: Partial<DemVertical> = {};
+    const units = keys?.VerticalUnitsGeoKey;
+    if (VERTICAL_UNITS[units]) out.units = VERTICAL_UNITS[units];
+    const vcs = keys?.VerticalCSTypeGeoKey;
+    if (vcs && vcs !== 32767) out.datum = ELLIPSOIDAL_VCS.has(vcs) ? "ellipsoid" : "geoid";
+    return out;
+}
+
+export function toMetres(v: DemVertical, value: number) {
+    return value * UNIT_METRES[v.units] * v.scale + v.offset;
+}
+
+export function describeVertical(v: DemVertical) {
+    const datum = v.datum === "ellipsoid" ? "ellipsoidal" : "AMSL";
+    const scale = v.scale === 1 ? "" : ` ×${v.scale}`;
+    const offset = v.offset ? ` ${v.offset > 0 ? "+" : "−"}${Math.abs(v.offset)} m` : "";
+    return `${datum}, ${v.units}${scale}${offset}`;
+}
+
+export function loadDemVerticals(): Record<string, DemVertical> {
+    try {
+        const raw = localStorage.getItem(VERTICALS_KEY);
+        const obj = raw ? JSON.parse(raw) : {};
+        return obj && typeof obj === "object" ? obj : {};
+    } catch { return {}; }
+}
+
+export function savedVertical(path: string): DemVertical | null {
+    const v = path ? loadDemVerticals()[path] : undefined;
+    return v ? { ...DEFAULT_VERTICAL, ...v } : null;
+}
+
+export function saveDemVertical(path: string, v: DemVertical) {
+    if (!path) return;
+    const all = loadDemVerticals();
+    all[path] = v;
+    try { localStorage.setItem(VERTICALS_KEY, JSON.stringify(all)); } catch { /* storage full or disabled */ }
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// FILE: src/utils/geodesy.ts
+// PURPOSE: WGS84 ellipsoid helpers — geodetic ↔ ECEF and local ENU frames.
+// ============================================================================
+
+export const WGS84_A = 6378137.0;                 // semi-major axis, m
+export const WGS84_F = 1 / 298.257223563;         // flattening
+export const WGS84_E2 = WGS84_F * (2 - WGS84_F);  // first eccentricity squared
+export const EARTH_MEAN_RADIUS = 6371008.8;       // m, for refraction / curvature terms
+
+export type Geodetic = { lat: number; lon: number; h: number };  // deg, deg, m above ellipsoid
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+
+// -----------------------------
+// Geodetic ↔ ECEF (WGS84 unless another ellipsoid's a, e² is given)
+// -----------------------------
+export function geodeticToECEF(latDeg: number, lonDeg: number, h: number, a = WGS84_A, e2 = WGS84_E2) {
+    const phi = toRad(latDeg), lam = toRad(lonDeg);
+    const sinPhi = Math.sin(phi), cosPhi = Math.cos(phi);
+    const N = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    return [
+        (N + h) * cosPhi * Math.cos(lam),
+        (N + h) * cosPhi * Math.sin(lam),
+        (N * (1 - e2) + h) * sinPhi,
+    ];
+}
+
+export function ecefToGeodetic(P: number[], a = WGS84_A, e2 = WGS84_E2): Geodetic {
+    const [X, Y, Z] = P;
+    const lon = Math.atan2(Y, X);
+    const p = Math.hypot(X, Y);
+    let phi = Math.atan2(Z, p * (1 - e2));
+    let h = 0;
+    for (let i = 0; i < 6; i++) {
+        const sinPhi = Math.sin(phi);
+        const N = a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+        h = Math.abs(Math.cos(phi)) > 1e-10 ? p / Math.cos(phi) - N : Math.abs(Z) - N * (1 - e2);
+        phi = Math.atan2(Z, p * (1 - e2 * N / (N + h)));
+    }
+    return { lat: toDeg(phi), lon: toDeg(lon), h };
+}
+
+// -----------------------------
+// Local ENU ↔ ECEF (direction vectors / offsets)
+// -----------------------------
+export function enuToECEFVector(latDeg: number, lonDeg: number, v: number[]) {
+    const phi = toRad(latDeg), lam = toRad(lonDeg);
+    const sP = Math.sin(phi), cP = Math.cos(phi), sL = Math.sin(lam), cL = Math.cos(lam);
+    const [e, n, u] = v;
+    return [
+        -sL * e - sP * cL * n + cP * cL * u,
+        cL * e - sP * sL * n + cP * sL * u,
+        cP * n + sP * u,
+    ];
+}
+
+export function ecefToENUVector(latDeg: number, lonDeg: number, d: number[]) {
+    const phi = toRad(latDeg), lam = toRad(lonDeg);
+    const sP = Math.sin(phi), cP = Math.cos(phi), sL = Math.sin(lam), cL = Math.cos(lam);
+    const [dx, dy, dz] = d;
+    return [
+        -sL * dx + cL * dy,
+        -sP * cL * dx - sP * sL * dy + cP * dz,
+        cP * cL * dx + cP * sL * dy + sP * dz,
+    ];
+}
+
+// Straight-line distance between two points on the ellipsoid surface (h = 0);
+// indistinguishable from the geodesic at the ranges a camera can see.
+export function surfaceDistance(lat1: number, lon1: number, lat2: number, lon2: number) {
+    const A = geodeticToECEF(lat1, lon1, 0);
+    const B = geodeticToECEF(lat2, lon2, 0);
+    return Math.hypot(A[0] - B[0], A[1] - B[1], A[2] - B[2]);
+}
@@ -0,0 +1,122 @@
+// ============================================================================
+// FILE: src/utils/geoid.ts
+// PURPOSE: Offline geoid grids (EGM96/EGM2008 as .gtx or GeoTIFF) and
+//          conversions between ellipsoidal and orthometric (AMSL) heights.
+// ============================================================================
+import { fromArrayBuffer } from "geotiff";
+
+// "ellipsoid": height above WGS84 (raw GNSS); "geoid": orthometric / AMSL
+export type VerticalDatum = "ellipsoid" | "geoid";
+
+export type GeoidGrid = {
+    name: string;
+    lat0: number;   // latitude of row 0 nodes, deg
+    lon0: number;   // longitude of column 0 nodes, deg
+    dLat: number;   // deg per row (negative for north-up rasters)
+    dLon: number;   // deg per column
+    rows: number;
+    cols: number;
+    data: Float32Array;
+    noData: number | null;
+    summary: string;
+};
+
+const GTX_NODATA = -88.8888;
+
+// -----------------------------
+// Parsers
+// -----------------------------
+// NOAA/PROJ .gtx: 40-byte big-endian header (south lat, west lon, dlat, dlon,
+// rows, cols) followed by float32 rows from south to north.
+export function parseGTX(buf: ArrayBuffer, name = "geoid.gtx"): GeoidGrid {
+    const dv = new DataView(buf);
+    if (buf.byteLength < 40) throw new Error("GTX file too short.");
+    const lat0 = dv.getFloat64(0, false);
+    const lon0 = dv.getFloat64(8, false);
+    const dLat = dv.getFloat64(16, false);
+    const dLon = dv.getFloat64(24, false);
+    const rows = dv.getInt32(32, false);
+    const cols = dv.getInt32(36, false);
+    if (!(rows > 0 && cols > 0) || buf.byteLength < 40 + rows * cols * 4)
+        throw new Error("GTX header does not match file size.");
+
+    const data = new Float32Array(rows * cols);
+    for (let i = 0; i < rows * cols; i++) data[i] = dv.getFloat32(40 + i * 4, false);
+
+    return finish({ name, lat0, lon0, dLat, dLon, rows, cols, data, noData: GTX_NODATA });
+}
+
+export async function parseGeoidGeoTIFF(buf: ArrayBuffer, name = "geoid.tif"): Promise<GeoidGrid> {
+    const tiff = await fromArrayBuffer(buf);
+    const img = await tiff.getImage();
+    const [ox, oy] = img.getOrigin();
+    const [rx, ry] = img.getResolution();
+    const cols = img.getWidth();
+    const rows = img.getHeight();
+    const geoKeys = (img as any).getGeoKeys?.() as any;
+    // why: PixelIsArea origins sit on the cell corner, nodes are at centres
+    const half = geoKeys?.GTRasterTypeGeoKey === 2 ? 0 : 0.5;
+    const nd = (img as any).fileDirectory?.GDAL_NODATA;
+
+    const band = (await img.readRasters())[0] as ArrayLike<number>;
+    const data = Float32Array.from(band);
+
+    return finish({
+        name, rows, cols, data,
+        lat0: oy + ry * half, lon0: ox + rx * half, dLat: ry, dLon: rx,
+        noData: nd ? parseFloat(nd) : null,
+    });
+}
+
+export async function loadGeoid(file: File): Promise<GeoidGrid> {
+    const buf = await file.arrayBuffer();
+    return /\.gtx$/i.test(file.name) ? parseGTX(buf, file.name) : parseGeoidGeoTIFF(buf, file.name);
+}
+
+function finish(g: Omit<GeoidGrid, "summary">): GeoidGrid {
+    const latEnd = g.lat0 + g.dLat * (g.rows - 1);
+    const lonEnd = g.lon0 + g.dLon * (g.cols - 1);
+    const summary = `Geoid loaded: ${g.name}
+grid=${g.cols}x${g.rows}  step=(${Math.abs(g.dLon)}°, ${Math.abs(g.dLat)}°)
+lat ${Math.min(g.lat0, latEnd).toFixed(3)}…${Math.max(g.lat0, latEnd).toFixed(3)}  lon ${g.lon0.toFixed(3)}…${lonEnd.toFixed(3)}`;
+    return { ...g, summary };
+}
+
+// -----------------------------
+// Sampling
+// -----------------------------
+// Geoid undulation N (m) at a location, bilinear; null outside the grid.
+export function geoidUndulation(g: GeoidGrid, latDeg: number, lonDeg: number): number | null {
+    const spanLon = Math.abs(g.dLon) * g.cols;
+    const global = spanLon >= 359.999;
+    let lon = lonDeg;
+    if (global) {
+        while (lon < g.lon0) lon += 360;
+        while (lon >= g.lon0 + 360) lon -= 360;
+    }
+
+    const r = (latDeg - g.lat0) / g.dLat;
+    const c = (lon - g.lon0) / g.dLon;
+    if (r < 0 || r > g.rows - 1) return null;
+    if (!global && (c < 0 || c > g.cols - 1)) return null;
+
+    const r0 = Math.min(Math.floor(r), g.rows - 2), dr = r - r0;
+    const c0 = Math.floor(c), dc = c - c0;
+    const col = (j: number) => global ? ((j % g.cols) + g.cols) % g.cols : Math.min(j, g.cols - 1);
+    const at = (i: number, j: number) => g.data[i * g.cols + col(j)];
+
+    const z = [at(r0, c0), at(r0, c0 + 1), at(r0 + 1, c0), at(r0 + 1, c0 + 1)];
+    if (z.some(v => !Number.isFinite(v) || (g.noData !== null && Math.abs(v - g.noData) < 1e-3))) return null;
+    return (z[0] * (1 - dc) + z[1] * dc) * (1 - dr) + (z[2] * (1 - dc) + z[3] * dc) * dr;
+}
+
+// -----------------------------
+// Datum conversions (h_ellipsoid = H_orthometric + N)
+// -----------------------------
+export function toOrthometric(h: number, datum: VerticalDatum, N: number) {
+    return datum === "ellipsoid" ? h - N : h;
+}
+
+export function toEllipsoidal(h: number, datum: VerticalDatum, N: number) {
+    return datum === "geoid" ? h + N : h;
+}
@@ -0,0 +1,170 @@
+// ============================================================================
+// FILE: src/utils/horizon.ts
+// PURPOSE: Where the ground ends in the photo — the theoretical horizon (dip
+//          from camera height and earth model) and the DEM skyline (highest
+//          terrain elevation angle per azimuth), both traced in sensor pixels,
+//          plus the above-horizon test used to refuse sky clicks.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel, DEMSampler,
+    DEFAULT_CONVENTION, FLAT_EARTH, cameraCentre, pixelToRay, enuToPixel, enuToLatLon,
+} from "./projection";
+import { EARTH_MEAN_RADIUS } from "./geodesy";
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+
+export type PixelPolyline = { u: number; v: number }[];
+
+// Terrain elevation angle per azimuth (deg, azimuth CW from north)
+export type Skyline = {
+    step: number;
+    samples: { az: number; el: number; dist: number }[];
+};
+
+export type HorizonTest = {
+    above: boolean;
+    elevation: number;   // deg, ray above the local horizontal
+    limit: number;       // deg, highest elevation that still meets the ground
+    by: "horizon" | "skyline";
+};
+
+// Angle below horizontal of the visible horizon. A flat plane meets the sky at
+// 0°; on the ellipsoid refraction k flattens the Earth to radius R/(1−k).
+export function horizonDip(heightAboveGround: number, earth: EarthModel = FLAT_EARTH) {
+    if (earth.kind === "flat" || !(heightAboveGround > 0)) return 0;
+    const R = EARTH_MEAN_RADIUS / Math.max(1e-3, 1 - earth.refraction);
+    return toDeg(Math.acos(R / (R + heightAboveGround)));
+}
+
+export function rayElevation(ray: number[]) {
+    return toDeg(Math.asin(Math.max(-1, Math.min(1, ray[2]))));
+}
+
+export function rayAzimuth(ray: number[]) {
+    return (toDeg(Math.atan2(ray[0], ray[1])) + 360) % 360;
+}
+
+function direction(az: number, el: number) {
+    const a = toRad(az), e = toRad(el);
+    return [Math.sin(a) * Math.cos(e), Math.cos(a) * Math.cos(e), Math.sin(e)];
+}
+
+// Trace (az, el(az)) into the photo; breaks the line where it leaves the view
+function traceElevation(
+    els: { az: number; el: number }[],
+    pose: CameraPose,
+    K: Intrinsics,
+    conv: RotationConvention
+): PixelPolyline[] {
+    const margin = 0.25;
+    const lines: PixelPolyline[] = [];
+    let cur: PixelPolyline = [];
+    for (const { az, el } of els) {
+        const p = enuToPixel(direction(az, el), pose, K, conv);
+        const near = p && p.u > -margin * K.W && p.u < (1 + margin) * K.W && p.v > -margin * K.H && p.v < (1 + margin) * K.H;
+        if (p && near) { cur.push(p); continue; }
+        if (cur.length > 1) lines.push(cur);
+        cur = [];
+    }
+    if (cur.length > 1) lines.push(cur);
+    return lines;
+}
+
+// Azimuths whose horizontal direction the camera can see (skips work behind it)
+function visibleAzimuths(pose: CameraPose, K: Intrinsics, conv: RotationConvention, step: number) {
+    const out: number[] = [];
+    for (let az = 0; az < 360; az += step) {
+        const p = enuToPixel(direction(az, 0), pose, K, conv);
+        if (p && p.u > -0.5 * K.W && p.u < 1.5 * K.W) out.push(az);
+    }
+    return out;
+}
+
+export function horizonLine(
+    pose: CameraPose,
+    K: Intrinsics,
+    groundAlt: number,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    step = 0.25
+): PixelPolyline[] {
+    const cam = cameraCentre(pose, conv);
+    const dip = horizonDip((cam.alt ?? 0) - groundAlt, earth);
+    const els: { az: number; el: number }[] = [];
+    for (let az = 0; az <= 360; az += step) els.push({ az, el: -dip });
+    return traceElevation(els, cam, K, conv);
+}
+
+// March outwards along each visible azimuth and keep the steepest terrain
+// angle; the far horizon is the floor where the DEM runs out.
+export async function demSkyline(
+    pose: CameraPose,
+    K: Intrinsics,
+    sample: DEMSampler,
+    groundAlt: number,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    opts: { step?: number; maxRange?: number } = {}
+): Promise<Skyline> {
+    const cam = cameraCentre(pose, conv);
+    const step = opts.step ?? 0.5;
+    const maxRange = opts.maxRange ?? 30_000;
+    const camAlt = cam.alt ?? 0;
+    const floor = -horizonDip(camAlt - groundAlt, earth);
+    const curve = earth.kind === "ellipsoid" ? (1 - earth.refraction) / (2 * EARTH_MEAN_RADIUS) : 0;
+
+    const samples: Skyline["samples"] = [];
+    for (const az of visibleAzimuths(cam, K, conv, step)) {
+        const sa = Math.sin(toRad(az)), ca = Math.cos(toRad(az));
+        let best = { az, el: floor, dist: Infinity };
+        // why: geometric steps keep near ridges sharp without thousands of far samples
+        for (let d = 20; d <= maxRange; d *= 1.02) {
+            const p = enuToLatLon(cam.lat, cam.lon, d * sa, d * ca);
+            const z = await sample(p.lat, p.lon);
+            if (z === null || !Number.isFinite(z)) continue;
+            const el = toDeg(Math.atan2(z - camAlt - curve * d * d, d));
+            if (el > best.el) best = { az, el, dist: d };
+        }
+        samples.push(best);
+    }
+    return { step, samples };
+}
+
+export function skylineLine(
+    sky: Skyline,
+    pose: CameraPose,
+    K: Intrinsics,
+    conv: RotationConvention = DEFAULT_CONVENTION
+): PixelPolyline[] {
+    return traceElevation(sky.samples, cameraCentre(pose, conv), K, conv);
+}
+
+function skylineAt(sky: Skyline, az: number): number | null {
+    let best: Skyline["samples"][number] | null = null, bestD = Infinity;
+    for (const s of sky.samples) {
+        const d = Math.abs(((s.az - az + 540) % 360) - 180);
+        if (d < bestD) { bestD = d; best = s; }
+    }
+    return best && bestD <= sky.step ? best.el : null;
+}
+
+// Is the pixel's ray above where the ground can be? Uses the DEM skyline when
+// it covers the azimuth, else the theoretical horizon.
+export function testAboveHorizon(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    groundAlt: number,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    sky?: Skyline | null
+): HorizonTest {
+    const cam = cameraCentre(pose, conv);
+    const ray = pixelToRay(u, v, cam, K, conv);
+    const elevation = rayElevation(ray);
+    const fromSky = sky ? skylineAt(sky, rayAzimuth(ray)) : null;
+    const limit = fromSky ?? -horizonDip((cam.alt ?? 0) - groundAlt, earth);
+    return { above: elevation >= limit, elevation, limit, by: fromSky === null ? "horizon" : "skyline" };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { Distortion, LENS_MODELS, LensModel, distortNormalized, hasDistortion, undistortNormalized } from "./lens";
+
+const COEFFS: Record<LensModel, Distortion> = {
+    brown: { k1: -0.12, k2: 0.05, p1: 3e-4, p2: -2e-4, k3: -0.01 },
+    fisheye: { k1: 0.02, k2: -0.005, p1: 0, p2: 0, k3: 0.001, k4: -2e-4 },
+    division: { k1: -0.15, k2: 0.01, p1: 0, p2: 0, k3: 0 },
+};
+
+const grid = [[0, 0], [0.1, -0.05], [-0.4, 0.3], [0.55, 0.45], [-0.2, -0.6]];
+
+describe("Brown-Conrady", () => {
+    it("undistorts what it distorts", () => {
+        for (const [x, y] of grid) {
+            const d = distortNormalized(x, y, COEFFS.brown);
+            const u = undistortNormalized(d.x, d.y, COEFFS.brown);
+            expect(u.x).toBeCloseTo(x, 9);
+            expect(u.y).toBeCloseTo(y, 9);
+        }
+    });
+});
+
+describe.each(Object.keys(LENS_MODELS) as LensModel[])("%s", model => {
+    const lens = LENS_MODELS[model], d = COEFFS[model];
+
+    it("projects its own rays back to the same image point", () => {
+        for (const [x, y] of grid) {
+            const ray = lens.unproject(x, y, d);
+            expect(Math.hypot(ray[0], ray[1], ray[2])).toBeCloseTo(1, 12);
+            const p = lens.project(ray, d);
+            expect(p).not.toBeNull();
+            expect(p!.x).toBeCloseTo(x, 9);
+            expect(p!.y).toBeCloseTo(y, 9);
+        }
+    });
+
+    it("keeps the optical axis on the principal point", () => {
+        const ray = lens.unproject(0, 0, d);
+        expect(ray[0]).toBeCloseTo(0, 12);
+        expect(ray[1]).toBeCloseTo(0, 12);
+        expect(ray[2]).toBeCloseTo(1, 12);
+    });
+});
+
+describe("fisheye", () => {
+    it("images rays past 90°", () => {
+        const fe = LENS_MODELS.fisheye, d = COEFFS.fisheye;
+        const c = [Math.sin(1.8), 0, Math.cos(1.8)];
+        const p = fe.project(c, d);
+        expect(p).not.toBeNull();
+        const back = fe.unproject(p!.x, p!.y, d);
+        expect(back[0]).toBeCloseTo(c[0], 9);
+        expect(back[2]).toBeCloseTo(c[2], 9);
+        // a pinhole can't
+        expect(LENS_MODELS.brown.project(c, COEFFS.brown)).toBeNull();
+    });
+});
+
+it("hasDistortion ignores all-zero coefficients", () => {
+    expect(hasDistortion(undefined)).toBe(false);
+    expect(hasDistortion({ k1: 0, k2: 0, p1: 0, p2: 0, k3: 0 })).toBe(false);
+    expect(hasDistortion({ k1: 0, k2: 0, p1: 0, p2: 0, k3: 0, k4: 0.01 })).toBe(true);
+});
@@ -0,0 +1,147 @@
+// ============================================================================
+// FILE: src/utils/lens.ts
+// PURPOSE: Lens models. Each model maps distorted normalized image coordinates
+//          ((u−cx)/fx, (v−cy)/fy) to a camera-frame ray and back, so the
+//          projection engine never assumes a pinhole.
+// ============================================================================
+
+export type LensModel = "brown" | "fisheye" | "division";
+
+// Coefficients by model:
+//   brown    — OpenCV 5-parameter Brown-Conrady: k1, k2, k3 radial, p1, p2 tangential
+//   fisheye  — OpenCV fisheye / Kannala-Brandt equidistant: θd = θ(1 + k1θ² + k2θ⁴ + k3θ⁶ + k4θ⁸)
+//   division — Fitzgibbon division model: ray ∝ (xd, yd, 1 + k1·rd² + k2·rd⁴)
+export type Distortion = {
+    k1: number; k2: number; p1: number; p2: number; k3: number;
+    k4?: number;
+};
+
+export type LensDefinition = {
+    label: string;
+    params: (keyof Distortion)[];
+    // distorted normalized (x, y) → unit camera ray (z forward; may be ≤ 0 past 90°)
+    unproject(x: number, y: number, d: Distortion): number[];
+    // camera-frame vector → distorted normalized (x, y); null when the model can't image it
+    project(c: number[], d: Distortion): { x: number; y: number } | null;
+};
+
+function unit(v: number[]) {
+    const n = Math.hypot(v[0], v[1], v[2]) || 1;
+    return [v[0] / n, v[1] / n, v[2] / n];
+}
+
+// -----------------------------
+// Brown-Conrady
+// -----------------------------
+export function distortNormalized(x: number, y: number, d: Distortion) {
+    const r2 = x * x + y * y, r4 = r2 * r2, r6 = r4 * r2;
+    const radial = 1 + d.k1 * r2 + d.k2 * r4 + d.k3 * r6;
+    const xTan = 2 * d.p1 * x * y + d.p2 * (r2 + 2 * x * x);
+    const yTan = d.p1 * (r2 + 2 * y * y) + 2 * d.p2 * x * y;
+    return { x: x * radial + xTan, y: y * radial + yTan };
+}
+
+// Fixed-point inversion of distortNormalized
+export function undistortNormalized(xd: number, yd: number, d: Distortion) {
+    let x = xd, y = yd;
+    for (let i = 0; i < 20; i++) {
+        const est = distortNormalized(x, y, d);
+        const ex = est.x - xd, ey = est.y - yd;
+        x -= ex; y -= ey;
+        if (Math.abs(ex) + Math.abs(ey) < 1e-12) break;
+    }
+    return { x, y };
+}
+
+const brown: LensDefinition = {
+    label: "Brown-Conrady (k1 k2 p1 p2 k3)",
+    params: ["k1", "k2", "p1", "p2", "k3"],
+    unproject(x, y, d) {
+        const n = undistortNormalized(x, y, d);
+        return unit([n.x, n.y, 1]);
+    },
+    project(c, d) {
+        if (c[2] <= 1e-9) return null;
+        return distortNormalized(c[0] / c[2], c[1] / c[2], d);
+    },
+};
+
+// -----------------------------
+// Fisheye (Kannala-Brandt equidistant, OpenCV cv::fisheye)
+// -----------------------------
+function kbTheta(theta: number, d: Distortion) {
+    const t2 = theta * theta;
+    return theta * (1 + t2 * (d.k1 + t2 * (d.k2 + t2 * (d.k3 + t2 * (d.k4 ?? 0)))));
+}
+
+const fisheye: LensDefinition = {
+    label: "Fisheye / Kannala-Brandt (k1 k2 k3 k4)",
+    params: ["k1", "k2", "k3", "k4"],
+    unproject(x, y, d) {
+        const thetaD = Math.hypot(x, y);
+        if (thetaD < 1e-12) return [0, 0, 1];
+        // Newton on θ(1 + k1θ² + …) = θd
+        let theta = thetaD;
+        for (let i = 0; i < 20; i++) {
+            const t2 = theta * theta;
+            const f = kbTheta(theta, d) - thetaD;
+            const df = 1 + t2 * (3 * d.k1 + t2 * (5 * d.k2 + t2 * (7 * d.k3 + t2 * 9 * (d.k4 ?? 0))));
+            const step = f / (Math.abs(df) > 1e-12 ? df : 1e-12);
+            theta = Math.min(Math.PI - 1e-6, Math.max(0, theta - step));
+            if (Math.abs(step) < 1e-12) break;
+        }
+        const s = Math.sin(theta) / thetaD;
+        return [x * s, y * s, Math.cos(theta)];
+    },
+    project(c, d) {
+        const rho = Math.hypot(c[0], c[1]);
+        const theta = Math.atan2(rho, c[2]);
+        if (rho < 1e-12) return c[2] > 0 ? { x: 0, y: 0 } : null;
+        const k = kbTheta(theta, d) / rho;
+        return { x: c[0] * k, y: c[1] * k };
+    },
+};
+
+// -----------------------------
+// Division model
+// -----------------------------
+const division: LensDefinition = {
+    label: "Division model (λ1 = k1, λ2 = k2)",
+    params: ["k1", "k2"],
+    unproject(x, y, d) {
+        const r2 = x * x + y * y;
+        return unit([x, y, 1 + d.k1 * r2 + d.k2 * r2 * r2]);
+    },
+    project(c, d) {
+        // (xd, yd) = s·(cx, cy) with 1 + k1·s²ρ² + k2·s⁴ρ⁴ = s·cz; smallest s > 0
+        const rho2 = c[0] * c[0] + c[1] * c[1];
+        const a = d.k1 * rho2, b = d.k2 * rho2 * rho2, cz = c[2];
+        let s: number;
+        if (Math.abs(a) < 1e-15) s = cz > 0 ? 1 / cz : NaN;
+        else {
+            const disc = cz * cz - 4 * a;
+            if (disc < 0) return null;
+            s = (cz - Math.sqrt(disc)) / (2 * a);
+            if (!(s > 0)) s = (cz + Math.sqrt(disc)) / (2 * a);
+        }
+        if (b !== 0 && Number.isFinite(s)) {
+            for (let i = 0; i < 20; i++) {
+                const s2 = s * s;
+                const f = b * s2 * s2 + a * s2 - cz * s + 1;
+                const df = 4 * b * s2 * s + 2 * a * s - cz;
+                if (Math.abs(df) < 1e-15) break;
+                const step = f / df;
+                s -= step;
+                if (Math.abs(step) < 1e-14) break;
+            }
+        }
+        if (!(s > 0) || !Number.isFinite(s)) return null;
+        return { x: c[0] * s, y: c[1] * s };
+    },
+};
+
+export const LENS_MODELS: Record<LensModel, LensDefinition> = { brown, fisheye, division };
+
+export function hasDistortion(d?: Distortion): d is Distortion {
+    return !!d && !!(d.k1 || d.k2 || d.k3 || d.p1 || d.p2 || d.k4);
+}
@@ -0,0 +1,359 @@
+// ============================================================================
+// FILE: src/utils/metadata.ts
+// PURPOSE: One reader for photo metadata. Vendor profiles (DJI, Parrot,
+//          Autel, Sony, our UserComment format, generic XMP and EXIF) each pull the
+//          tags they know; field by field the first profile with a value wins,
+//          except lat/lon/alt, which come together from the first profile with
+//          a position. The record keeps which profile and tag every value came from.
+// ============================================================================
+import * as exifr from "exifr";
+
+export type MetaField =
+    | "lat" | "lon" | "alt" | "relAlt"
+    | "yaw" | "pitch" | "roll"
+    | "focalMM" | "focal35" | "sensorW" | "sensorH";
+
+export type MetaValue = { value: number; tag: string };
+
+export type VendorProfile = {
+    id: string;
+    label: string;
+    // whether this photo is one of the vendor's; generic profiles always match
+    matches: (raw: Record<string, any>) => boolean;
+    read: (raw: Record<string, any>, size: ImageSize | null) => Partial<Record<MetaField, MetaValue>>;
+};
+
+export type ImageSize = { width: number; height: number };
+
+export type Provenance = { profile: string; tag: string };
+
+export type PhotoMetadata = {
+    make: string;
+    model: string;
+    vendor: string | null;       // id of the first matching vendor profile
+    pose: { lat?: number; lon?: number; alt?: number; relAlt?: number; yaw?: number; pitch?: number; roll?: number };
+    intrinsics: { focalMM?: number; focal35?: number; sensorMM?: { w: number; h: number }; lens: string };
+    provenance: Partial<Record<MetaField, Provenance>>;
+    raw: Record<string, any>;
+};
+
+// -----------------------------
+// Value parsing
+// -----------------------------
+// 12.5, "12.5", "+12.50 deg", "12.5 m Above Sea Level"
+export function numberFrom(v: any): number | undefined {
+    if (typeof v === "number") return Number.isFinite(v) ? v : undefined;
+    if (typeof v === "string") {
+        const m = v.match(/[-+]?\d+(?:\.\d+)?/);
+        if (m) return parseFloat(m[0]);
+    }
+    if (v && typeof v.valueOf === "function" && typeof v.valueOf() === "number") return numberFrom(v.valueOf());
+    return undefined;
+}
+
+// [D, M, S], "D M S", `44 deg 30' 12.5" N`, decimal; ref N/S/E/W signs it
+export function degreesFrom(v: any, ref?: string | null): number | undefined {
+    const sign = (dec: number, neg: boolean) => (ref && /[SW]/i.test(ref)) || neg ? -Math.abs(dec) : dec;
+    if (Array.isArray(v) && v.length >= 3) {
+        const [D, M, S] = v.map(Number);
+        return [D, M, S].every(Number.isFinite) ? sign(Math.abs(D) + M / 60 + S / 3600, D < 0) : undefined;
+    }
+    if (typeof v === "string") {
+        const m = v.match(/(-?\d+(?:\.\d+)?)(?:[^\d.-]+(\d+(?:\.\d+)?))?(?:[^\d.-]+(\d+(?:\.\d+)?))?[^NSEW]*([NSEW])?/i);
+        if (!m) return undefined;
+        const D = parseFloat(m[1]), M = m[2] ? parseFloat(m[2]) : 0, S = m[3] ? parseFloat(m[3]) : 0;
+        return sign(Math.abs(D) + M / 60 + S / 3600, D < 0 || /[SW]/i.test(m[4] ?? ""));
+    }
+    const n = numberFrom(v);
+    return n === undefined ? undefined : sign(n, n < 0);
+}
+
+// First tag in the list that parses; its name goes into the provenance
+function firstOf(raw: Record<string, any>, tags: string[], parse: (v: any) => number | undefined = numberFrom): MetaValue | undefined {
+    for (const tag of tags) {
+        if (!(tag in raw)) continue;
+        const value = parse(raw[tag]);
+        if (value !== undefined && Number.isFinite(value)) return { value, tag };
+    }
+    return undefined;
+}
+
+// Drops the fields no tag supplied
+function defined(fields: Partial<Record<MetaField, MetaValue | undefined>>) {
+    return Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined)) as Partial<Record<MetaField, MetaValue>>;
+}
+
+const makeOf = (raw: Record<string, any>) => String(raw.Make ?? "").trim().toUpperCase();
+
+// -----------------------------
+// Profiles
+// -----------------------------
+// DJI: drone-dji XMP; gimbal angles before the aircraft's
+const DJI: VendorProfile = {
+    id: "dji",
+    label: "DJI XMP",
+    // why: Parrot and Autel reuse some drone-dji tag names, so the tags alone only count without a Make
+    matches: raw => makeOf(raw).includes("DJI") || (!makeOf(raw) && (raw.GimbalYawDegree !== undefined || raw.FlightYawDegree !== undefined)),
+    read: raw => defined({
+        lat: firstOf(raw, ["GpsLatitude"]),
+        // why: several DJI firmwares spell it "Longtitude"
+        lon: firstOf(raw, ["GpsLongitude", "GpsLongtitude"]),
+        alt: firstOf(raw, ["AbsoluteAltitude"]),
+        relAlt: firstOf(raw, ["RelativeAltitude"]),
+        yaw: firstOf(raw, ["GimbalYawDegree", "FlightYawDegree", "DroneYawDegree"]),
+        pitch: firstOf(raw, ["GimbalPitchDegree", "FlightPitchDegree"]),
+        roll: firstOf(raw, ["GimbalRollDegree", "FlightRollDegree"]),
+    }),
+};
+
+// Parrot Anafi/Bebop: drone-parrot XMP, camera angles before the drone's
+const PARROT: VendorProfile = {
+    id: "parrot",
+    label: "Parrot XMP",
+    matches: raw => makeOf(raw).includes("PARROT"),
+    read: raw => defined({
+        yaw: firstOf(raw, ["CameraYawDegree", "FlightYawDegree"]),
+        pitch: firstOf(raw, ["CameraPitchDegree", "FlightPitchDegree"]),
+        roll: firstOf(raw, ["CameraRollDegree", "FlightRollDegree"]),
+        relAlt: firstOf(raw, ["RelativeAltitude"]),
+    }),
+};
+
+// Autel EVO: XMP Camera:/drone: attitude tags
+const AUTEL: VendorProfile = {
+    id: "autel",
+    label: "Autel XMP",
+    matches: raw => makeOf(raw).includes("AUTEL"),
+    read: raw => defined({
+        yaw: firstOf(raw, ["GimbalYawDegree", "Yaw", "AircraftYaw"]),
+        pitch: firstOf(raw, ["GimbalPitchDegree", "Pitch", "AircraftPitch"]),
+        roll: firstOf(raw, ["GimbalRollDegree", "Roll", "AircraftRoll"]),
+        alt: firstOf(raw, ["AbsoluteAltitude"]),
+        relAlt: firstOf(raw, ["RelativeAltitude"]),
+    }),
+};
+
+// Plain Camera:-style XMP tags, as rig and photogrammetry software write them
+const xmpTags = (raw: Record<string, any>) => defined({
+    yaw: firstOf(raw, ["CameraYaw", "Yaw"]),
+    pitch: firstOf(raw, ["CameraPitch", "Pitch"]),
+    roll: firstOf(raw, ["CameraRoll", "Roll"]),
+    alt: firstOf(raw, ["AbsoluteAltitude"]),
+    relAlt: firstOf(raw, ["RelativeAltitude"]),
+    sensorW: firstOf(raw, ["SensorWidth"], v => { const w = numberFrom(v); return w !== undefined && plausibleMM(w) ? w : undefined; }),
+    sensorH: firstOf(raw, ["SensorHeight"], v => { const h = numberFrom(v); return h !== undefined && plausibleMM(h) ? h : undefined; }),
+});
+
+// Sensor size by Sony model family, mm
+const SONY_SENSORS: { model: RegExp; w: number; h: number; name: string }[] = [
+    { model: /^ILCE-(7|9|1$)/, w: 35.6, h: 23.8, name: "full frame" },
+    { model: /^(ILCE-[56]\d{3}|NEX-)/, w: 23.5, h: 15.6, name: "APS-C" },
+    { model: /^DSC-RX10/, w: 13.2, h: 8.8, name: "1-inch" },
+];
+
+// Sony bodies leave FocalPlaneX/YResolution out, so the sensor comes from the
+// model family; they have no attitude of their own, so the rig software's XMP
+// angles are read here.
+const SONY: VendorProfile = {
+    id: "sony",
+    label: "Sony",
+    matches: raw => makeOf(raw).includes("SONY"),
+    read: (raw, size) => {
+        const out = xmpTags(raw);
+        const model = String(raw.Model ?? "").trim().toUpperCase();
+        const family = SONY_SENSORS.find(f => f.model.test(model));
+        if (family && raw.FocalPlaneXResolution === undefined && !out.sensorW) {
+            // why: a portrait image has the sensor's long side vertical
+            const portrait = !!size && size.height > size.width;
+            const tag = `Model ${model} (${family.name})`;
+            out.sensorW = { value: portrait ? family.h : family.w, tag };
+            out.sensorH = { value: portrait ? family.w : family.h, tag };
+        }
+        return out;
+    },
+};
+
+const XMP: VendorProfile = {
+    id: "xmp",
+    label: "XMP",
+    matches: () => true,
+    read: raw => xmpTags(raw),
+};
+
+// Our own "Lat=.. Lon=.. Alt=.. Yaw=.. Pitch=.. Roll=.." in the EXIF UserComment
+const USER_COMMENT: VendorProfile = {
+    id: "usercomment",
+    label: "UserComment",
+    matches: () => true,
+    read: raw => {
+        const text = commentText(raw.UserComment);
+        if (!text) return {};
+        const out: Partial<Record<MetaField, MetaValue>> = {};
+        const keys: Record<string, MetaField> = { lat: "lat", lon: "lon", alt: "alt", yaw: "yaw", pitch: "pitch", roll: "roll" };
+        const rx = /\b(Lat|Lon|Alt|Yaw|Pitch|Roll)\s*=\s*([-+]?\d+(?:\.\d+)?)/gi;
+        let m: RegExpExecArray | null;
+        while ((m = rx.exec(text)) !== null) {
+            const f = keys[m[1].toLowerCase()];
+            if (!out[f]) out[f] = { value: parseFloat(m[2]), tag: `${m[1]}=` };
+        }
+        return out;
+    },
+};
+
+// Plain EXIF: GPS IFD, GPSImgDirection as yaw, focal length and focal-plane resolution
+const EXIF: VendorProfile = {
+    id: "exif",
+    label: "EXIF",
+    matches: () => true,
+    read: (raw, size) => {
+        const lat = firstOf(raw, ["latitude"]) ?? firstOf(raw, ["GPSLatitude"], v => degreesFrom(v, raw.GPSLatitudeRef));
+        const lon = firstOf(raw, ["longitude"]) ?? firstOf(raw, ["GPSLongitude"], v => degreesFrom(v, raw.GPSLongitudeRef));
+        // exiftool-style composite "lat, lon" when the GPS IFD is missing
+        const pos = typeof raw.GPSPosition === "string" ? raw.GPSPosition.split(",") : [];
+        const latPos = pos.length === 2 ? firstOf({ GPSPosition: pos[0] }, ["GPSPosition"], v => degreesFrom(v)) : undefined;
+        const lonPos = pos.length === 2 ? firstOf({ GPSPosition: pos[1] }, ["GPSPosition"], v => degreesFrom(v)) : undefined;
+        // why: GPSAltitudeRef 1 means below sea level
+        const alt = firstOf(raw, ["GPSAltitude"], v => {
+            const a = numberFrom(v);
+            return a === undefined ? a : Number(raw.GPSAltitudeRef) === 1 ? -Math.abs(a) : a;
+        });
+        return defined({
+            lat: lat ?? latPos, lon: lon ?? lonPos, alt,
+            yaw: firstOf(raw, ["GPSImgDirection"]),
+            focalMM: firstOf(raw, ["FocalLength"], v => { const f = numberFrom(v); return f && f > 0 ? f : undefined; }),
+            focal35: firstOf(raw, ["FocalLengthIn35mmFormat", "FocalLengthIn35mmFilm"], v => { const f = numberFrom(v); return f && f > 0 ? f : undefined; }),
+            ...sensorFromFocalPlane(raw, size),
+        });
+    },
+};
+
+// Sensor size from the focal-plane resolution and the image size
+function sensorFromFocalPlane(raw: Record<string, any>, size: ImageSize | null) {
+    const w = size?.width ?? numberFrom(raw.ExifImageWidth ?? raw.PixelXDimension ?? raw.ImageWidth);
+    const h = size?.height ?? numberFrom(raw.ExifImageHeight ?? raw.PixelYDimension ?? raw.ImageHeight);
+    const unit = numberFrom(raw.FocalPlaneResolutionUnit) ?? 2;
+    // mm per resolution unit: 2 inch, 3 cm, 4 mm, 5 µm
+    const mmPerUnit = ({ 2: 25.4, 3: 10, 4: 1, 5: 0.001 } as Record<number, number>)[unit];
+    const rx = numberFrom(raw.FocalPlaneXResolution), ry = numberFrom(raw.FocalPlaneYResolution) ?? rx;
+    if (!w || !h || !rx || !ry || !mmPerUnit) return {};
+    const sw = w / rx * mmPerUnit, sh = h / ry * mmPerUnit;
+    if (!plausibleMM(sw) || !plausibleMM(sh)) return {};
+    return {
+        sensorW: { value: sw, tag: "FocalPlaneXResolution" },
+        sensorH: { value: sh, tag: "FocalPlaneYResolution" },
+    };
+}
+
+const plausibleMM = (v: number) => Number.isFinite(v) && v > 0.1 && v < 100;
+
+function commentText(v: any): string | undefined {
+    if (typeof v === "string") return v;
+    if (v instanceof Uint8Array || Array.isArray(v)) {
+        const bytes = Uint8Array.from(v as ArrayLike<number>);
+        // why: the EXIF UserComment opens with an 8-byte charset id ("ASCII\0\0\0", "UNICODE\0")
+        const charset = String.fromCharCode(...bytes.subarray(0, 7));
+        return new TextDecoder(charset.startsWith("UNICODE") ? "utf-16le" : "utf-8")
+            .decode(bytes.subarray(8)).replace(/\0/g, "");
+    }
+    return undefined;
+}
+
+// Vendor profiles are tried before the generic UserComment, XMP and EXIF ones
+const vendorProfiles: VendorProfile[] = [DJI, PARROT, AUTEL, SONY];
+const GENERIC_PROFILES: VendorProfile[] = [USER_COMMENT, XMP, EXIF];
+
+export function registerVendorProfile(p: VendorProfile) {
+    const i = vendorProfiles.findIndex(q => q.id === p.id);
+    if (i >= 0) vendorProfiles[i] = p; else vendorProfiles.push(p);
+}
+
+export function vendorProfileList() {
+    return [...vendorProfiles, ...GENERIC_PROFILES].map(p => ({ id: p.id, label: p.label }));
+}
+
+// -----------------------------
+// Extraction
+// -----------------------------
+const POSITION: MetaField[] = ["lat", "lon", "alt"];
+
+export function extractMetadata(raw: Record<string, any> | null | undefined, size: ImageSize | null = null): PhotoMetadata {
+    const r = raw ?? {};
+    const vendors = vendorProfiles.filter(p => p.matches(r));
+    const values: Partial<Record<MetaField, MetaValue>> = {};
+    const provenance: Partial<Record<MetaField, Provenance>> = {};
+    const reads = [...vendors, ...GENERIC_PROFILES].map(p => ({ p, got: p.read(r, size) }));
+    // why: one source's lat/lon with another's alt can mix datums or fixes; alt alone only without a position
+    const fix = reads.find(x => x.got.lat && x.got.lon)?.p;
+    for (const { p, got } of reads) {
+        for (const [f, v] of Object.entries(got) as [MetaField, MetaValue][]) {
+            if (values[f]) continue;
+            if (fix && fix !== p && POSITION.includes(f)) continue;
+            values[f] = v;
+            provenance[f] = { profile: p.label, tag: v.tag };
+        }
+    }
+
+    // 35 mm equivalent fills in whichever of focal length and sensor width is missing
+    const f35 = values.focal35?.value;
+    if (f35 && values.focalMM && !values.sensorW && size) {
+        const w = 36 * values.focalMM.value / f35, h = w * size.height / size.width;
+        if (plausibleMM(w) && plausibleMM(h)) {
+            values.sensorW = { value: w, tag: "" }; values.sensorH = { value: h, tag: "" };
+            provenance.sensorW = provenance.sensorH = { profile: "derived", tag: "FocalLength × 36 / FocalLengthIn35mmFormat" };
+        }
+    }
+    if (f35 && !values.focalMM && values.sensorW) {
+        values.focalMM = { value: f35 * values.sensorW.value / 36, tag: "" };
+        provenance.focalMM = { profile: "derived", tag: "FocalLengthIn35mmFormat × sensor width / 36" };
+    }
+
+    const v = (f: MetaField) => values[f]?.value;
+    const sw = v("sensorW"), sh = v("sensorH");
+    return {
+        make: String(r.Make ?? "").trim(),
+        model: String(r.Model ?? "").trim(),
+        vendor: vendors[0]?.id ?? null,
+        pose: { lat: v("lat"), lon: v("lon"), alt: v("alt"), relAlt: v("relAlt"), yaw: v("yaw"), pitch: v("pitch"), roll: v("roll") },
+        intrinsics: {
+            focalMM: v("focalMM"), focal35: f35,
+            sensorMM: sw !== undefined && sh !== undefined ? { w: sw, h: sh } : undefined,
+            lens: String(r.LensModel ?? r.Lens ?? "").trim(),
+        },
+        provenance,
+        raw: r,
+    };
+}
+
+export async function readPhotoMetadata(file: File, size: ImageSize | null = null): Promise<PhotoMetadata> {
+    let raw: Record<string, any> = {};
+    try {
+        raw = await exifr.parse(file, { xmp: true, tiff: true, gps: true, userComment: true, makerNote: true }) || {};
+    } catch (e) {
+        console.warn("EXIF parse failed", e);
+    }
+    return extractMetadata(raw, size);
+}
+
+const FIELD_LABELS: Record<MetaField, string> = {
+    lat: "lat", lon: "lon", alt: "alt", relAlt: "rel. alt", yaw: "yaw", pitch: "pitch", roll: "roll",
+    focalMM: "focal mm", focal35: "35mm equiv.", sensorW: "sensor W", sensorH: "sensor H",
+};
+
+// One line per value: "yaw = 123.40 ← DJI XMP GimbalYawDegree"
+export function describeMetadata(md: PhotoMetadata) {
+    const val: Record<MetaField, number | undefined> = {
+        ...md.pose,
+        focalMM: md.intrinsics.focalMM, focal35: md.intrinsics.focal35,
+        sensorW: md.intrinsics.sensorMM?.w, sensorH: md.intrinsics.sensorMM?.h,
+    } as Record<MetaField, number | undefined>;
+    const lines = (Object.keys(FIELD_LABELS) as MetaField[])
+        .filter(f => val[f] !== undefined)
+        .map(f => {
+            const p = md.provenance[f];
+            const digits = f === "lat" || f === "lon" ? 7 : 2;
+            return `  ${FIELD_LABELS[f]} = ${val[f]!.toFixed(digits)}${p ? ` ← ${p.profile} ${p.tag}` : ""}`;
+        });
+    const who = [md.make, md.model].filter(Boolean).join(" ") || "unknown camera";
+    const lens = md.intrinsics.lens ? ` · ${md.intrinsics.lens}` : "";
+    return [`Metadata: ${who}${lens}${md.vendor ? ` (${md.vendor} profile)` : ""}`, ...(lines.length ? lines : ["  no position, attitude or lens tags"])].join("\n");
+}
@@ -0,0 +1,45 @@
+// ============================================================================
+// FILE: src/utils/mounts.ts
+// PURPOSE: Per-camera mount configuration (boresight + lever arm), keyed by
+//          the camera body from EXIF and persisted in localStorage.
+// ============================================================================
+import { MountConfig, NO_MOUNT } from "./projection";
+
+const MOUNTS_KEY = "aw5.cameraMounts";
+
+// "Make Model #serial" — serial keeps two bodies of the same model apart
+export function cameraKeyFromMeta(meta: Record<string, any> | null | undefined): string {
+    if (!meta) return "";
+    const make = String(meta.Make ?? "").trim();
+    const model = String(meta.Model ?? "").trim();
+    const serial = String(meta.BodySerialNumber ?? meta.SerialNumber ?? meta.InternalSerialNumber ?? "").trim();
+    const name = [make, model].filter(Boolean).join(" ");
+    return serial ? `${name} #${serial}` : name;
+}
+
+export function loadMounts(): Record<string, MountConfig> {
+    try {
+        const raw = localStorage.getItem(MOUNTS_KEY);
+        const obj = raw ? JSON.parse(raw) : {};
+        return obj && typeof obj === "object" ? obj : {};
+    } catch { return {}; }
+}
+
+export function mountForCamera(key: string): MountConfig {
+    const m = key ? loadMounts()[key] : undefined;
+    return m
+        ? { boresight: { ...NO_MOUNT.boresight, ...m.boresight }, leverArm: { ...NO_MOUNT.leverArm, ...m.leverArm } }
+        : NO_MOUNT;
+}
+
+export function saveMount(key: string, mount: MountConfig) {
+    const all = loadMounts();
+    all[key] = mount;
+    try { localStorage.setItem(MOUNTS_KEY, JSON.stringify(all)); } catch { /* storage full or disabled */ }
+}
+
+export function describeMount(m: MountConfig) {
+    const b = m.boresight, a = m.leverArm;
+    return `boresight yaw/pitch/roll = ${b.yaw.toFixed(3)}/${b.pitch.toFixed(3)}/${b.roll.toFixed(3)}° · ` +
+        `lever arm R/F/U = ${a.right.toFixed(3)}/${a.forward.toFixed(3)}/${a.up.toFixed(3)} m`;
+}
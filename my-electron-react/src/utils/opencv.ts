@@ -0,0 +1,47 @@
+// ============================================================================
+// FILE: src/utils/opencv.ts
+// PURPOSE: Lazy loader for OpenCV.js (window.cv) from the app's opencvUrl.
+// ============================================================================
+
+let pending: Promise<any> | null = null;
+
+function isReady(cv: any) {
+    return !!cv && typeof cv.Mat === "function";
+}
+
+// Resolve the runtime once the wasm module is initialised. Builds differ: some
+// expose `cv` directly, some a thenable, some only fire onRuntimeInitialized.
+function whenInitialized(cv: any): Promise<any> {
+    if (isReady(cv)) return Promise.resolve(cv);
+    if (cv && typeof cv.then === "function") {
+        return new Promise(resolve => cv.then((m: any) => { delete m.then; resolve(m); }));
+    }
+    return new Promise(resolve => { cv.onRuntimeInitialized = () => resolve(cv); });
+}
+
+export function loadOpenCV(url: string, timeoutMs = 60_000): Promise<any> {
+    const w = window as any;
+    if (isReady(w.cv)) return Promise.resolve(w.cv);
+    if (pending) return pending;
+
+    pending = new Promise<any>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`OpenCV.js did not initialise within ${timeoutMs / 1000}s (${url}).`)), timeoutMs);
+        const finish = async () => {
+            try {
+                const cv = await whenInitialized(w.cv);
+                w.cv = cv;
+                clearTimeout(timer);
+                resolve(cv);
+            } catch (err) { clearTimeout(timer); reject(err); }
+        };
+        if (w.cv) { finish(); return; }
+        const script = document.createElement("script");
+        script.src = url;
+        script.async = true;
+        script.onload = finish;
+        script.onerror = () => { clearTimeout(timer); reject(new Error(`Failed to load OpenCV.js from ${url}.`)); };
+        document.body.appendChild(script);
+    });
+    pending.catch(() => { pending = null; });
+    return pending;
+}
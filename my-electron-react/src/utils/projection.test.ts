@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import {
+    CameraPose, EarthModel, Intrinsics, DEFAULT_CONVENTION,
+    cameraToENU, groundToPixel, projectPixel, projectPixelFlat,
+} from "./projection";
+import { CONVENTION_PROFILES } from "./conventions";
+
+const K: Intrinsics = { W: 6000, H: 4000, fx: 4500, fy: 4500, cx: 3000, cy: 2000 };
+const pose: CameraPose = { lat: 32.1, lon: 34.8, alt: 250, yaw: 30, pitch: 25, roll: -4 };
+const probes = [[3000, 2000], [150, 120], [5800, 300], [5900, 3900], [40, 3950]];
+
+describe("pixel → ground → pixel", () => {
+    it("returns to the same pixel on flat ground", async () => {
+        for (const [u, v] of probes) {
+            const hit = await projectPixel(u, v, pose, K, { kind: "flat", alt: 40 });
+            expect(hit).not.toBeNull();
+            const px = groundToPixel(hit!.lat, hit!.lon, hit!.groundAlt, pose, K);
+            expect(px.behind).toBe(false);
+            expect(px.u).toBeCloseTo(u, 4);
+            expect(px.v).toBeCloseTo(v, 4);
+        }
+    });
+
+    it("agrees with projectPixelFlat", async () => {
+        const a = await projectPixel(800, 3100, pose, K, { kind: "flat", alt: 40 });
+        const b = projectPixelFlat(800, 3100, pose, K, 40);
+        expect(b!.lat).toBeCloseTo(a!.lat, 10);
+        expect(b!.lon).toBeCloseTo(a!.lon, 10);
+    });
+
+    it("round-trips on the ellipsoid with a mount and a distorted lens", async () => {
+        const earth: EarthModel = { kind: "ellipsoid", refraction: 0 };
+        const Kd: Intrinsics = { ...K, dist: { k1: -0.08, k2: 0.02, p1: 1e-4, p2: -2e-4, k3: 0 } };
+        const mounted: CameraPose = {
+            ...pose,
+            mount: { boresight: { yaw: 1.5, pitch: -0.7, roll: 0.3 }, leverArm: { right: 0.4, forward: 1.2, up: -0.3 } },
+        };
+        const conv = CONVENTION_PROFILES["dji-gimbal-xmp"].convention;
+        const djiPose = { ...mounted, pitch: -60 };
+        for (const [u, v] of probes) {
+            const hit = await projectPixel(u, v, djiPose, Kd, { kind: "flat", alt: 40 }, conv, earth);
+            expect(hit).not.toBeNull();
+            const px = groundToPixel(hit!.lat, hit!.lon, hit!.groundAlt, djiPose, Kd, conv, earth);
+            // the ray march stops within 1 cm along the ray: up to ~0.1 px at this range
+            expect(Math.abs(px.u - u)).toBeLessThan(0.2);
+            expect(Math.abs(px.v - v)).toBeLessThan(0.2);
+        }
+    });
+
+    it("marks points behind the camera", () => {
+        const level = { ...pose, pitch: 0, roll: 0 };
+        // nadir camera: a point above it is behind
+        expect(groundToPixel(level.lat, level.lon, level.alt + 100, level, K).behind).toBe(true);
+    });
+});
+
+describe("legacy static-cam convention", () => {
+    // the static cam's click mapping before the shared engine: Rz(yaw)·Rx(roll)·Ry(pitch)·nadir
+    function legacyMatrix(yaw: number, pitch: number, roll: number) {
+        const r = (d: number) => d * Math.PI / 180;
+        const [cz, sz] = [Math.cos(r(yaw)), Math.sin(r(yaw))];
+        const [cx, sx] = [Math.cos(r(roll)), Math.sin(r(roll))];
+        const [cy, sy] = [Math.cos(r(pitch)), Math.sin(r(pitch))];
+        const Rz = [[cz, -sz, 0], [sz, cz, 0], [0, 0, 1]];
+        const Rx = [[1, 0, 0], [0, cx, -sx], [0, sx, cx]];
+        const Ry = [[cy, 0, sy], [0, 1, 0], [-sy, 0, cy]];
+        const nadir = [[1, 0, 0], [0, -1, 0], [0, 0, -1]];
+        const mul = (A: number[][], B: number[][]) => A.map(row => B[0].map((_, j) => row.reduce((s, a, k) => s + a * B[k][j], 0)));
+        return mul(Rz, mul(Rx, mul(Ry, nadir)));
+    }
+
+    it("reproduces the old rotation", () => {
+        const conv = CONVENTION_PROFILES["legacy-static-cam"].convention;
+        const got = cameraToENU({ yaw: 37, pitch: 12, roll: -6 }, conv);
+        const want = legacyMatrix(37, 12, -6);
+        for (let i = 0; i < 3; i++)
+            for (let j = 0; j < 3; j++) expect(got[i][j]).toBeCloseTo(want[i][j], 12);
+    });
+
+    it("differs from the default convention off nadir", () => {
+        const got = cameraToENU({ yaw: 37, pitch: 12, roll: -6 }, DEFAULT_CONVENTION);
+        const want = legacyMatrix(37, 12, -6);
+        expect(Math.abs(got[0][2] - want[0][2]) + Math.abs(got[1][2] - want[1][2])).toBeGreaterThan(1e-3);
+    });
+});
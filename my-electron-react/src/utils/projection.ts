@@ -1,170 +1,580 @@
-    // ==========================
-    // projection.ts — Pixel → DEM
-    // ==========================
-    import { fromArrayBuffer } from "geotiff";
-
-    export type CameraPose = {
-        lat: number;        // deg
-        lon: number;        // deg
-        alt: number;        // meters AMSL
-        yaw: number;        // deg
-        pitch: number;      // deg
-        roll: number;       // deg
-    };
+// ============================================================================
+// FILE: src/utils/projection.ts
+// PURPOSE: Shared camera-projection engine (pixel → ground). React-free.
+//          Camera model + rotation convention + ground model; every screen
+//          (static cam, footprint, projector) goes through these functions.
+// ============================================================================
+import {
+    EARTH_MEAN_RADIUS, geodeticToECEF, ecefToGeodetic, enuToECEFVector, ecefToENUVector, surfaceDistance
+} from "./geodesy";
+import { Distortion, LensModel, LENS_MODELS, hasDistortion } from "./lens";
 
-    export type Intrinsics = {
-        W: number;
-        H: number;
-        fx: number;
-        fy: number;
-        cx: number;
-        cy: number;
-    };
+export type { Distortion, LensModel } from "./lens";
+export { LENS_MODELS, hasDistortion, distortNormalized, undistortNormalized } from "./lens";
+
+export type CameraPose = {
+    lat: number;        // deg
+    lon: number;        // deg
+    alt: number;        // meters AMSL
+    yaw: number;        // deg
+    pitch: number;      // deg (+down)
+    roll: number;       // deg (+right)
+    mount?: MountConfig;  // lat/lon/alt are the GNSS antenna when a lever arm is set
+};
+
+// How the camera sits on its platform (pan-tilt head, vehicle, tripod).
+// Boresight: fixed yaw/pitch/roll misalignment applied after the platform
+// attitude, same axes and sign convention. Lever arm: antenna → camera centre
+// in metres in the heading frame (right, forward, up), rotated by yaw only.
+export type MountConfig = {
+    boresight: { yaw: number; pitch: number; roll: number };
+    leverArm: { right: number; forward: number; up: number };
+};
+
+export const NO_MOUNT: MountConfig = {
+    boresight: { yaw: 0, pitch: 0, roll: 0 },
+    leverArm: { right: 0, forward: 0, up: 0 },
+};
+
+export type Intrinsics = {
+    W: number;
+    H: number;
+    fx: number;
+    fy: number;
+    cx: number;
+    cy: number;
+    dist?: Distortion;  // omitted = ideal pinhole
+    lens?: LensModel;   // how `dist` is interpreted; default Brown-Conrady
+};
+
+// How yaw/pitch/roll and image axes map the camera frame into local ENU.
+// Pitch rotates about the camera X axis and roll about Y unless pitchAxis
+// swaps them (the static cam's original click mapping); yaw is about Up.
+// Named profiles per pose source (DJI XMP, INS, …) live in conventions.ts.
+export type RotationConvention = {
+    order: "yaw-pitch-roll" | "yaw-roll-pitch";  // Rz·Rx·Ry  |  Rz·Ry·Rx
+    base: "nadir" | "horizon" | "identity";      // nadir: cam x→E, y→S, z→down; horizon: x→E, y→down, z→N
+    flipPitch: boolean;                          // default applies Rx(-pitch) (+down)
+    flipRoll: boolean;
+    invertV: boolean;                            // measure v from the bottom edge
+    yawClockwise?: boolean;                      // compass heading (CW from north) instead of math CCW
+    pitchAxis?: "x" | "y";                       // camera axis pitch turns about; roll takes the other (default x)
+    yawOffset?: number;                          // deg, added to yaw before the sign convention
+};
+
+export const DEFAULT_CONVENTION: RotationConvention = {
+    order: "yaw-pitch-roll",
+    base: "nadir",
+    flipPitch: false,
+    flipRoll: false,
+    invertV: false,
+    yawClockwise: false,
+};
+
+// DEM height (AMSL) at a location, or null outside coverage / nodata
+export type DEMSampler = (lat: number, lon: number) => number | null | Promise<number | null>;
+
+// cellSize (m) is the DEM posting and maxAlt the highest terrain in it; the
+// ray march steps one cell below maxAlt, so ridges can't be tunnelled through
+export type GroundModel =
+    | { kind: "flat"; alt: number }
+    | { kind: "dem"; sample: DEMSampler; fallbackAlt: number; cellSize?: number; maxAlt?: number };
+
+// Flat: local tangent plane around the camera (fine for short, steep rays).
+// Ellipsoid: ray cast in ECEF against WGS84 + ground heights, with an optional
+// refraction coefficient k (≈0.13 standard atmosphere, 0 = geometric ray).
+// Heights stay AMSL; `undulation` (geoid N) lifts them onto the ellipsoid.
+export type EarthModel =
+    | { kind: "flat" }
+    | { kind: "ellipsoid"; refraction: number; undulation?: (lat: number, lon: number) => number };
+
+export const FLAT_EARTH: EarthModel = { kind: "flat" };
+
+export type GroundHit = {
+    lat: number;
+    lon: number;
+    groundAlt: number;  // meters AMSL at the hit
+    range: number;      // horizontal distance from the camera, meters
+    slantRange?: number;  // along the ray, meters
+    flatDelta?: number;   // meters between this hit and the flat-earth answer (ellipsoid mode)
+    status?: IntersectStatus;  // ray-march outcome (DEM / ellipsoid intersections)
+};
+
+// converged: crossing bisected to tolerance on real DEM samples
+// nodata:    crossing inside a nodata gap, bridged with the last valid height
+// unrefined: bracketed, but bisection ran out of iterations
+export type IntersectStatus = "converged" | "nodata" | "unrefined";
+
+// Ground → image result; u,v are sensor pixels in the (distorted) photo
+export type PixelHit = {
+    u: number;
+    v: number;
+    inFrame: boolean;
+    behind: boolean;      // point lies behind the camera
+    range: number;        // slant distance camera → point, meters
+};
+
+export type LineOfSight = {
+    blocked: boolean;
+    // first terrain sample above the sight line, when blocked
+    at?: { lat: number; lon: number; ground: number; line: number; dist: number };
+};
+
+// -----------------------------
+const toRad = (d: number) => d * Math.PI / 180;
+
+// Geographic DEM posting (deg) → metres, the smaller of the two axes
+export function demCellSize(resXDeg: number, resYDeg: number, latDeg: number) {
+    const { mlat, mlon } = metersPerDeg(latDeg);
+    const c = Math.min(Math.abs(resXDeg * mlon), Math.abs(resYDeg * mlat));
+    return Number.isFinite(c) && c > 0 ? c : DEFAULT_DEM_CELL;
+}
+
+// -----------------------------
+// Rotation matrices
+// -----------------------------
+function rotX(a: number) {
+    const c = Math.cos(a), s = Math.sin(a);
+    return [[1, 0, 0], [0, c, -s], [0, s, c]];
+}
+
+function rotY(a: number) {
+    const c = Math.cos(a), s = Math.sin(a);
+    return [[c, 0, s], [0, 1, 0], [-s, 0, c]];
+}
+
+function rotZ(a: number) {
+    const c = Math.cos(a), s = Math.sin(a);
+    return [[c, -s, 0], [s, c, 0], [0, 0, 1]];
+}
+
+export function matMul(A: number[][], B: number[][]) {
+    return A.map((r, i) =>
+        r.map((_, j) =>
+            A[i][0] * B[0][j] +
+            A[i][1] * B[1][j] +
+            A[i][2] * B[2][j]
+        )
+    );
+}
+
+export function vecMul(M: number[][], v: number[]) {
+    return [
+        M[0][0] * v[0] + M[0][1] * v[1] + M[0][2] * v[2],
+        M[1][0] * v[0] + M[1][1] * v[1] + M[1][2] * v[2],
+        M[2][0] * v[0] + M[2][1] * v[1] + M[2][2] * v[2],
+    ];
+}
+
+export function normalize(v: number[]) {
+    const n = Math.hypot(v[0], v[1], v[2]) || 1;
+    return [v[0] / n, v[1] / n, v[2] / n];
+}
+
+// -----------------------------
+// Geodesy helpers (local tangent plane)
+// -----------------------------
+export function metersPerDeg(latDeg: number) {
+    const L = toRad(latDeg || 0);
+    const mlat = 111132.92 - 559.82 * Math.cos(2 * L) + 1.175 * Math.cos(4 * L) - 0.0023 * Math.cos(6 * L);
+    const mlon = 111412.84 * Math.cos(L) - 93.5 * Math.cos(3 * L) + 0.118 * Math.cos(5 * L);
+    return { mlat, mlon };
+}
+
+export function enuToLatLon(lat0: number, lon0: number, east: number, north: number) {
+    const { mlat, mlon } = metersPerDeg(lat0);
+    return { lat: lat0 + north / mlat, lon: lon0 + east / mlon };
+}
+
+// -----------------------------
+// Camera model
+// -----------------------------
+// Equidistant fisheye maps angle linearly (r = f·θ); the others start from pinhole
+export function fxFromFovX(W: number, fovxDeg: number, lens: LensModel = "brown") {
+    const halfRad = toRad((fovxDeg || 1e-6) / 2);
+    const half = lens === "fisheye" ? halfRad : Math.tan(halfRad);
+    return W / 2 / Math.max(half, 1e-9);
+}
+
+// Fill missing/zero intrinsics the way the UI always has: fx from FOVx,
+// fy = fx, principal point at the image centre.
+export function resolveIntrinsics(
+    K: Partial<Intrinsics> & { W: number; H: number },
+    fovxDeg?: number
+): Intrinsics {
+    const fx = Number.isFinite(K.fx) && K.fx !== 0 ? K.fx! : fxFromFovX(K.W, fovxDeg ?? 54.55, K.lens);
+    const fy = Number.isFinite(K.fy) && K.fy !== 0 ? K.fy! : fx;
+    const cx = Number.isFinite(K.cx) ? K.cx! : K.W / 2;
+    const cy = Number.isFinite(K.cy) ? K.cy! : K.H / 2;
+    return { W: K.W, H: K.H, fx, fy, cx, cy, dist: K.dist, lens: K.lens };
+}
 
-    export type DEMInfo = {
-        raster: any;
-        width: number;
-        height: number;
-        originX: number;
-        originY: number;
-        resX: number;
-        resY: number;
+// Sensor pixel → unit ray in the raw camera frame (x right, y down, z forward)
+export function pixelToCamera(u: number, v: number, K: Intrinsics) {
+    const x = (u - K.cx) / K.fx, y = (v - K.cy) / K.fy;
+    const lens = LENS_MODELS[K.lens ?? "brown"];
+    return hasDistortion(K.dist) || K.lens === "fisheye"
+        ? lens.unproject(x, y, K.dist ?? { k1: 0, k2: 0, p1: 0, p2: 0, k3: 0 })
+        : normalize([x, y, 1]);
+}
+
+// Camera-frame vector → sensor pixel; null when the lens can't image it
+export function cameraToPixel(c: number[], K: Intrinsics) {
+    const lens = LENS_MODELS[K.lens ?? "brown"];
+    const n = lens.project(c, K.dist ?? { k1: 0, k2: 0, p1: 0, p2: 0, k3: 0 });
+    return n ? { u: n.x * K.fx + K.cx, v: n.y * K.fy + K.cy } : null;
+}
+
+// invertV measures v from the bottom edge: y' = (H − 2cy)/fy − y on the image
+// plane, applied to the ray linearly so it also holds past 90° (self-inverse)
+function flipV(c: number[], K: Intrinsics) {
+    return [c[0], (K.H - 2 * K.cy) / K.fy * c[2] - c[1], c[2]];
+}
+
+// Distorted pixel → ideal pinhole pixel (NaN for rays at or past 90°)
+export function undistortPixel(u: number, v: number, K: Intrinsics) {
+    if (!hasDistortion(K.dist) && K.lens !== "fisheye") return { u, v };
+    const c = pixelToCamera(u, v, K);
+    if (c[2] <= 1e-9) return { u: NaN, v: NaN };
+    return { u: c[0] / c[2] * K.fx + K.cx, v: c[1] / c[2] * K.fy + K.cy };
+}
+
+// Platform yaw as a math angle (CCW about Up from the base frame)
+export function yawMath(yaw: number, conv: RotationConvention = DEFAULT_CONVENTION) {
+    const y = (yaw || 0) + (conv.yawOffset || 0);
+    return conv.yawClockwise ? -y : y;
+}
+
+const BASE_FRAMES: Record<RotationConvention["base"], number[][]> = {
+    identity: [[1, 0, 0], [0, 1, 0], [0, 0, 1]],
+    nadir: [[1, 0, 0], [0, -1, 0], [0, 0, -1]],
+    horizon: [[1, 0, 0], [0, 0, 1], [0, -1, 0]],
+};
+
+function eulerToMatrix(yaw: number, pitch: number, roll: number, conv: RotationConvention) {
+    const pitchDeg = conv.flipPitch ? (pitch || 0) : -(pitch || 0);
+    const rollDeg = conv.flipRoll ? -(roll || 0) : (roll || 0);
+
+    const R_yaw = rotZ(toRad(yawMath(yaw, conv)));
+    const swap = conv.pitchAxis === "y";
+    const R_pitch = swap ? rotY(toRad(pitchDeg)) : rotX(toRad(pitchDeg));
+    const R_roll = swap ? rotX(toRad(rollDeg)) : rotY(toRad(rollDeg));
+
+    return conv.order === "yaw-roll-pitch"
+        ? matMul(R_yaw, matMul(R_roll, R_pitch))
+        : matMul(R_yaw, matMul(R_pitch, R_roll));
+}
+
+// Rotation taking camera-frame vectors into ENU: platform · boresight · base
+export function cameraToENU(pose: Pick<CameraPose, "yaw" | "pitch" | "roll" | "mount">, conv: RotationConvention = DEFAULT_CONVENTION) {
+    const base = BASE_FRAMES[conv.base] ?? BASE_FRAMES.nadir;
+    const R = eulerToMatrix(pose.yaw, pose.pitch, pose.roll, conv);
+    const b = pose.mount?.boresight;
+    return b && (b.yaw || b.pitch || b.roll)
+        ? matMul(R, matMul(eulerToMatrix(b.yaw, b.pitch, b.roll, conv), base))
+        : matMul(R, base);
+}
+
+// Antenna pose → camera-centre pose (lever arm consumed, so applying twice is harmless)
+export function cameraCentre(pose: CameraPose, conv: RotationConvention = DEFAULT_CONVENTION): CameraPose {
+    const arm = pose.mount?.leverArm;
+    if (!arm || !(arm.right || arm.forward || arm.up)) return pose;
+    // heading frame: forward is north at yaw 0, yaw turns it like the platform
+    const y = toRad(yawMath(pose.yaw, conv)), c = Math.cos(y), s = Math.sin(y);
+    const east = c * arm.right - s * arm.forward;
+    const north = s * arm.right + c * arm.forward;
+    const p = enuToLatLon(pose.lat, pose.lon, east, north);
+    return {
+        ...pose, lat: p.lat, lon: p.lon, alt: (pose.alt ?? 0) + arm.up,
+        mount: { ...pose.mount!, leverArm: NO_MOUNT.leverArm },
     };
+}
 
-    // -----------------------------
-    const toRad = (d: number) => d * Math.PI / 180;
+// Pixel (sensor u,v) → unit viewing ray in ENU
+export function pixelToRay(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    conv: RotationConvention = DEFAULT_CONVENTION
+) {
+    const raw = pixelToCamera(u, v, K);
+    return normalize(vecMul(cameraToENU(pose, conv), conv.invertV ? flipV(raw, K) : raw));
+}
 
-    // -----------------------------
-    export async function loadDEM(file: File): Promise<DEMInfo> {
-        const buf = await file.arrayBuffer();
-        const tiff = await fromArrayBuffer(buf);
-        const img = await tiff.getImage();
+// -----------------------------
+// Ray → ground
+// -----------------------------
+export function intersectFlat(ray: number[], pose: CameraPose, groundAlt: number): GroundHit | null {
+    const dz = ray[2];
+    if (Math.abs(dz) < 1e-6) return null;
 
-        const width = img.getWidth();
-        const height = img.getHeight();
+    const t = ((Number(groundAlt) || 0) - (Number(pose.alt) || 0)) / dz;
+    if (t < 0) return null;
 
-        const tie = img.getTiePoints();
-        const scale = img.getFileDirectory().ModelPixelScale;
+    const east = t * ray[0], north = t * ray[1];
+    const { lat, lon } = enuToLatLon(pose.lat, pose.lon, east, north);
+    return { lat, lon, groundAlt, range: Math.hypot(east, north) };
+}
 
-        const raster = (await img.readRasters())[0];
+// -----------------------------
+// Ray marching (DEM / ellipsoid)
+// -----------------------------
+export const DEFAULT_DEM_CELL = 10;  // m, when the DEM posting is unknown
+const MAX_GRADE = 2;                 // steepest rise assumed when the DEM's maxAlt is unknown (63°)
+const MAX_STEP = 500;                // m
+const GAP_STEP_CELLS = 4;            // step cap inside nodata, so the gap's far edge isn't overshot
+const MAX_MARCH_STEPS = 20000;
+const BISECT_TOLERANCE = 0.01;       // m along the ray
 
-        return {
-            raster,
-            width,
-            height,
-            originX: tie[0].x,
-            originY: tie[0].y,
-            resX: scale[0],
-            resY: -Math.abs(scale[1]),
-        };
-    }
+type RayProbe = { lat: number; lon: number; h: number; z: number; f: number; filled: boolean };
 
-    // -----------------------------
-    // DEM read (lon,lat → elevation)
-    // -----------------------------
-    export function readDEM(dem: DEMInfo, lon: number, lat: number): number | null {
-        const col = Math.floor((lon - dem.originX) / dem.resX);
-        const row = Math.floor((lat - dem.originY) / dem.resY);
+// Ground height under a point of the ray; nodata holds the last valid height
+// (or fallbackAlt before the DEM starts) and is reported as filled.
+function groundProbe(ground: GroundModel, at: (s: number) => { lat: number; lon: number; h: number }) {
+    let last: number | null = null;
+    return async (s: number): Promise<RayProbe> => {
+        const p = at(s);
+        if (ground.kind === "flat") return { ...p, z: ground.alt, f: p.h - ground.alt, filled: false };
+        const r = ground.sample(p.lat, p.lon);
+        const z = r instanceof Promise ? await r : r;
+        if (z !== null && Number.isFinite(z)) {
+            last = z;
+            return { ...p, z, f: p.h - z, filled: false };
+        }
+        const zf = last ?? ground.fallbackAlt;
+        return { ...p, z: zf, f: p.h - zf, filled: true };
+    };
+}
 
-        if (col < 0 || row < 0 || col >= dem.width || row >= dem.height)
-            return null;
+// Step along the ray (s = slant metres) until it drops below the ground, then
+// bisect. Above the terrain ceiling the ray jumps straight down to it; below,
+// steps are one DEM cell. Without a ceiling a step never exceeds what terrain
+// could climb at MAX_GRADE, and stays within a few cells across nodata.
+async function marchRay(
+    probe: (s: number) => Promise<RayProbe>,
+    sinDown: number,
+    cell: number,
+    maxRange: number,
+    ceiling?: number
+): Promise<{ hit: RayProbe; s: number; status: IntersectStatus } | null> {
+    let a = 0;
+    let pa = await probe(0);
+    if (!(pa.f > 0)) return null;  // camera at or below the ground
 
-        return dem.raster[row * dem.width + col];
+    const minStep = cell / 2;
+    for (let i = 0; i < MAX_MARCH_STEPS && a < maxRange; i++) {
+        let step: number;
+        if (ceiling !== undefined && pa.h > ceiling) {
+            if (sinDown < 1e-9) return null;  // level or rising above all terrain
+            step = Math.max(minStep, (pa.h - ceiling) / sinDown);
+        } else if (ceiling !== undefined) {
+            step = cell;
+        } else {
+            const safe = pa.f / (sinDown + MAX_GRADE);
+            step = Math.max(minStep, Math.min(pa.filled ? GAP_STEP_CELLS * cell : MAX_STEP, safe));
+        }
+        const b = Math.min(maxRange, a + step);
+        const pb = await probe(b);
+        if (pb.f <= 0) {
+            let lo = a, hi = b, hit = pb, filled = pa.filled || pb.filled;
+            for (let k = 0; k < 40 && hi - lo > BISECT_TOLERANCE; k++) {
+                const mid = (lo + hi) / 2;
+                const pm = await probe(mid);
+                filled = filled || pm.filled;
+                if (pm.f > 0) lo = mid; else { hi = mid; hit = pm; }
+            }
+            const status: IntersectStatus = hit.filled || filled ? "nodata" : hi - lo <= BISECT_TOLERANCE ? "converged" : "unrefined";
+            return { hit, s: hi, status };
+        }
+        a = b; pa = pb;
     }
+    return null;
+}
 
-    // -----------------------------
-    // Rotation matrices
-    // -----------------------------
-    function rotX(a: number) {
-        return [
-            [1, 0, 0],
-            [0, Math.cos(a), -Math.sin(a)],
-            [0, Math.sin(a), Math.cos(a)]
-        ];
+// Point of the ray s slant metres out, height AMSL: straight in the tangent
+// plane (flat), or through ECEF over WGS84 with refraction (ellipsoid)
+export function rayPointAt(ray: number[], pose: CameraPose, earth: EarthModel = FLAT_EARTH) {
+    const camAlt = pose.alt ?? 0;
+    if (earth.kind === "flat") {
+        return (s: number) => ({
+            ...enuToLatLon(pose.lat, pose.lon, s * ray[0], s * ray[1]),
+            h: camAlt + s * ray[2],
+        });
     }
+    const N = earth.undulation ?? (() => 0);
+    const C = geodeticToECEF(pose.lat, pose.lon, camAlt + N(pose.lat, pose.lon));
+    const d = enuToECEFVector(pose.lat, pose.lon, ray);
+    return (s: number) => {
+        const g = ecefToGeodetic([C[0] + d[0] * s, C[1] + d[1] * s, C[2] + d[2] * s]);
+        // why: refraction bends the ray towards the Earth by k·s²/2R
+        const h = g.h - earth.refraction * s * s / (2 * EARTH_MEAN_RADIUS) - N(g.lat, g.lon);
+        return { lat: g.lat, lon: g.lon, h };
+    };
+}
 
-    function rotY(a: number) {
-        return [
-            [Math.cos(a), 0, Math.sin(a)],
-            [0, 1, 0],
-            [-Math.sin(a), 0, Math.cos(a)]
-        ];
-    }
+// Ray vs DEM in the local tangent plane (flat earth)
+export async function intersectDEM(
+    ray: number[],
+    pose: CameraPose,
+    sample: DEMSampler,
+    fallbackAlt: number,
+    cellSize = DEFAULT_DEM_CELL,
+    maxRange = 100_000,
+    maxAlt?: number
+): Promise<GroundHit | null> {
+    const probe = groundProbe({ kind: "dem", sample, fallbackAlt }, rayPointAt(ray, pose));
+    const r = await marchRay(probe, Math.max(0, -ray[2]), cellSize, maxRange, maxAlt);
+    if (!r) return null;
+    return {
+        lat: r.hit.lat, lon: r.hit.lon, groundAlt: r.hit.z,
+        range: r.s * Math.hypot(ray[0], ray[1]), slantRange: r.s, status: r.status,
+    };
+}
 
-    function rotZ(a: number) {
-        return [
-            [Math.cos(a), -Math.sin(a), 0],
-            [Math.sin(a), Math.cos(a), 0],
-            [0, 0, 1]
-        ];
-    }
+// Same march in ECEF against WGS84 + ground heights. Camera and ground heights
+// are AMSL; N converts them to ellipsoidal.
+export async function intersectEllipsoid(
+    ray: number[],
+    pose: CameraPose,
+    ground: GroundModel,
+    refraction = 0,
+    undulation: (lat: number, lon: number) => number = () => 0,
+    maxRange = 100_000
+): Promise<GroundHit | null> {
+    const probe = groundProbe(ground, rayPointAt(ray, pose, { kind: "ellipsoid", refraction, undulation }));
+    // flat ground has no posting; 4 m keeps the old 2 m minimum step
+    const cell = ground.kind === "dem" ? ground.cellSize ?? DEFAULT_DEM_CELL : 4;
+    const ceiling = ground.kind === "dem" ? ground.maxAlt : ground.alt;
+    const r = await marchRay(probe, Math.max(0, -ray[2]), cell, maxRange, ceiling);
+    if (!r) return null;
+    return {
+        lat: r.hit.lat, lon: r.hit.lon, groundAlt: r.hit.z,
+        range: surfaceDistance(pose.lat, pose.lon, r.hit.lat, r.hit.lon),
+        slantRange: r.s, status: r.status,
+    };
+}
 
-    function matMul(A: number[][], B: number[][]) {
-        return A.map((r, i) =>
-            r.map((_, j) =>
-                A[i][0] * B[0][j] +
-                A[i][1] * B[1][j] +
-                A[i][2] * B[2][j]
-            )
-        );
-    }
+// -----------------------------
+// Pixel → Ground
+// -----------------------------
+export function projectPixelFlat(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    groundAlt: number,
+    conv: RotationConvention = DEFAULT_CONVENTION
+): GroundHit | null {
+    const cam = cameraCentre(pose, conv);
+    return intersectFlat(pixelToRay(u, v, cam, K, conv), cam, groundAlt);
+}
 
-    function vecMul(M: number[][], v: number[]) {
-        return [
-            M[0][0] * v[0] + M[0][1] * v[1] + M[0][2] * v[2],
-            M[1][0] * v[0] + M[1][1] * v[1] + M[1][2] * v[2],
-            M[2][0] * v[0] + M[2][1] * v[1] + M[2][2] * v[2],
-        ];
+export async function projectPixel(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    ground: GroundModel,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH
+): Promise<GroundHit | null> {
+    pose = cameraCentre(pose, conv);
+    const ray = pixelToRay(u, v, pose, K, conv);
+    const flat = ground.kind === "flat"
+        ? intersectFlat(ray, pose, ground.alt)
+        : await intersectDEM(ray, pose, ground.sample, ground.fallbackAlt, ground.cellSize, undefined, ground.maxAlt);
+    if (earth.kind === "flat") return flat;
+
+    const hit = await intersectEllipsoid(ray, pose, ground, earth.refraction, earth.undulation);
+    if (hit && flat) hit.flatDelta = surfaceDistance(hit.lat, hit.lon, flat.lat, flat.lon);
+    return hit;
+}
+
+// -----------------------------
+// Ground → Pixel (reverse projection)
+// -----------------------------
+// Offset of a point from the camera in the camera's local ENU frame, using the
+// same earth model as the forward projection so both directions agree.
+export function offsetENU(lat: number, lon: number, alt: number, pose: CameraPose, earth: EarthModel = FLAT_EARTH) {
+    if (earth.kind === "flat") {
+        const { mlat, mlon } = metersPerDeg(pose.lat);
+        return [(lon - pose.lon) * mlon, (lat - pose.lat) * mlat, alt - (pose.alt ?? 0)];
     }
+    const N = earth.undulation ?? (() => 0);
+    const C = geodeticToECEF(pose.lat, pose.lon, (pose.alt ?? 0) + N(pose.lat, pose.lon));
+    const P = geodeticToECEF(lat, lon, alt + N(lat, lon));
+    return ecefToENUVector(pose.lat, pose.lon, [P[0] - C[0], P[1] - C[1], P[2] - C[2]]);
+}
 
-    // -----------------------------
-    // Pixel → Ground (DEM intersect)
-    // -----------------------------
-    export function projectPixelToDEM(
-        px: number,
-        py: number,
-        cam: CameraPose,
-        K: Intrinsics,
-        dem: DEMInfo
-    ): { lat: number; lon: number; ground: number } | null {
-
-        // 1) Camera ray in camera frame
-        const xn = (px - K.cx) / K.fx;
-        const yn = (py - K.cy) / K.fy;
-        const rayCam = [xn, yn, 1];
-
-        // 2) Rotation
-        const Rz = rotZ(toRad(cam.yaw));
-        const Ry = rotY(toRad(cam.pitch));
-        const Rx = rotX(toRad(cam.roll));
-
-        let R = Rz;
-        R = matMul(R, Ry);
-        R = matMul(R, Rx);
-
-        const ray = vecMul(R, rayCam);
-
-        // 3) Ray march
-        let lat = cam.lat;
-        let lon = cam.lon;
-        let alt = cam.alt;
-
-        for (let i = 0; i < 5000; i++) {
-            const zGround = readDEM(dem, lon, lat);
-            if (zGround !== null && alt <= zGround)
-                return { lat, lon, ground: zGround };
-
-            // Step: adjust by small meter steps
-            const step = 3; // meters
-
-            // Convert meters to deg
-            const degLat = step / 111320;
-            const degLon = step / (111320 * Math.cos(toRad(lat)));
-
-            alt -= ray[2] * step;
-            lon += ray[0] * degLon * step;
-            lat += ray[1] * degLat * step;
-        }
+// ENU vector from the camera centre (offset or direction) → sensor pixel;
+// null when it lies behind the camera / outside what the lens can image
+export function enuToPixel(d: number[], pose: CameraPose, K: Intrinsics, conv: RotationConvention = DEFAULT_CONVENTION) {
+    const R = cameraToENU(pose, conv);
+    // camera frame = Rᵀ · enu
+    const c = [
+        R[0][0] * d[0] + R[1][0] * d[1] + R[2][0] * d[2],
+        R[0][1] * d[0] + R[1][1] * d[1] + R[2][1] * d[2],
+        R[0][2] * d[0] + R[1][2] * d[1] + R[2][2] * d[2],
+    ];
+    // undo invertV first (mirroring pixelToRay), then image through the lens
+    return cameraToPixel(conv.invertV ? flipV(c, K) : c, K);
+}
+
+export function groundToPixel(
+    lat: number,
+    lon: number,
+    alt: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH
+): PixelHit {
+    pose = cameraCentre(pose, conv);
+    const d = offsetENU(lat, lon, alt, pose, earth);
+    const range = Math.hypot(d[0], d[1], d[2]);
+    const p = enuToPixel(d, pose, K, conv);
+    if (!p) return { u: NaN, v: NaN, inFrame: false, behind: true, range };
+    const { u, v } = p;
+    return { u, v, inFrame: u >= 0 && v >= 0 && u < K.W && v < K.H, behind: false, range };
+}
 
-        return null;
+// Walk the straight sight line camera → point and report the first DEM sample
+// that rises above it. Ellipsoid mode lowers the terrain by (1-k)·d²/2R.
+export async function lineOfSight(
+    pose: CameraPose,
+    lat: number,
+    lon: number,
+    alt: number,
+    sample: DEMSampler,
+    earth: EarthModel = FLAT_EARTH,
+    tolerance = 1,
+    conv: RotationConvention = DEFAULT_CONVENTION
+): Promise<LineOfSight> {
+    pose = cameraCentre(pose, conv);
+    const { mlat, mlon } = metersPerDeg(pose.lat);
+    const east = (lon - pose.lon) * mlon, north = (lat - pose.lat) * mlat;
+    const dist = Math.hypot(east, north);
+    if (dist < 1) return { blocked: false };
+
+    const k = earth.kind === "ellipsoid" ? earth.refraction : 0;
+    const curve = earth.kind === "ellipsoid" ? (1 - k) / (2 * EARTH_MEAN_RADIUS) : 0;
+    const n = Math.min(2000, Math.max(20, Math.ceil(dist / 5)));
+    const camAlt = pose.alt ?? 0;
+
+    for (let i = 1; i < n; i++) {
+        const f = i / n;
+        const dH = f * dist;
+        if (dist - dH < 2) break;  // why: don't let the target's own cell block it
+        const p = enuToLatLon(pose.lat, pose.lon, f * east, f * north);
+        const z = await sample(p.lat, p.lon);
+        if (z === null || !Number.isFinite(z)) continue;
+        // heights in the camera's tangent plane: everything drops by c·d²
+        const line = camAlt + f * (alt - curve * dist * dist - camAlt);
+        const ground = z - curve * dH * dH;
+        if (ground > line + tolerance) {
+            return { blocked: true, at: { lat: p.lat, lon: p.lon, ground: z, line, dist: dH } };
+        }
     }
+    return { blocked: false };
+}
@@ -0,0 +1,107 @@
+// ============================================================================
+// FILE: src/utils/rayProfile.ts
+// PURPOSE: Terrain profile under one viewing ray — DEM elevation along the
+//          ray's ground track against the ray's own height, the ground hit and
+//          the near-misses before it — sampled exactly as projectPixel marches.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel, GroundModel, GroundHit,
+    DEFAULT_CONVENTION, FLAT_EARTH, DEFAULT_DEM_CELL, cameraCentre, pixelToRay, rayPointAt,
+} from "./projection";
+import { surfaceDistance } from "./geodesy";
+
+const MAX_SAMPLES = 1500;
+
+export type ProfileSample = {
+    dist: number;            // m along the ground track
+    lat: number; lon: number;
+    ray: number;             // ray height, m AMSL
+    ground: number | null;   // DEM, m AMSL; null in voids
+};
+
+export type NearMiss = { dist: number; clearance: number; lat: number; lon: number };
+
+export type RayProfile = {
+    samples: ProfileSample[];
+    elevation: number;       // deg, ray above the local horizontal
+    hit: { dist: number; ground: number; lat: number; lon: number } | null;
+    nearMisses: NearMiss[];  // before the hit, in track order
+    threshold: number;       // m, clearance counted as a near-miss
+};
+
+// Same track and DEM samples projectPixel uses; runs 25 % past the hit (or to
+// maxRange when there is none) so the terrain behind it shows too.
+export async function rayProfile(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    ground: Extract<GroundModel, { kind: "dem" }>,
+    hit: GroundHit | null,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    opts: { maxRange?: number; threshold?: number } = {}
+): Promise<RayProfile> {
+    const cam = cameraCentre(pose, conv);
+    const ray = pixelToRay(u, v, cam, K, conv);
+    const at = rayPointAt(ray, cam, earth);
+    const cell = ground.cellSize ?? DEFAULT_DEM_CELL;
+    const horiz = Math.max(1e-9, Math.hypot(ray[0], ray[1]));
+    const threshold = opts.threshold ?? Math.max(10, 3 * cell);
+
+    const hitDist = hit ? surfaceDistance(cam.lat, cam.lon, hit.lat, hit.lon) : null;
+    const span = hitDist !== null ? Math.max(hitDist * 1.25, hitDist + 10 * cell) : opts.maxRange ?? 5_000;
+    // slant step giving ~one cell of ground track per sample
+    const ds = Math.max(cell, span / MAX_SAMPLES) / horiz;
+
+    const samples: ProfileSample[] = [];
+    for (let s = 0; ; s += ds) {
+        const p = at(s);
+        const dist = surfaceDistance(cam.lat, cam.lon, p.lat, p.lon);
+        if (dist > span) break;
+        const r = ground.sample(p.lat, p.lon);
+        const z = r instanceof Promise ? await r : r;
+        samples.push({ dist, lat: p.lat, lon: p.lon, ray: p.h, ground: z !== null && Number.isFinite(z) ? z : null });
+        if (samples.length > MAX_SAMPLES * 2) break;
+    }
+
+    // local minima of clearance before the hit, one per dip under the threshold
+    const nearMisses: NearMiss[] = [];
+    let dip: NearMiss | null = null;
+    for (const q of samples) {
+        // why: the final descent into the hit is the hit, not a near-miss
+        if (hitDist !== null && q.dist >= hitDist - cell) { dip = null; break; }
+        const c = q.ground === null ? Infinity : q.ray - q.ground;
+        if (c < threshold) {
+            if (!dip || c < dip.clearance) dip = { dist: q.dist, clearance: c, lat: q.lat, lon: q.lon };
+        } else if (dip) {
+            nearMisses.push(dip);
+            dip = null;
+        }
+    }
+    if (dip) nearMisses.push(dip);
+
+    return {
+        samples,
+        elevation: Math.atan2(ray[2], horiz) * 180 / Math.PI,
+        hit: hit && hitDist !== null ? { dist: hitDist, ground: hit.groundAlt, lat: hit.lat, lon: hit.lon } : null,
+        nearMisses,
+        threshold,
+    };
+}
+
+export function describeRayProfile(p: RayProfile) {
+    const km = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(2)} km` : `${m.toFixed(0)} m`;
+    const lines = [
+        `Ray ${p.elevation.toFixed(2)}° · ` + (p.hit
+            ? `hits ground at ${km(p.hit.dist)} (${p.hit.ground.toFixed(1)} m AMSL)`
+            : `no ground hit within ${km(p.samples[p.samples.length - 1]?.dist ?? 0)}`),
+    ];
+    if (!p.nearMisses.length) lines.push(`no near-miss under ${p.threshold.toFixed(0)} m before the hit`);
+    p.nearMisses.forEach(m => lines.push(
+        `near-miss at ${km(m.dist)}: ray ${m.clearance.toFixed(1)} m above terrain (${m.lat.toFixed(6)}, ${m.lon.toFixed(6)})`
+    ));
+    const voids = p.samples.filter(q => q.ground === null).length;
+    if (voids) lines.push(`${voids} of ${p.samples.length} samples in DEM voids`);
+    return lines.join("\n");
+}
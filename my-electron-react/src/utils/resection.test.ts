@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { CameraPose, Intrinsics, enuToLatLon, groundToPixel, metersPerDeg } from "./projection";
+import { ControlPoint, parseControlFile, solveResection } from "./resection";
+
+const K: Intrinsics = { W: 6000, H: 4000, fx: 4500, fy: 4500, cx: 3000, cy: 2000 };
+const truth: CameraPose = { lat: 32.1, lon: 34.8, alt: 180, yaw: 20, pitch: 15, roll: 3 };
+
+// ground points around the footprint, imaged with the known pose
+function syntheticGCPs(pose: CameraPose, Kt: Intrinsics): ControlPoint[] {
+    const spots = [[-60, -120, 12], [55, -115, 20], [70, -40, 5], [-45, -20, 30], [0, -60, 0], [25, -10, 18], [-80, -65, 8]];
+    return spots.map(([east, north, alt], i) => {
+        const { lat, lon } = enuToLatLon(pose.lat, pose.lon, east, north);
+        const px = groundToPixel(lat, lon, alt, pose, Kt);
+        return { id: i + 1, u: px.u, v: px.v, lat, lon, alt };
+    });
+}
+
+describe("solveResection", () => {
+    it("recovers a known pose from synthetic GCPs", () => {
+        const gcps = syntheticGCPs(truth, K);
+        expect(gcps.every(g => g.u >= 0 && g.u < K.W && g.v >= 0 && g.v < K.H)).toBe(true);
+
+        const guess: CameraPose = { ...truth, lat: truth.lat + 0.0002, lon: truth.lon - 0.0002, alt: 200, yaw: 28, pitch: 8, roll: 0 };
+        const r = solveResection(gcps, guess, K);
+        const { mlat, mlon } = metersPerDeg(truth.lat);
+
+        expect(r.converged).toBe(true);
+        expect(r.rms).toBeLessThan(0.01);
+        expect(Math.abs(r.pose.lat - truth.lat) * mlat).toBeLessThan(0.01);
+        expect(Math.abs(r.pose.lon - truth.lon) * mlon).toBeLessThan(0.01);
+        expect(r.pose.alt).toBeCloseTo(truth.alt, 2);
+        expect(r.pose.yaw).toBeCloseTo(truth.yaw, 3);
+        expect(r.pose.pitch).toBeCloseTo(truth.pitch, 3);
+        expect(r.pose.roll).toBeCloseTo(truth.roll, 3);
+    });
+
+    it("refines the focal length", () => {
+        const gcps = syntheticGCPs(truth, { ...K, fx: 4620, fy: 4620 });
+        const r = solveResection(gcps, { ...truth, yaw: 24, pitch: 12 }, K, undefined, undefined, { refineFocal: true });
+        expect(r.K.fx).toBeCloseTo(4620, 0);
+        expect(r.K.fy).toBeCloseTo(4620, 0);
+    });
+
+    it("rejects too few points", () => {
+        expect(() => solveResection(syntheticGCPs(truth, K).slice(0, 3), truth, K)).toThrow(/at least 4/);
+    });
+});
+
+describe("parseControlFile", () => {
+    it("reads named, unnamed and headed files", () => {
+        const text = [
+            "# survey 2024-05",
+            "name,lat,lon,alt",
+            "Mast A, 32.1001, 34.8002, 55.5",
+            "32.2;34.9",
+            "Roof\t32.3\t34.7\t12",
+            "",
+        ].join("\r\n");
+        expect(parseControlFile(text)).toEqual([
+            { name: "Mast A", lat: 32.1001, lon: 34.8002, alt: 55.5 },
+            { name: "GCP2", lat: 32.2, lon: 34.9, alt: undefined },
+            { name: "Roof", lat: 32.3, lon: 34.7, alt: 12 },
+        ]);
+    });
+
+    it("splits on whitespace and skips out-of-range rows", () => {
+        expect(parseControlFile("P1 32.5 34.5 10\nP2 95 34 0\nP3 abc 34")).toEqual([
+            { name: "P1", lat: 32.5, lon: 34.5, alt: 10 },
+        ]);
+    });
+});
@@ -0,0 +1,272 @@
+// ============================================================================
+// FILE: src/utils/resection.ts
+// PURPOSE: Space resection — solve camera position/orientation (and optionally
+//          fx/fy/cx/cy) from ground control points by Levenberg–Marquardt on
+//          the reprojection error of the shared projection engine.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel,
+    DEFAULT_CONVENTION, FLAT_EARTH, groundToPixel, enuToLatLon, metersPerDeg,
+} from "./projection";
+
+// A clicked image point (sensor pixels) with its known ground coordinate (alt AMSL)
+export type ControlPoint = {
+    id: number | string;
+    u: number;
+    v: number;
+    lat: number;
+    lon: number;
+    alt: number;
+};
+
+export type ResectionOptions = {
+    refineFocal?: boolean;      // solve fx, fy
+    refinePrincipal?: boolean;  // solve cx, cy
+    maxIterations?: number;
+    coarseSearch?: boolean;     // grid over yaw/pitch before the LSQ (bad/missing EXIF)
+};
+
+export type ControlResidual = {
+    id: ControlPoint["id"];
+    du: number;     // px, predicted − observed
+    dv: number;
+    err: number;    // px
+    behind: boolean;
+};
+
+export type ResectionResult = {
+    pose: CameraPose;
+    K: Intrinsics;
+    rms: number;                    // px
+    residuals: ControlResidual[];
+    iterations: number;
+    converged: boolean;
+    // a-posteriori 1σ of the solved parameters (m for position, deg, px)
+    sigma: { east: number; north: number; up: number; yaw: number; pitch: number; roll: number;
+        fx?: number; fy?: number; cx?: number; cy?: number };
+};
+
+// residual for points that reproject behind the camera
+const BEHIND_PENALTY = 1e4;
+
+export function minControlPoints(opts: ResectionOptions = {}) {
+    const n = 6 + (opts.refineFocal ? 2 : 0) + (opts.refinePrincipal ? 2 : 0);
+    return Math.max(4, Math.ceil(n / 2) + 1);
+}
+
+// -----------------------------
+// Solver
+// -----------------------------
+export function solveResection(
+    points: ControlPoint[],
+    pose0: CameraPose,
+    K0: Intrinsics,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    opts: ResectionOptions = {}
+): ResectionResult {
+    const need = minControlPoints(opts);
+    if (points.length < need) throw new Error(`Resection needs at least ${need} control points (have ${points.length}).`);
+
+    const origin = initialPosition(points, pose0);
+    const nP = 6 + (opts.refineFocal ? 2 : 0) + (opts.refinePrincipal ? 2 : 0);
+
+    // parameters: [east, north, up (m from origin), yaw, pitch, roll, fx, fy, cx, cy]
+    const unpack = (p: number[]) => {
+        const ll = enuToLatLon(origin.lat, origin.lon, p[0], p[1]);
+        const pose: CameraPose = {
+            lat: ll.lat, lon: ll.lon, alt: origin.alt + p[2], yaw: p[3], pitch: p[4], roll: p[5], mount: pose0.mount,
+        };
+        let i = 6;
+        const K: Intrinsics = { ...K0 };
+        if (opts.refineFocal) { K.fx = p[i++]; K.fy = p[i++]; }
+        if (opts.refinePrincipal) { K.cx = p[i++]; K.cy = p[i++]; }
+        return { pose, K };
+    };
+    const residuals = (p: number[]) => {
+        const { pose, K } = unpack(p);
+        const r: number[] = [];
+        for (const c of points) {
+            const h = groundToPixel(c.lat, c.lon, c.alt, pose, K, conv, earth);
+            if (h.behind) r.push(BEHIND_PENALTY, BEHIND_PENALTY);
+            else r.push(h.u - c.u, h.v - c.v);
+        }
+        return r;
+    };
+    const cost = (r: number[]) => r.reduce((a, x) => a + x * x, 0);
+
+    let p = [0, 0, 0, pose0.yaw, pose0.pitch, pose0.roll];
+    if (opts.refineFocal) p.push(K0.fx, K0.fy);
+    if (opts.refinePrincipal) p.push(K0.cx, K0.cy);
+    if (opts.coarseSearch) p = coarseOrientation(p, r => cost(residuals(r)));
+
+    // finite-difference steps per parameter
+    const steps = [0.05, 0.05, 0.05, 1e-3, 1e-3, 1e-3, 0.5, 0.5, 0.5, 0.5].slice(0, nP);
+    const maxIt = opts.maxIterations ?? 100;
+    let r = residuals(p), c = cost(r);
+    let lambda = 1e-3, it = 0, converged = false;
+    let JtJ: number[][] = [];
+
+    for (; it < maxIt; it++) {
+        const J = jacobian(residuals, p, r, steps);
+        JtJ = mulAtA(J);
+        const Jtr = mulAtb(J, r);
+        let improved = false;
+        for (let tries = 0; tries < 12; tries++) {
+            const A = JtJ.map((row, i) => row.map((x, j) => i === j ? x * (1 + lambda) + 1e-12 : x));
+            const delta = solveLinear(A, Jtr.map(x => -x));
+            if (!delta) { lambda *= 10; continue; }
+            const pNew = p.map((x, i) => x + delta[i]);
+            const rNew = residuals(pNew), cNew = cost(rNew);
+            if (cNew < c) {
+                const rel = (c - cNew) / Math.max(c, 1e-12);
+                p = pNew; r = rNew; c = cNew;
+                lambda = Math.max(1e-9, lambda / 10);
+                improved = true;
+                if (rel < 1e-10 || Math.max(...delta.map(Math.abs)) < 1e-7) converged = true;
+                break;
+            }
+            lambda *= 10;
+        }
+        if (!improved) { converged = true; break; }
+        if (converged) break;
+    }
+
+    const { pose, K } = unpack(p);
+    pose.yaw = ((pose.yaw % 360) + 360) % 360;
+    const res: ControlResidual[] = points.map((pt, i) => {
+        const behind = r[2 * i] === BEHIND_PENALTY && r[2 * i + 1] === BEHIND_PENALTY;
+        const du = r[2 * i], dv = r[2 * i + 1];
+        return { id: pt.id, du, dv, err: Math.hypot(du, dv), behind };
+    });
+    const rms = Math.sqrt(c / points.length);
+
+    // covariance = s²·(JᵀJ)⁻¹ with s² = cost / (2N − nP)
+    const dof = 2 * points.length - nP;
+    const s2 = dof > 0 ? c / dof : NaN;
+    const inv = invert(JtJ);
+    const sd = (i: number) => inv ? Math.sqrt(Math.max(0, inv[i][i] * s2)) : NaN;
+    const sigma: ResectionResult["sigma"] = {
+        east: sd(0), north: sd(1), up: sd(2), yaw: sd(3), pitch: sd(4), roll: sd(5),
+    };
+    let i = 6;
+    if (opts.refineFocal) { sigma.fx = sd(i++); sigma.fy = sd(i++); }
+    if (opts.refinePrincipal) { sigma.cx = sd(i++); sigma.cy = sd(i++); }
+
+    return { pose, K, rms, residuals: res, iterations: it, converged, sigma };
+}
+
+// Start from the camera GPS when there is one, else above the control centroid
+function initialPosition(points: ControlPoint[], pose0: CameraPose) {
+    const valid = Number.isFinite(pose0.lat) && Number.isFinite(pose0.lon) && (pose0.lat !== 0 || pose0.lon !== 0);
+    if (valid) return { lat: pose0.lat, lon: pose0.lon, alt: Number.isFinite(pose0.alt) ? pose0.alt : 0 };
+    const n = points.length;
+    const lat = points.reduce((a, c) => a + c.lat, 0) / n;
+    const lon = points.reduce((a, c) => a + c.lon, 0) / n;
+    const { mlat, mlon } = metersPerDeg(lat);
+    const spread = Math.max(...points.map(c => Math.hypot((c.lat - lat) * mlat, (c.lon - lon) * mlon)), 50);
+    return { lat, lon, alt: Math.max(...points.map(c => c.alt)) + spread };
+}
+
+// why: LM only converges locally; a wrong EXIF yaw can be 180° off
+function coarseOrientation(p: number[], f: (p: number[]) => number) {
+    let best = p, bestCost = f(p);
+    for (let yaw = 0; yaw < 360; yaw += 15) {
+        for (const pitch of [-90, -60, -30, -10, 0, 10, 30, 60, 90]) {
+            const q = p.slice();
+            q[3] = yaw; q[4] = pitch; q[5] = 0;
+            const c = f(q);
+            if (c < bestCost) { best = q; bestCost = c; }
+        }
+    }
+    return best;
+}
+
+// -----------------------------
+// Small dense linear algebra
+// -----------------------------
+function jacobian(f: (p: number[]) => number[], p: number[], r0: number[], steps: number[]) {
+    const J: number[][] = r0.map(() => new Array(p.length).fill(0));
+    for (let j = 0; j < p.length; j++) {
+        const q = p.slice();
+        q[j] += steps[j];
+        const r1 = f(q);
+        for (let i = 0; i < r0.length; i++) J[i][j] = (r1[i] - r0[i]) / steps[j];
+    }
+    return J;
+}
+
+function mulAtA(J: number[][]) {
+    const n = J[0]?.length ?? 0;
+    const A = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (const row of J)
+        for (let i = 0; i < n; i++)
+            for (let j = 0; j < n; j++) A[i][j] += row[i] * row[j];
+    return A;
+}
+
+function mulAtb(J: number[][], b: number[]) {
+    const n = J[0]?.length ?? 0;
+    const out = new Array(n).fill(0);
+    J.forEach((row, k) => { for (let i = 0; i < n; i++) out[i] += row[i] * b[k]; });
+    return out;
+}
+
+// Gaussian elimination with partial pivoting; null when singular
+function solveLinear(A: number[][], b: number[]): number[] | null {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+    for (let c = 0; c < n; c++) {
+        let piv = c;
+        for (let r = c + 1; r < n; r++) if (Math.abs(M[r][c]) > Math.abs(M[piv][c])) piv = r;
+        if (Math.abs(M[piv][c]) < 1e-15) return null;
+        [M[c], M[piv]] = [M[piv], M[c]];
+        for (let r = c + 1; r < n; r++) {
+            const f = M[r][c] / M[c][c];
+            for (let k = c; k <= n; k++) M[r][k] -= f * M[c][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let r = n - 1; r >= 0; r--) {
+        let acc = M[r][n];
+        for (let k = r + 1; k < n; k++) acc -= M[r][k] * x[k];
+        x[r] = acc / M[r][r];
+    }
+    return x;
+}
+
+function invert(A: number[][]): number[][] | null {
+    const n = A.length;
+    const cols: number[][] = [];
+    for (let j = 0; j < n; j++) {
+        const e = new Array(n).fill(0); e[j] = 1;
+        const x = solveLinear(A, e);
+        if (!x) return null;
+        cols.push(x);
+    }
+    return A.map((_, i) => cols.map(col => col[i]));
+}
+
+// -----------------------------
+// Control point files
+// -----------------------------
+export type NamedCoordinate = { name: string; lat: number; lon: number; alt?: number };
+
+// CSV / TXT, one point per line: "name, lat, lon[, alt]" or "lat, lon[, alt]".
+// Separators: comma, semicolon or tab (names may contain spaces), else whitespace;
+// header and # comment lines are skipped.
+export function parseControlFile(text: string): NamedCoordinate[] {
+    const out: NamedCoordinate[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        const t = line.trim();
+        if (!t || t.startsWith("#")) continue;
+        const cells = t.split(/[,;\t]/.test(t) ? /[,;\t]/ : /\s+/).map(c => c.trim()).filter(Boolean);
+        const hasName = cells.length > 0 && !Number.isFinite(Number(cells[0]));
+        const nums = (hasName ? cells.slice(1) : cells).map(Number);
+        if (nums.length < 2 || !nums.slice(0, 3).every(Number.isFinite)) continue;
+        const [lat, lon, alt] = nums;
+        if (Math.abs(lat) > 90 || Math.abs(lon) > 180) continue;
+        out.push({ name: hasName ? cells[0] : `GCP${out.length + 1}`, lat, lon, alt: Number.isFinite(alt) ? alt : undefined });
+    }
+    return out;
+}
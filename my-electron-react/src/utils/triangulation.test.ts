@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { CameraPose, EarthModel, Intrinsics, enuToLatLon, groundToPixel, metersPerDeg } from "./projection";
+import { RayObservation, triangulate } from "./triangulation";
+
+const K: Intrinsics = { W: 6000, H: 4000, fx: 4500, fy: 4500, cx: 3000, cy: 2000 };
+// straight rays, as triangulate casts them
+const EARTH: EarthModel = { kind: "ellipsoid", refraction: 0 };
+// mast top, 42 m AMSL
+const target = { lat: 32.1, lon: 34.8, alt: 42 };
+
+function view(id: string, east: number, north: number, alt: number, yaw: number): RayObservation {
+    const { lat, lon } = enuToLatLon(target.lat, target.lon, east, north);
+    const pose: CameraPose = { lat, lon, alt, yaw, pitch: 5, roll: -2 };
+    const px = groundToPixel(target.lat, target.lon, target.alt, pose, K, undefined, EARTH);
+    return { id, u: px.u, v: px.v, pose, K };
+}
+
+describe("triangulate", () => {
+    const views = [view("a", -30, -15, 140, 10), view("b", 25, -30, 155, -25), view("c", 5, 35, 130, 70)];
+
+    it("recovers the target from its pixels in three photos", () => {
+        for (const o of views) expect(o.u >= 0 && o.u < K.W && o.v >= 0 && o.v < K.H).toBe(true);
+        const r = triangulate(views);
+        const { mlat, mlon } = metersPerDeg(target.lat);
+        expect(Math.abs(r.lat - target.lat) * mlat).toBeLessThan(1e-3);
+        expect(Math.abs(r.lon - target.lon) * mlon).toBeLessThan(1e-3);
+        expect(r.alt).toBeCloseTo(target.alt, 3);
+        expect(r.rmsMiss).toBeLessThan(1e-3);
+        expect(r.misses.every(m => !m.behind)).toBe(true);
+        expect(r.maxAngle).toBeGreaterThan(20);
+    });
+
+    it("reports how far a perturbed ray misses", () => {
+        const off = { ...views[2], u: views[2].u + 30 };
+        const r = triangulate([views[0], views[1], off]);
+        expect(r.rmsMiss).toBeGreaterThan(0.05);
+        expect(r.misses.find(m => m.id === "c")!.miss).toBeGreaterThan(0.05);
+    });
+
+    it("needs two photos and rays that cross", () => {
+        expect(() => triangulate(views.slice(0, 1))).toThrow(/at least 2/);
+        expect(() => triangulate([views[0], { ...views[0], id: "a2" }])).toThrow(/parallel/);
+    });
+});
@@ -0,0 +1,109 @@
+// ============================================================================
+// FILE: src/utils/triangulation.ts
+// PURPOSE: Multi-view triangulation — the least-squares 3D point closest to
+//          the viewing rays of one target clicked in two or more photos.
+//          Independent of the DEM, so masts and rooftops keep their height.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel,
+    DEFAULT_CONVENTION, FLAT_EARTH, cameraCentre, pixelToRay,
+} from "./projection";
+import { geodeticToECEF, ecefToGeodetic, enuToECEFVector } from "./geodesy";
+
+// One photo's view of the target: sensor pixel plus the pose it was taken with
+export type RayObservation = {
+    id: string | number;
+    u: number;
+    v: number;
+    pose: CameraPose;
+    K: Intrinsics;
+    conv?: RotationConvention;
+};
+
+export type RayMiss = {
+    id: RayObservation["id"];
+    miss: number;     // m, perpendicular distance from the solved point to the ray
+    range: number;    // m, along the ray to the foot of that perpendicular
+    behind: boolean;  // solved point lies behind this camera
+};
+
+export type TriangulationResult = {
+    lat: number;
+    lon: number;
+    alt: number;         // m AMSL
+    misses: RayMiss[];
+    rmsMiss: number;     // m
+    maxAngle: number;    // deg, widest intersection angle between any two rays
+};
+
+// Straight rays in ECEF (refraction ignored); heights AMSL, lifted by N when
+// the earth model carries a geoid.
+export function triangulate(obs: RayObservation[], earth: EarthModel = FLAT_EARTH): TriangulationResult {
+    if (obs.length < 2) throw new Error(`Triangulation needs the target in at least 2 photos (have ${obs.length}).`);
+    const N = earth.kind === "ellipsoid" && earth.undulation ? earth.undulation : () => 0;
+
+    const rays = obs.map(o => {
+        const conv = o.conv ?? DEFAULT_CONVENTION;
+        const cam = cameraCentre(o.pose, conv);
+        const enu = pixelToRay(o.u, o.v, cam, o.K, conv);
+        return {
+            id: o.id,
+            o: geodeticToECEF(cam.lat, cam.lon, (cam.alt ?? 0) + N(cam.lat, cam.lon)),
+            d: enuToECEFVector(cam.lat, cam.lon, enu),
+        };
+    });
+
+    // Σ (I − d·dᵀ) X = Σ (I − d·dᵀ) o, relative to the first camera to keep digits
+    const ref = rays[0].o;
+    const A = [[0, 0, 0], [0, 0, 0], [0, 0, 0]];
+    const b = [0, 0, 0];
+    for (const { o, d } of rays) {
+        for (let i = 0; i < 3; i++) {
+            for (let j = 0; j < 3; j++) {
+                const p = (i === j ? 1 : 0) - d[i] * d[j];
+                A[i][j] += p;
+                b[i] += p * (o[j] - ref[j]);
+            }
+        }
+    }
+    const x = solve3(A, b);
+    if (!x) throw new Error("Rays are (nearly) parallel — use photos taken from further apart.");
+    const X = [x[0] + ref[0], x[1] + ref[1], x[2] + ref[2]];
+
+    const misses: RayMiss[] = rays.map(({ id, o, d }) => {
+        const w = [X[0] - o[0], X[1] - o[1], X[2] - o[2]];
+        const t = w[0] * d[0] + w[1] * d[1] + w[2] * d[2];
+        const miss = Math.hypot(w[0] - t * d[0], w[1] - t * d[1], w[2] - t * d[2]);
+        return { id, miss, range: t, behind: t <= 0 };
+    });
+
+    let maxAngle = 0;
+    for (let i = 0; i < rays.length; i++) {
+        for (let j = i + 1; j < rays.length; j++) {
+            const a = rays[i].d, c = rays[j].d;
+            const cos = Math.max(-1, Math.min(1, a[0] * c[0] + a[1] * c[1] + a[2] * c[2]));
+            maxAngle = Math.max(maxAngle, Math.acos(cos) * 180 / Math.PI);
+        }
+    }
+
+    const g = ecefToGeodetic(X);
+    return {
+        lat: g.lat,
+        lon: g.lon,
+        alt: g.h - N(g.lat, g.lon),
+        misses,
+        rmsMiss: Math.sqrt(misses.reduce((a, m) => a + m.miss * m.miss, 0) / misses.length),
+        maxAngle,
+    };
+}
+
+// Cramer's rule; null when the rays don't pin the point down
+function solve3(A: number[][], b: number[]): number[] | null {
+    const det = (M: number[][]) =>
+        M[0][0] * (M[1][1] * M[2][2] - M[1][2] * M[2][1]) -
+        M[0][1] * (M[1][0] * M[2][2] - M[1][2] * M[2][0]) +
+        M[0][2] * (M[1][0] * M[2][1] - M[1][1] * M[2][0]);
+    const D = det(A);
+    if (!Number.isFinite(D) || Math.abs(D) < 1e-12) return null;
+    return [0, 1, 2].map(k => det(A.map((row, i) => row.map((x, j) => j === k ? b[i] : x))) / D);
+}
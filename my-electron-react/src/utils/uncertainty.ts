@@ -0,0 +1,175 @@
+// ============================================================================
+// FILE: src/utils/uncertainty.ts
+// PURPOSE: Positional uncertainty of a projected pixel. Each error source is
+//          perturbed by its 1σ through the projection engine and the ground
+//          displacements are summed into an East/North covariance.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, GroundModel, GroundHit, RotationConvention, EarthModel,
+    DEFAULT_CONVENTION, FLAT_EARTH, projectPixel, metersPerDeg, enuToLatLon,
+} from "./projection";
+
+// 1σ values of every input the projection depends on
+export type UncertaintySigmas = {
+    gpsH: number;       // m, camera horizontal position
+    gpsV: number;       // m, camera altitude
+    yaw: number;        // deg
+    pitch: number;      // deg
+    roll: number;       // deg
+    focal: number;      // px, fx (fy scaled along)
+    principal: number;  // px, cx and cy
+    pixel: number;      // px, click / picking error in u and v
+    dem: number;        // m, ground height error
+};
+
+export const DEFAULT_SIGMAS: UncertaintySigmas = {
+    gpsH: 2.5, gpsV: 5, yaw: 0.5, pitch: 0.3, roll: 0.3,
+    focal: 20, principal: 10, pixel: 1, dem: 5,
+};
+
+export type ErrorEllipse = {
+    sigmaE: number;         // m, 1σ east
+    sigmaN: number;         // m, 1σ north
+    semiMajor: number;      // m, 1σ
+    semiMinor: number;      // m, 1σ
+    azimuth: number;        // deg, major axis clockwise from north
+    ce90: number;           // m, radius holding 90% probability
+    unbounded: boolean;     // some 1σ perturbation no longer hits the ground
+    contributions: Record<keyof UncertaintySigmas, number>;  // m, per source
+};
+
+// χ²(2 dof, 90%) scale from 1σ ellipse to 90% ellipse
+export const ELLIPSE_90_SCALE = Math.sqrt(4.605170186);
+
+type Perturbation = {
+    key: keyof UncertaintySigmas;
+    u: number; v: number; pose: CameraPose; K: Intrinsics; ground: GroundModel;
+};
+
+function shiftGround(ground: GroundModel, dz: number): GroundModel {
+    if (ground.kind === "flat") return { kind: "flat", alt: ground.alt + dz };
+    const sample = ground.sample;
+    return {
+        ...ground,
+        fallbackAlt: ground.fallbackAlt + dz,
+        maxAlt: ground.maxAlt === undefined ? undefined : ground.maxAlt + dz,
+        sample: async (lat, lon) => {
+            const z = await sample(lat, lon);
+            return z === null ? null : z + dz;
+        },
+    };
+}
+
+// -----------------------------
+// Propagation
+// -----------------------------
+export async function propagateUncertainty(
+    u: number,
+    v: number,
+    pose: CameraPose,
+    K: Intrinsics,
+    ground: GroundModel,
+    sigmas: UncertaintySigmas = DEFAULT_SIGMAS,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    base?: GroundHit | null
+): Promise<ErrorEllipse | null> {
+    const hit = base ?? await projectPixel(u, v, pose, K, ground, conv, earth);
+    if (!hit) return null;
+
+    const { mlat, mlon } = metersPerDeg(pose.lat);
+    const S = sigmas;
+    const fyScale = K.fx ? K.fy / K.fx : 1;
+    const perturbations: Perturbation[] = [
+        { key: "gpsH", u, v, ground, K, pose: { ...pose, lon: pose.lon + S.gpsH / mlon } },
+        { key: "gpsH", u, v, ground, K, pose: { ...pose, lat: pose.lat + S.gpsH / mlat } },
+        { key: "gpsV", u, v, ground, K, pose: { ...pose, alt: pose.alt + S.gpsV } },
+        { key: "yaw", u, v, ground, K, pose: { ...pose, yaw: pose.yaw + S.yaw } },
+        { key: "pitch", u, v, ground, K, pose: { ...pose, pitch: pose.pitch + S.pitch } },
+        { key: "roll", u, v, ground, K, pose: { ...pose, roll: pose.roll + S.roll } },
+        { key: "focal", u, v, ground, pose, K: { ...K, fx: K.fx + S.focal, fy: K.fy + S.focal * fyScale } },
+        { key: "principal", u, v, ground, pose, K: { ...K, cx: K.cx + S.principal } },
+        { key: "principal", u, v, ground, pose, K: { ...K, cy: K.cy + S.principal } },
+        { key: "pixel", u: u + S.pixel, v, ground, pose, K },
+        { key: "pixel", u, v: v + S.pixel, ground, pose, K },
+        { key: "dem", u, v, pose, K, ground: shiftGround(ground, S.dem) },
+    ];
+
+    const { mlat: hLat, mlon: hLon } = metersPerDeg(hit.lat);
+    let cee = 0, cnn = 0, cen = 0, unbounded = false;
+    const contrib = {} as Record<keyof UncertaintySigmas, number>;
+    for (const k of Object.keys(S) as (keyof UncertaintySigmas)[]) contrib[k] = 0;
+
+    for (const p of perturbations) {
+        if (!S[p.key]) continue;
+        const h = await projectPixel(p.u, p.v, p.pose, p.K, p.ground, conv, earth);
+        if (!h) { unbounded = true; contrib[p.key] = Infinity; continue; }
+        const dE = (h.lon - hit.lon) * hLon;
+        const dN = (h.lat - hit.lat) * hLat;
+        cee += dE * dE; cnn += dN * dN; cen += dE * dN;
+        contrib[p.key] = Math.hypot(contrib[p.key], Math.hypot(dE, dN));
+    }
+
+    return { ...ellipseFromCovariance(cee, cnn, cen), unbounded, contributions: contrib };
+}
+
+// -----------------------------
+// Covariance → ellipse / CE90
+// -----------------------------
+export function ellipseFromCovariance(cee: number, cnn: number, cen: number) {
+    const mean = (cee + cnn) / 2;
+    const diff = Math.sqrt(((cee - cnn) / 2) ** 2 + cen * cen);
+    const semiMajor = Math.sqrt(Math.max(0, mean + diff));
+    const semiMinor = Math.sqrt(Math.max(0, mean - diff));
+    const thetaEast = 0.5 * Math.atan2(2 * cen, cee - cnn);  // rad, CCW from east
+    const azimuth = ((90 - thetaEast * 180 / Math.PI) % 180 + 180) % 180;
+    return {
+        sigmaE: Math.sqrt(cee), sigmaN: Math.sqrt(cnn),
+        semiMajor, semiMinor, azimuth,
+        ce90: circularErrorRadius(semiMajor, semiMinor, 0.9),
+    };
+}
+
+// Radius R with P(|x| ≤ R) = p for a zero-mean 2D Gaussian with 1σ axes a ≥ b.
+// P(R) = ∫_{-R}^{R} φ(x/a)/a · erf(√(R²−x²) / (b√2)) dx, integrated along the major axis.
+export function circularErrorRadius(a: number, b: number, p = 0.9) {
+    if (!(a > 0)) return 0;
+    const prob = (R: number) => {
+        const n = 200;
+        let acc = 0;
+        for (let i = 0; i < n; i++) {
+            const x = -R + (i + 0.5) / n * 2 * R;
+            const inner = b > 0 ? erf(Math.sqrt(Math.max(0, R * R - x * x)) / (b * Math.SQRT2)) : 1;
+            acc += Math.exp(-x * x / (2 * a * a)) * inner;
+        }
+        return acc * (2 * R / n) / (a * Math.sqrt(2 * Math.PI));
+    };
+    let lo = 0, hi = 4 * a;
+    for (let i = 0; i < 50; i++) {
+        const mid = (lo + hi) / 2;
+        if (prob(mid) < p) lo = mid; else hi = mid;
+    }
+    return (lo + hi) / 2;
+}
+
+// Abramowitz–Stegun 7.1.26 (|error| < 1.5e-7)
+function erf(x: number) {
+    const t = 1 / (1 + 0.3275911 * Math.abs(x));
+    const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+    return x >= 0 ? y : -y;
+}
+
+// Ground outline (lat/lon) of the ellipse scaled to `scale`·σ, for drawing
+export function ellipseOutline(lat: number, lon: number, e: ErrorEllipse, scale = ELLIPSE_90_SCALE, n = 36) {
+    const az = e.azimuth * Math.PI / 180;
+    const out: { lat: number; lon: number }[] = [];
+    for (let i = 0; i < n; i++) {
+        const t = i / n * 2 * Math.PI;
+        const a = Math.cos(t) * e.semiMajor * scale, b = Math.sin(t) * e.semiMinor * scale;
+        // major axis along azimuth (clockwise from north), minor 90° to its right
+        const east = a * Math.sin(az) + b * Math.cos(az);
+        const north = a * Math.cos(az) - b * Math.sin(az);
+        out.push(enuToLatLon(lat, lon, east, north));
+    }
+    return out;
+}
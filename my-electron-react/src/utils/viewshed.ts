@@ -0,0 +1,356 @@
+// ============================================================================
+// FILE: src/utils/viewshed.ts
+// PURPOSE: What the camera can see of the terrain — a radial viewshed swept
+//          out from the camera over the DEM (optionally clipped to the photo's
+//          field of view), drawn as a map layer and as a mask on the photo —
+//          and a point-to-point sight-line profile that says where terrain
+//          gets in the way.
+// ============================================================================
+import {
+    CameraPose, Intrinsics, RotationConvention, EarthModel, DEMSampler,
+    DEFAULT_CONVENTION, FLAT_EARTH, cameraCentre, enuToPixel, enuToLatLon, metersPerDeg,
+} from "./projection";
+import { EARTH_MEAN_RADIUS } from "./geodesy";
+import { GeoImage, mercY, mercLat } from "./demRender";
+
+const toRad = (d: number) => d * Math.PI / 180;
+const toDeg = (r: number) => r * 180 / Math.PI;
+
+// Cell states
+export const VS_NODATA = 0;
+export const VS_VISIBLE = 1;
+export const VS_HIDDEN = 2;
+export const VS_OUTSIDE = 3;     // outside the photo's field of view
+
+export type ViewshedOptions = {
+    maxRange?: number;           // m
+    step?: number;               // deg between azimuths
+    targetHeight?: number;       // m above ground of what must be seen
+    clipToFov?: boolean;
+    cellSize?: number;           // m, DEM posting; the finest range step
+};
+
+// Polar grid around the camera, azimuth-major
+export type Viewshed = {
+    lat: number; lon: number; alt: number;   // camera centre, alt m AMSL
+    targetHeight: number;
+    step: number;
+    azimuths: number[];
+    ranges: Float64Array;        // m, cell centres, shared by every azimuth
+    cells: Uint8Array;           // VS_* per (azimuth, range)
+    ground: Float32Array;        // m AMSL per cell, NaN where void
+    visibleArea: number;         // m²
+    hiddenArea: number;          // m²
+};
+
+export type SightPoint = { lat: number; lon: number; alt: number };   // alt m AMSL
+
+export type Obstruction = {
+    from: number; to: number;    // m from A along the ground
+    worst: { lat: number; lon: number; dist: number; ground: number; above: number };
+};
+
+export type SightProfile = {
+    clear: boolean;
+    distance: number;            // m, A → B along the ground
+    clearance: number;           // m, least height of the line over the terrain (negative when blocked)
+    clearanceAt: number;         // m from A
+    obstructions: Obstruction[];
+    samples: { dist: number; ground: number | null; line: number }[];
+};
+
+// Earth curvature drop of terrain seen from a point, (1−k)·d²/2R
+function curvature(earth: EarthModel) {
+    return earth.kind === "ellipsoid" ? (1 - earth.refraction) / (2 * EARTH_MEAN_RADIUS) : 0;
+}
+
+// Ranges grow so cells stay roughly square: one DEM cell near the camera,
+// one azimuth step wide further out
+function rangeSteps(cellSize: number, step: number, maxRange: number) {
+    const out: number[] = [];
+    const dAz = toRad(step);
+    for (let r = Math.max(cellSize, 5); r <= maxRange; r += Math.max(cellSize, r * dAz)) out.push(r);
+    if (!out.length) out.push(maxRange);
+    return Float64Array.from(out);
+}
+
+function azimuthsInView(cam: CameraPose, K: Intrinsics, conv: RotationConvention, step: number, clip: boolean) {
+    const out: number[] = [];
+    for (let n = 0; n * step < 360; n++) {
+        const az = n * step;
+        if (clip) {
+            // why: test a fan of elevations so a steep look-down still counts its azimuths
+            const seen = [-60, -30, -10, -3, 0, 5].some(el => {
+                const a = toRad(az), e = toRad(el);
+                const p = enuToPixel([Math.sin(a) * Math.cos(e), Math.cos(a) * Math.cos(e), Math.sin(e)], cam, K, conv);
+                return p && p.u >= 0 && p.u < K.W && p.v >= 0 && p.v < K.H;
+            });
+            if (!seen) continue;
+        }
+        out.push(az);
+    }
+    return out;
+}
+
+// -----------------------------
+// Viewshed
+// -----------------------------
+// Along each azimuth a cell is visible when the target on it rises to at least
+// the steepest terrain angle met closer in.
+export async function computeViewshed(
+    pose: CameraPose,
+    K: Intrinsics,
+    sample: DEMSampler,
+    conv: RotationConvention = DEFAULT_CONVENTION,
+    earth: EarthModel = FLAT_EARTH,
+    opts: ViewshedOptions = {}
+): Promise<Viewshed> {
+    const cam = cameraCentre(pose, conv);
+    const camAlt = cam.alt ?? 0;
+    const step = opts.step ?? 0.25;
+    const targetHeight = opts.targetHeight ?? 0;
+    const clip = opts.clipToFov ?? true;
+    const curve = curvature(earth);
+
+    const azimuths = azimuthsInView(cam, K, conv, step, clip);
+    const ranges = rangeSteps(opts.cellSize ?? 10, step, opts.maxRange ?? 5_000);
+    const nr = ranges.length;
+    const cells = new Uint8Array(azimuths.length * nr);
+    const ground = new Float32Array(azimuths.length * nr).fill(NaN);
+    let visibleArea = 0, hiddenArea = 0;
+
+    for (let i = 0; i < azimuths.length; i++) {
+        const sa = Math.sin(toRad(azimuths[i])), ca = Math.cos(toRad(azimuths[i]));
+        let horizon = -Infinity;   // tan of the steepest terrain angle so far
+        for (let j = 0; j < nr; j++) {
+            const d = ranges[j];
+            const p = enuToLatLon(cam.lat, cam.lon, d * sa, d * ca);
+            const z = await sample(p.lat, p.lon);
+            const k = i * nr + j;
+            if (z === null || !Number.isFinite(z)) continue;
+            ground[k] = z;
+
+            const drop = curve * d * d;
+            const tGround = (z - camAlt - drop) / d;
+            const tTarget = (z + targetHeight - camAlt - drop) / d;
+            let state = tTarget >= horizon ? VS_VISIBLE : VS_HIDDEN;
+            horizon = Math.max(horizon, tGround);
+
+            if (clip) {
+                const px = enuToPixel([d * sa, d * ca, z + targetHeight - camAlt - drop], cam, K, conv);
+                if (!px || px.u < 0 || px.v < 0 || px.u >= K.W || px.v >= K.H) state = VS_OUTSIDE;
+            }
+            cells[k] = state;
+
+            const width = (j + 1 < nr ? ranges[j + 1] : d) - (j > 0 ? ranges[j - 1] : 0);
+            const area = d * toRad(step) * width / 2;
+            if (state === VS_VISIBLE) visibleArea += area;
+            else if (state === VS_HIDDEN) hiddenArea += area;
+        }
+        if (i % 16 === 15) await new Promise(res => setTimeout(res, 0));
+    }
+
+    return { lat: cam.lat, lon: cam.lon, alt: camAlt, targetHeight, step, azimuths, ranges, cells, ground, visibleArea, hiddenArea };
+}
+
+export function describeViewshed(vs: Viewshed) {
+    const km2 = (a: number) => (a / 1e6).toFixed(a < 1e6 ? 3 : 1);
+    const total = vs.visibleArea + vs.hiddenArea;
+    return `Viewshed: ${vs.azimuths.length} azimuths × ${vs.ranges.length} ranges to ${(vs.ranges[vs.ranges.length - 1] / 1000).toFixed(2)} km` +
+        ` · target ${vs.targetHeight} m above ground\n` +
+        `visible ${km2(vs.visibleArea)} km², hidden ${km2(vs.hiddenArea)} km²` +
+        (total > 0 ? ` (${(100 * vs.visibleArea / total).toFixed(0)}% of the terrain in view)` : "");
+}
+
+// Cell index of a point around the camera, or -1 outside the sweep
+function cellAt(vs: Viewshed, east: number, north: number) {
+    const d = Math.hypot(east, north);
+    const nr = vs.ranges.length;
+    if (d < vs.ranges[0] / 2 || d > vs.ranges[nr - 1]) return -1;
+    const az = (toDeg(Math.atan2(east, north)) + 360) % 360;
+    // azimuths are on a step grid, possibly with gaps where the view is clipped
+    const target = (Math.round(az / vs.step) % Math.ceil(360 / vs.step - 1e-9)) * vs.step;
+    let lo = 0, hi = vs.azimuths.length - 1, i = -1;
+    while (lo <= hi) {
+        const m = (lo + hi) >> 1;
+        if (Math.abs(vs.azimuths[m] - target) < 1e-9) { i = m; break; }
+        if (vs.azimuths[m] < target) lo = m + 1; else hi = m - 1;
+    }
+    if (i < 0) return -1;
+    lo = 0; hi = nr - 1;
+    while (lo < hi) {
+        const m = (lo + hi) >> 1;
+        if (vs.ranges[m] < d) lo = m + 1; else hi = m;
+    }
+    const j = lo > 0 && d - vs.ranges[lo - 1] < vs.ranges[lo] - d ? lo - 1 : lo;
+    return i * nr + j;
+}
+
+const CELL_COLOURS: Record<number, [number, number, number, number]> = {
+    [VS_VISIBLE]: [40, 200, 90, 170],
+    [VS_HIDDEN]: [220, 50, 50, 150],
+};
+
+// Map layer: visible green, hidden red, the rest transparent
+export function renderViewshed(vs: Viewshed, maxPx = 1024, rows: "mercator" | "degrees" = "mercator"): GeoImage {
+    const R = vs.ranges[vs.ranges.length - 1];
+    const { mlat, mlon } = metersPerDeg(vs.lat);
+    const west = vs.lon - R / mlon, east = vs.lon + R / mlon;
+    const south = vs.lat - R / mlat, north = vs.lat + R / mlat;
+    const width = maxPx, height = maxPx;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d")!;
+    const img = ctx.createImageData(width, height);
+    const yN = mercY(north), yS = mercY(south);
+    for (let r = 0; r < height; r++) {
+        const f = (r + 0.5) / height;
+        const lat = rows === "mercator" ? mercLat(yN + (yS - yN) * f) : north + (south - north) * f;
+        const n = (lat - vs.lat) * mlat;
+        for (let c = 0; c < width; c++) {
+            const e = (west + (c + 0.5) / width * (east - west) - vs.lon) * mlon;
+            const k = cellAt(vs, e, n);
+            const col = k >= 0 ? CELL_COLOURS[vs.cells[k]] : undefined;
+            if (col) img.data.set(col, (r * width + c) * 4);
+        }
+    }
+    ctx.putImageData(img, 0, 0);
+    return { url: canvas.toDataURL("image/png"), west, east, south, north, width, height };
+}
+
+// Photo mask in display pixels: every visible / hidden cell projected into the
+// image as a quad. Hidden ground lands on the terrain that hides it.
+export function viewshedMask(
+    vs: Viewshed,
+    pose: CameraPose,
+    K: Intrinsics,
+    conv: RotationConvention,
+    earth: EarthModel,
+    toDisplay: (u: number, v: number) => { u: number; v: number },
+    dispW: number,
+    dispH: number,
+    maxPx = 1024
+): { url: string; width: number; height: number } {
+    const cam = cameraCentre(pose, conv);
+    const curve = curvature(earth);
+    const k = Math.min(1, maxPx / Math.max(dispW, dispH));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(dispW * k));
+    canvas.height = Math.max(1, Math.round(dispH * k));
+    const ctx = canvas.getContext("2d")!;
+    const nr = vs.ranges.length;
+    const half = toRad(vs.step / 2);
+
+    const corner = (az: number, d: number, z: number) => {
+        const p = enuToPixel([d * Math.sin(az), d * Math.cos(az), z + vs.targetHeight - vs.alt - curve * d * d], cam, K, conv);
+        if (!p) return null;
+        const q = toDisplay(p.u, p.v);
+        return { x: q.u * k, y: q.v * k };
+    };
+
+    // why: hidden last so the ridges hiding ground read red over the green
+    for (const state of [VS_VISIBLE, VS_HIDDEN]) {
+        const [r, g, b, a] = CELL_COLOURS[state];
+        ctx.fillStyle = `rgba(${r},${g},${b},${(a / 255).toFixed(2)})`;
+        for (let i = 0; i < vs.azimuths.length; i++) {
+            const az = toRad(vs.azimuths[i]);
+            for (let j = 0; j < nr; j++) {
+                const c = i * nr + j;
+                if (vs.cells[c] !== state) continue;
+                const z = vs.ground[c];
+                const d0 = j > 0 ? (vs.ranges[j - 1] + vs.ranges[j]) / 2 : vs.ranges[j] / 2;
+                const d1 = j + 1 < nr ? (vs.ranges[j] + vs.ranges[j + 1]) / 2 : vs.ranges[j];
+                const quad = [corner(az - half, d0, z), corner(az + half, d0, z), corner(az + half, d1, z), corner(az - half, d1, z)];
+                if (quad.some(q => !q)) continue;
+                ctx.beginPath();
+                ctx.moveTo(quad[0]!.x, quad[0]!.y);
+                for (let q = 1; q < 4; q++) ctx.lineTo(quad[q]!.x, quad[q]!.y);
+                ctx.closePath();
+                ctx.fill();
+            }
+        }
+    }
+    return { url: canvas.toDataURL("image/png"), width: dispW, height: dispH };
+}
+
+// -----------------------------
+// Point to point
+// -----------------------------
+// Straight sight line A → B sampled every ~cell; every stretch where terrain
+// rises above the line (beyond the tolerance) is reported with its worst post.
+export async function sightLineProfile(
+    a: SightPoint,
+    b: SightPoint,
+    sample: DEMSampler,
+    earth: EarthModel = FLAT_EARTH,
+    opts: { cellSize?: number; tolerance?: number } = {}
+): Promise<SightProfile> {
+    const { mlat, mlon } = metersPerDeg(a.lat);
+    const east = (b.lon - a.lon) * mlon, north = (b.lat - a.lat) * mlat;
+    const dist = Math.hypot(east, north);
+    const tolerance = opts.tolerance ?? 1;
+    const curve = curvature(earth);
+    const n = Math.min(5000, Math.max(20, Math.ceil(dist / Math.max(1, opts.cellSize ?? 5))));
+
+    const samples: SightProfile["samples"] = [];
+    const obstructions: Obstruction[] = [];
+    let open: Obstruction | null = null;
+    let clearance = Infinity, clearanceAt = 0;
+
+    for (let i = 1; i < n; i++) {
+        const f = i / n;
+        const d = f * dist;
+        const p = enuToLatLon(a.lat, a.lon, f * east, f * north);
+        // heights in A's tangent plane: everything drops by c·d²
+        const line = a.alt + f * (b.alt - curve * dist * dist - a.alt);
+        const z = await sample(p.lat, p.lon);
+        if (z === null || !Number.isFinite(z)) { samples.push({ dist: d, ground: null, line }); continue; }
+        const groundT = z - curve * d * d;
+        samples.push({ dist: d, ground: groundT, line });
+
+        // why: the end posts belong to A and B themselves
+        if (d < 2 || dist - d < 2) continue;
+        const above = groundT - line;
+        if (-above < clearance) { clearance = -above; clearanceAt = d; }
+        if (above > tolerance) {
+            if (!open) {
+                open = { from: d, to: d, worst: { lat: p.lat, lon: p.lon, dist: d, ground: z, above } };
+                obstructions.push(open);
+            }
+            open.to = d;
+            if (above > open.worst.above) open.worst = { lat: p.lat, lon: p.lon, dist: d, ground: z, above };
+        } else {
+            open = null;
+        }
+    }
+
+    return {
+        clear: obstructions.length === 0,
+        distance: dist,
+        clearance: Number.isFinite(clearance) ? clearance : NaN,
+        clearanceAt,
+        obstructions,
+        samples,
+    };
+}
+
+export function describeSightLine(p: SightProfile) {
+    const km = (m: number) => m >= 1000 ? `${(m / 1000).toFixed(2)} km` : `${m.toFixed(0)} m`;
+    const lines = [`Sight line ${km(p.distance)}: ${p.clear ? "clear" : `blocked by ${p.obstructions.length} ridge${p.obstructions.length === 1 ? "" : "s"}`}`];
+    if (Number.isFinite(p.clearance)) {
+        lines.push(p.clear
+            ? `least clearance ${p.clearance.toFixed(1)} m at ${km(p.clearanceAt)} from A`
+            : `terrain rises up to ${(-p.clearance).toFixed(1)} m above the line`);
+    } else {
+        lines.push(`no DEM data along the line`);
+    }
+    p.obstructions.forEach((o, i) => lines.push(
+        `  #${i + 1} ${km(o.from)} – ${km(o.to)} from A: worst ${o.worst.above.toFixed(1)} m above the line` +
+        ` at ${o.worst.lat.toFixed(6)}, ${o.worst.lon.toFixed(6)} (ground ${o.worst.ground.toFixed(1)} m)`
+    ));
+    const voids = p.samples.filter(s => s.ground === null).length;
+    if (voids) lines.push(`${voids} of ${p.samples.length} samples had no DEM data`);
+    return lines.join("\n");
+}